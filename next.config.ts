@@ -16,6 +16,13 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // The Tesseract worker loads its own scripts and wasm from node_modules at runtime
+  serverExternalPackages: ['tesseract.js'],
+  experimental: {
+    serverActions: {
+      bodySizeLimit: '8mb', // Result images uploaded to the admin panel (6 MB max, see admin/actions.ts)
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -2,3 +2,4 @@
 import './flows/statistics-flow';
 import './flows/consultant-flow';
 import './flows/prediction-flow';
+import './flows/image-analysis-flow';
@@ -1,46 +1,37 @@
 'use server';
 /**
- * @fileOverview Flow for lottery number consultation, analyzing co-occurrence and next draw appearance.
+ * @fileOverview Flow for lottery number consultation, analyzing co-occurrence and next draw appearance
+ * among winning numbers, machine numbers, or both.
  *
  * - analyzeNumberRegularity - Analyzes a target number's relationship with other numbers.
- * - NumberRegularityInput - Input type for the flow.
- * - NumberRegularityOutput - Output type for the flow.
+ *
+ * Schemas and types live in consultant-types.ts.
  */
 
 import { ai } from '@/ai/genkit';
 import { z } from 'zod';
 import type { LotteryResult } from '@/types/lottery';
+import { numbersOf, type NumberSource } from '@/lib/number-source';
+import { compareDraws } from '@/config/draw-schedule';
+import {
+  NumberRegularityInputSchema,
+  NumberRegularityOutputSchema,
+  type FollowUpCategory,
+  type FollowUpScope,
+  type NumberRegularityInput,
+  type NumberRegularityOutput,
+} from './consultant-types';
 
-const NumberRegularityInputSchema = z.object({
-  results: z.array(
-    z.object({
-      draw_name: z.string(),
-      date: z.string(),
-      gagnants: z.array(z.number()),
-      machine: z.array(z.number()).refine(arr => arr.length === 0 || arr.length === 5, { // Allow empty or 5 machine numbers
-        message: "Les numéros machine doivent être soit 0 (aucun) soit 5 numéros.",
-      }),
-    })
-  ).describe("List of lottery results for a specific draw category."),
-  targetNumber: z.number().describe("The number to analyze for regularity."),
-  drawName: z.string().describe("The name of the draw category being analyzed.")
-});
-export type NumberRegularityInput = z.infer<typeof NumberRegularityInputSchema>;
-
-const CoOccurrenceSchema = z.record(z.number()).describe("Frequency of other numbers appearing with the target number in the same draw (winning numbers only).");
-const NextDrawAppearanceSchema = z.record(z.number()).describe("Frequency of other numbers appearing in the draw immediately following one where the target number appeared (winning numbers only).");
+const SOURCE_DESCRIPTIONS: Record<NumberSource, string> = {
+  gagnants: 'parmi les numéros gagnants',
+  machine: 'parmi les numéros machine',
+  both: 'parmi les numéros gagnants ou machine',
+};
 
-const NumberRegularityOutputSchema = z.object({
-  drawName: z.string(),
-  targetNumber: z.number(),
-  totalDrawsWithTarget: z.number().describe("Total draws where the target number appeared as a winning number."),
-  coOccurrence: CoOccurrenceSchema,
-  nextDrawAppearance: NextDrawAppearanceSchema,
-  mostCoOccurring: z.array(z.number()).describe("Numbers most frequently co-occurring with the target."),
-  mostFrequentInNextDraw: z.array(z.number()).describe("Numbers most frequently appearing in the next draw after target."),
-  analysisSummary: z.string().optional().describe("AI-generated summary of the findings."),
-});
-export type NumberRegularityOutput = z.infer<typeof NumberRegularityOutputSchema>;
+function describeFollowUps(scope: FollowUpScope, lag: number): string {
+  const draws = lag === 1 ? 'au tirage suivant' : `dans les ${lag} tirages suivants`;
+  return scope === 'all-draws' ? `${draws}, toutes catégories confondues` : `${draws} de la même catégorie`;
+}
 
 function getTopN(frequencies: Record<string, number>, n: number): number[] {
   return Object.entries(frequencies)
@@ -56,35 +47,55 @@ const analyzeNumberRegularityFlow = ai.defineFlow(
     outputSchema: NumberRegularityOutputSchema,
   },
   async (input) => {
-    const { results, targetNumber, drawName } = input;
+    const { results, targetNumber, drawName, source, scope, lag } = input;
     const coOccurrence: Record<string, number> = {};
     const nextDrawAppearance: Record<string, number> = {};
+    const byCategory = new Map<string, { followUpDraws: number; totalLag: number; appearances: Record<string, number> }>();
     let totalDrawsWithTarget = 0;
+    let followUpDraws = 0;
 
-    // Sort results by date to correctly identify next draws
-    const sortedResults = [...results].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    // Chronological order (date, then slot within the day) so that the following draws are the actual next ones
+    const timeline: LotteryResult[] = [...results]
+      .filter(result => scope === 'all-draws' || result.draw_name === drawName)
+      .sort(compareDraws);
 
-    for (let i = 0; i < sortedResults.length; i++) {
-      const currentDraw = sortedResults[i];
-      if (currentDraw.gagnants.includes(targetNumber)) {
+    for (let i = 0; i < timeline.length; i++) {
+      const currentDraw = timeline[i];
+      const currentNumbers = numbersOf(currentDraw, source);
+      if (currentDraw.draw_name === drawName && currentNumbers.includes(targetNumber)) {
         totalDrawsWithTarget++;
 
-        // Co-occurrence: numbers in the same draw (winning only)
-        currentDraw.gagnants.forEach(num => {
+        // Co-occurrence: numbers in the same draw, from the analyzed source
+        currentNumbers.forEach(num => {
           if (num !== targetNumber) {
             coOccurrence[num.toString()] = (coOccurrence[num.toString()] || 0) + 1;
           }
         });
 
-        // Next draw appearance: numbers in the next draw (winning only)
-        if (i + 1 < sortedResults.length) {
-          const nextDraw = sortedResults[i + 1];
+        // Next draw appearance: winning numbers of the following draws, the ones a player bets on
+        timeline.slice(i + 1, i + 1 + lag).forEach((nextDraw, offset) => {
+          followUpDraws++;
+          const category = byCategory.get(nextDraw.draw_name) ?? { followUpDraws: 0, totalLag: 0, appearances: {} };
+          category.followUpDraws++;
+          category.totalLag += offset + 1;
           nextDraw.gagnants.forEach(num => {
             nextDrawAppearance[num.toString()] = (nextDrawAppearance[num.toString()] || 0) + 1;
+            category.appearances[num.toString()] = (category.appearances[num.toString()] || 0) + 1;
           });
-        }
+          byCategory.set(nextDraw.draw_name, category);
+        });
       }
     }
+
+    const followUpByCategory: FollowUpCategory[] = Array.from(byCategory.entries())
+      .map(([name, category]) => ({
+        drawName: name,
+        followUpDraws: category.followUpDraws,
+        averageLag: category.totalLag / category.followUpDraws,
+        appearances: category.appearances,
+        mostFrequent: getTopN(category.appearances, 5),
+      }))
+      .sort((a, b) => a.averageLag - b.averageLag || a.drawName.localeCompare(b.drawName));
     
     const topN = 5;
     const mostCoOccurring = getTopN(coOccurrence, topN);
@@ -93,35 +104,40 @@ const analyzeNumberRegularityFlow = ai.defineFlow(
     // AI prompt for analysis (optional, can be expanded)
     const prompt = ai.definePrompt({
         name: 'consultantAnalysisPrompt',
-        input: { schema: z.object({ targetNumber: z.number(), mostCoOccurring: z.array(z.number()), mostFrequentInNextDraw: z.array(z.number()), totalDrawsWithTarget: z.number(), drawName: z.string() }) },
+        input: { schema: z.object({ targetNumber: z.number(), sourceDescription: z.string(), followUpDescription: z.string(), mostCoOccurring: z.array(z.number()), mostFrequentInNextDraw: z.array(z.number()), totalDrawsWithTarget: z.number(), drawName: z.string() }) },
         output: { schema: z.object({ summary: z.string() }) },
         prompt: `Analyse la régularité du numéro {{{targetNumber}}} pour le tirage "{{{drawName}}}".
-        Il est apparu dans {{{totalDrawsWithTarget}}} tirages.
+        Il est apparu dans {{{totalDrawsWithTarget}}} tirages, {{{sourceDescription}}}.
         Les numéros qui apparaissent le plus souvent avec lui sont: {{{mostCoOccurring}}}.
-        Les numéros qui apparaissent le plus souvent dans le tirage suivant sont: {{{mostFrequentInNextDraw}}}.
+        Les numéros gagnants qui sortent le plus souvent {{{followUpDescription}}} sont: {{{mostFrequentInNextDraw}}}.
         Fournis un bref résumé (2-3 phrases) de ces observations pour un joueur. Sois concis et direct.`,
     });
 
     let analysisSummary: string | undefined = undefined;
     if (totalDrawsWithTarget > 0) {
         try {
-            const { output } = await prompt({ targetNumber, mostCoOccurring, mostFrequentInNextDraw, totalDrawsWithTarget, drawName });
+            const { output } = await prompt({ targetNumber, sourceDescription: SOURCE_DESCRIPTIONS[source], followUpDescription: describeFollowUps(scope, lag), mostCoOccurring, mostFrequentInNextDraw, totalDrawsWithTarget, drawName });
             analysisSummary = output?.summary;
         } catch (e) {
             console.error("Error generating consultant summary:", e);
             analysisSummary = "L'analyse IA n'est pas disponible pour le moment.";
         }
     } else {
-        analysisSummary = `Le numéro ${targetNumber} n'a pas été trouvé dans les résultats gagnants pour le tirage ${drawName} analysés. Impossible de fournir une analyse de régularité.`;
+        analysisSummary = `Le numéro ${targetNumber} n'a pas été trouvé ${SOURCE_DESCRIPTIONS[source]} dans les résultats du tirage ${drawName} analysés. Impossible de fournir une analyse de régularité.`;
     }
 
 
     return {
       drawName,
       targetNumber,
+      source,
+      scope,
+      lag,
       totalDrawsWithTarget,
+      followUpDraws,
       coOccurrence,
       nextDrawAppearance,
+      followUpByCategory,
       mostCoOccurring,
       mostFrequentInNextDraw,
       analysisSummary,
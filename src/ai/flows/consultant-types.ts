@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { NUMBER_SOURCES } from '@/lib/number-source';
+import { refineMachineCounts } from '@/lib/game-format';
+
+// Which draws follow a draw: the next ones of the same category, or the next ones of the whole
+// schedule in chronological order (Reveil -> Etoile -> Akwaba -> Monday Special on a Monday)
+export const FOLLOW_UP_SCOPES = ['category', 'all-draws'] as const;
+export type FollowUpScope = typeof FOLLOW_UP_SCOPES[number];
+
+export const MAX_FOLLOW_UP_LAG = 10;
+
+export const NumberRegularityInputSchema = z.object({
+  results: z.array(
+    z.object({
+      draw_name: z.string(),
+      date: z.string(),
+      gagnants: z.array(z.number()),
+      machine: z.array(z.number()),
+    })
+  ).describe("List of lottery results: the analyzed category's, or every category's for the 'all-draws' scope."),
+  targetNumber: z.number().describe("The number to analyze for regularity."),
+  source: z.enum(NUMBER_SOURCES).default('gagnants').describe("Numbers of each draw the target is looked for in, and counted alongside: winning, machine, or both."),
+  drawName: z.string().describe("The name of the draw category being analyzed."),
+  scope: z.enum(FOLLOW_UP_SCOPES).default('category').describe("Whether following draws are the category's own or any category's, by date and slot time."),
+  lag: z.number().int().min(1).max(MAX_FOLLOW_UP_LAG).default(1).describe("How many following draws are looked at after each appearance of the target."),
+}).superRefine(refineMachineCounts);
+export type NumberRegularityInput = z.infer<typeof NumberRegularityInputSchema>;
+
+const CoOccurrenceSchema = z.record(z.number()).describe("Frequency of other numbers appearing with the target number in the same draw (among the analyzed source's numbers).");
+const NextDrawAppearanceSchema = z.record(z.number()).describe("Frequency of winning numbers in the draws following one where the target number appeared, whatever the analyzed source.");
+
+// Where follow-up numbers came out, per category of the following draws
+const FollowUpCategorySchema = z.object({
+  drawName: z.string(),
+  followUpDraws: z.number().describe("Following draws of this category looked at."),
+  averageLag: z.number().describe("Average position after the target's draw, 1 being the next draw."),
+  appearances: z.record(z.number()).describe("Frequency of winning numbers in these draws."),
+  mostFrequent: z.array(z.number()),
+});
+export type FollowUpCategory = z.infer<typeof FollowUpCategorySchema>;
+
+export const NumberRegularityOutputSchema = z.object({
+  drawName: z.string(),
+  targetNumber: z.number(),
+  source: z.enum(NUMBER_SOURCES),
+  scope: z.enum(FOLLOW_UP_SCOPES),
+  lag: z.number(),
+  totalDrawsWithTarget: z.number().describe("Total draws where the target number appeared among the analyzed source's numbers."),
+  followUpDraws: z.number().describe("Following draws looked at, across all appearances of the target."),
+  coOccurrence: CoOccurrenceSchema,
+  nextDrawAppearance: NextDrawAppearanceSchema,
+  followUpByCategory: z.array(FollowUpCategorySchema).describe("Follow-up appearances split by the category of the following draw, nearest first."),
+  mostCoOccurring: z.array(z.number()).describe("Numbers most frequently co-occurring with the target."),
+  mostFrequentInNextDraw: z.array(z.number()).describe("Numbers most frequently appearing in the draws following the target."),
+  analysisSummary: z.string().optional().describe("AI-generated summary of the findings."),
+});
+export type NumberRegularityOutput = z.infer<typeof NumberRegularityOutputSchema>;
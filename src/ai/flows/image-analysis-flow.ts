@@ -1,33 +1,24 @@
-
-'use server';
 /**
  * @fileOverview Flow for analyzing lottery result images to extract draw data.
  *
- * - analyzeLotteryImage - Analyzes an image and extracts lottery results.
+ * - analyzeLotteryImage - Analyzes an image with the configured extractor and reviews each extracted draw.
+ * - analyzeLotteryImageWith - Same analysis with an explicit extractor (e.g. a recorded one).
  * - LotteryImageAnalysisInput - Input type for the flow.
  * - LotteryImageAnalysisOutput - Output type for the flow.
+ *
+ * Not a 'use server' module: the flow is only reachable through the admin action, which checks the role.
  */
 
 import { ai } from '@/ai/genkit';
 import { z } from 'zod';
-import type { LotteryResult } from '@/types/lottery';
-import { getUniqueDrawNames } from '@/config/draw-schedule';
-import { format, parse as dateParse, isValid } from 'date-fns';
+import { getDrawsOn, getGameFormat, getScheduleOn, getUniqueDrawNames, resolveDrawName, type GameFormat } from '@/config/draw-schedule';
+import { readLearnedAliases } from '@/lib/draw-quarantine';
+import { format, parse as dateParse, isValid, isAfter, startOfDay, subYears } from 'date-fns';
 import { fr } from 'date-fns/locale';
+import type { ImageRegion, LotteryImageExtractor, RawExtractedDraw } from '@/ai/image-extraction/image-extractor';
+import { getConfiguredImageExtractor } from '@/ai/image-extraction/configured-image-extractor';
 
-// Zod schema for a single extracted draw from the image
-const ExtractedDrawSchema = z.object({
-  draw_name: z.string().describe("Le nom du tirage (ex: 'REVEIL', 'ETOILE'). Doit correspondre à un nom connu."),
-  date: z.string().describe("La date du tirage au format YYYY-MM-DD. Essayer de déduire l'année si non explicite."),
-  winning_numbers: z.array(z.number().int().min(1).max(90)).length(5).describe("Les 5 numéros gagnants."),
-  machine_numbers: z.array(z.number().int().min(0).max(90))
-    .refine(arr => arr.length === 0 || arr.length === 5, {
-      message: "Les numéros machine doivent être soit un tableau vide (si non présents ou non analysables), soit un tableau de 5 numéros (0-90)."
-    })
-    .describe("Les 5 numéros machine. Si non présents ou non clairement identifiables, retourner un tableau vide []. Si des numéros sont présents mais pas 5, essayer de compléter à 5 avec 0 ou retourner vide si ambigu.")
-});
-
-export const LotteryImageAnalysisInputSchema = z.object({
+const LotteryImageAnalysisInputSchema = z.object({
   imageDataUri: z.string().describe(
     "A photo of lottery results, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
   ),
@@ -35,20 +26,158 @@ export const LotteryImageAnalysisInputSchema = z.object({
 });
 export type LotteryImageAnalysisInput = z.infer<typeof LotteryImageAnalysisInputSchema>;
 
-export const LotteryImageAnalysisOutputSchema = z.object({
-  extractedData: z.array(
-    z.object({
-      draw_name: z.string(),
-      date: z.string(), // YYYY-MM-DD
-      gagnants: z.array(z.number()),
-      machine: z.array(z.number()),
-      clientId: z.string().optional(),
-    })
-  ).describe("List of lottery results extracted from the image."),
-  analysisSummary: z.string().describe("AI-generated summary of the image analysis process and findings."),
+const ExtractionMessageSchema = z.object({
+  level: z.enum(['error', 'warning']),
+  text: z.string(),
+});
+export type ExtractionMessage = z.infer<typeof ExtractionMessageSchema>;
+
+// One draw ready for review: the fields hold the best reading available, even when `messages` has errors
+const ExtractedDrawReviewSchema = z.object({
+  index: z.number(), // Position in the extractor output
+  draw_name: z.string(),
+  date: z.string(), // YYYY-MM-DD when it could be read, the raw text otherwise
+  gagnants: z.array(z.number()),
+  machine: z.array(z.number()),
+  region: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }).optional(),
+  messages: z.array(ExtractionMessageSchema),
+});
+export type ExtractedDrawReview = z.infer<typeof ExtractedDrawReviewSchema>;
+
+const LotteryImageAnalysisOutputSchema = z.object({
+  draws: z.array(ExtractedDrawReviewSchema).describe("Draws extracted from the image, with their validation messages."),
+  analysisSummary: z.string().describe("Summary of the image analysis process and findings."),
+  extractorName: z.string(),
 });
 export type LotteryImageAnalysisOutput = z.infer<typeof LotteryImageAnalysisOutputSchema>;
 
+// Exact names pass silently; other spellings and aliases resolve with a warning so the admin can check them
+function matchDrawName(rawName: string, drawNames: string[], drawNameAliases: Record<string, string>, messages: ExtractionMessage[]): string {
+  const trimmed = rawName.trim();
+  const exact = drawNames.find(name => name.toLowerCase() === trimmed.toLowerCase());
+  if (exact) return exact;
+  const resolved = resolveDrawName(trimmed, drawNameAliases);
+  if (resolved && drawNames.includes(resolved)) {
+    messages.push({ level: 'warning', text: `Nom lu "${trimmed}" interprété comme "${resolved}".` });
+    return resolved;
+  }
+  messages.push({ level: 'error', text: `Tirage inconnu: "${trimmed}".` });
+  return trimmed;
+}
+
+const DATE_PATTERNS_WITH_YEAR = ['yyyy-MM-dd', 'dd/MM/yyyy', 'd MMMM yyyy', 'EEEE d MMMM yyyy', 'd MMM yyyy'];
+const DATE_PATTERNS_WITHOUT_YEAR = ['dd/MM', 'd MMMM', 'EEEE d MMMM', 'd MMM'];
+
+function parseDrawDate(rawDate: string, referenceDate: Date, messages: ExtractionMessage[]): string {
+  const text = rawDate.trim().replace(/\s+/g, ' ');
+  const tryPatterns = (patterns: string[]) => {
+    for (const pattern of patterns) {
+      const parsed = dateParse(text, pattern, referenceDate, { locale: fr });
+      if (isValid(parsed)) return parsed;
+    }
+    return null;
+  };
+
+  let parsed = tryPatterns(DATE_PATTERNS_WITH_YEAR);
+  if (!parsed) {
+    // date-fns takes the missing year from the reference date; a result sheet cannot show a future draw
+    parsed = tryPatterns(DATE_PATTERNS_WITHOUT_YEAR);
+    if (parsed && isAfter(startOfDay(parsed), referenceDate)) parsed = subYears(parsed, 1);
+    if (parsed) {
+      messages.push({ level: 'warning', text: `Année absente de l'image: ${parsed.getFullYear()} supposée.` });
+    }
+  }
+  if (!parsed) {
+    messages.push({ level: 'error', text: `Date illisible: "${rawDate}".` });
+    return rawDate;
+  }
+  if (isAfter(startOfDay(parsed), referenceDate)) {
+    messages.push({ level: 'warning', text: 'La date est dans le futur.' });
+  }
+  return format(parsed, 'yyyy-MM-dd');
+}
+
+// Checks the category is drawn on that date, by the schedule in effect then and the special draws
+function checkScheduledDay(drawName: string, date: string, messages: ExtractionMessage[]) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || getDrawsOn(date).some(d => d.name === drawName)) return;
+  const weekday = format(dateParse(date, 'yyyy-MM-dd', new Date()), 'EEEE', { locale: fr });
+  const scheduledDay = Object.entries(getScheduleOn(date)).find(([, times]) => Object.values(times).includes(drawName))?.[0];
+  messages.push({
+    level: 'warning',
+    text: scheduledDay
+      ? `${drawName} est tiré le ${scheduledDay.toLowerCase()}, pas le ${weekday}.`
+      : `${drawName} n'est pas au programme du ${weekday} ${date}.`,
+  });
+}
+
+function checkNumbers(numbers: number[], expectedCount: number, format: GameFormat, label: string, messages: ExtractionMessage[]) {
+  if (numbers.length !== expectedCount) {
+    messages.push({ level: 'error', text: `${label}: ${numbers.length} numéro(s) lu(s) au lieu de ${expectedCount}.` });
+  }
+  const outOfRange = numbers.filter(n => !Number.isInteger(n) || n < 1 || n > format.maxNumber);
+  if (outOfRange.length > 0) {
+    messages.push({ level: 'error', text: `${label}: hors de l'intervalle 1-${format.maxNumber} (${outOfRange.join(', ')}).` });
+  }
+  if (new Set(numbers).size !== numbers.length) {
+    messages.push({ level: 'warning', text: `${label}: numéro répété.` });
+  }
+}
+
+function validRegion(region: ImageRegion | undefined): ImageRegion | undefined {
+  if (!region) return undefined;
+  const { x, y, width, height } = region;
+  const inImage = [x, y, width, height].every(v => Number.isFinite(v) && v >= 0 && v <= 1) && x + width <= 1.001 && y + height <= 1.001;
+  return inImage && width > 0 && height > 0 ? region : undefined;
+}
+
+/**
+ * Turns the raw extractor output into reviewable draws. Nothing is dropped for being invalid:
+ * problems are attached as messages so the admin can correct the fields before the import preview.
+ */
+export function reviewExtractedDraws(
+  rawDraws: RawExtractedDraw[],
+  drawNames: string[],
+  referenceDate: Date = new Date(),
+  drawNameAliases: Record<string, string> = {}
+): ExtractedDrawReview[] {
+  return rawDraws.map((rawDraw, index) => {
+    const messages: ExtractionMessage[] = (rawDraw.warnings || []).map(text => ({ level: 'warning' as const, text }));
+    const drawName = matchDrawName(rawDraw.draw_name || '', drawNames, drawNameAliases, messages);
+    const date = parseDrawDate(rawDraw.date || '', referenceDate, messages);
+    if (drawNames.includes(drawName)) checkScheduledDay(drawName, date, messages);
+
+    // An unrecognized name is checked against the default game, the admin picks the category anyway
+    const gameFormat = getGameFormat(drawName);
+    const gagnants = rawDraw.winning_numbers || [];
+    checkNumbers(gagnants, gameFormat.numbersDrawn, gameFormat, 'Numéros gagnants', messages);
+
+    // [0,0,0,0,0] is how result sheets print "no machine numbers"
+    let machine = rawDraw.machine_numbers || [];
+    if (machine.length > 0 && machine.every(n => n === 0)) {
+      machine = [];
+    } else if (machine.length > 0) {
+      checkNumbers(machine, gameFormat.machineNumbers, gameFormat, 'Numéros machine', messages);
+    }
+
+    return { index, draw_name: drawName, date, gagnants, machine, region: validRegion(rawDraw.region), messages };
+  });
+}
+
+export async function analyzeLotteryImageWith(extractor: LotteryImageExtractor, input: LotteryImageAnalysisInput): Promise<LotteryImageAnalysisOutput> {
+  const { imageDataUri, drawNameFilter } = input;
+  const drawNames = getUniqueDrawNames();
+
+  const extraction = await extractor.extract({ imageDataUri, drawNames });
+  let draws = reviewExtractedDraws(extraction.draws, drawNames, new Date(), await readLearnedAliases());
+  let analysisSummary = `${draws.length} tirage(s) extrait(s), ${draws.filter(d => d.messages.some(m => m.level === 'error')).length} à corriger. ${extraction.summary}`;
+
+  // Unrecognized names are kept: they may be the filtered category, misread
+  if (drawNameFilter && drawNameFilter !== "all") {
+    draws = draws.filter(d => d.draw_name === drawNameFilter || !drawNames.includes(d.draw_name));
+    analysisSummary += ` Filtrage appliqué pour la catégorie: ${drawNameFilter}.`;
+  }
+  return { draws, analysisSummary, extractorName: extractor.name };
+}
 
 const analyzeLotteryImageFlow = ai.defineFlow(
   {
@@ -56,130 +185,7 @@ const analyzeLotteryImageFlow = ai.defineFlow(
     inputSchema: LotteryImageAnalysisInputSchema,
     outputSchema: LotteryImageAnalysisOutputSchema,
   },
-  async (input) => {
-    const { imageDataUri, drawNameFilter } = input;
-    const uniqueDrawNames = getUniqueDrawNames(); // For validation
-
-    const prompt = ai.definePrompt({
-        name: 'lotteryImageAnalysisPrompt',
-        input: { schema: z.object({ imageDataUri: z.string(), uniqueDrawNames: z.array(z.string()) }) },
-        output: { schema: z.object({
-            draws: z.array(ExtractedDrawSchema),
-            summary: z.string()
-        }) },
-        prompt: `Analyse l'image fournie pour extraire les résultats de tirages de Loto Bonheur.
-        L'image contient des résultats de loterie. Chaque résultat a un nom de tirage, une date, 5 numéros gagnants, et optionnellement 5 numéros machine.
-        Les noms de tirage valides sont: {{{uniqueDrawNames}}}. Si un nom de tirage dans l'image ne correspond pas exactement à l'un d'eux, essaie de trouver le plus similaire ou ignore-le s'il est trop ambigu.
-        Pour la date, si l'année n'est pas explicite, suppose l'année actuelle. Formate la date en YYYY-MM-DD. Par exemple, "Lundi 15 Juillet" devient "YYYY-07-15".
-        Les numéros gagnants sont toujours 5 chiffres entre 1 et 90.
-        Les numéros machine, s'ils sont présents, sont aussi 5 chiffres (peuvent être 0). S'il n'y a pas de numéros machine clairs ou s'ils sont ambigus (par ex. moins de 5 numéros), retourne un tableau vide pour machine_numbers. Si les numéros machine sont explicitement listés comme des zéros (0,0,0,0,0), traite-les comme absents (tableau vide []).
-        Retourne une liste d'objets, chaque objet représentant un tirage trouvé.
-        Fournis également un résumé textuel de l'analyse, mentionnant le nombre de tirages trouvés et toute difficulté rencontrée.
-
-        Image à analyser: {{media url=imageDataUri}}`,
-        config: {
-            temperature: 0.2, // Lower temperature for more deterministic extraction
-        },
-    });
-
-    let extractedResults: LotteryResult[] = [];
-    let analysisSummary = "";
-
-    try {
-        const { output } = await prompt({ imageDataUri, uniqueDrawNames });
-
-        if (output && output.draws) {
-            const rawExtractedDraws = output.draws;
-            analysisSummary = output.summary || "Analyse terminée.";
-
-            for (const rawDraw of rawExtractedDraws) {
-                // Validate draw_name
-                const matchedDrawName = uniqueDrawNames.find(dn => dn.toLowerCase() === rawDraw.draw_name.toLowerCase());
-                if (!matchedDrawName) {
-                    analysisSummary += ` Tirage ignoré (nom inconnu): ${rawDraw.draw_name}.`;
-                    continue;
-                }
-
-                // Validate and format date (attempt to parse various common formats)
-                let parsedDate: Date | null = null;
-                try {
-                    const datePatterns = ['d MMMM yyyy', 'dd MMMM yyyy', 'd MMM yyyy', 'dd MMM yyyy', 'd MMMM', 'dd MMMM', 'd MMM', 'dd MMM'];
-                    const currentYear = new Date().getFullYear();
-                    let dateToParse = rawDraw.date;
-                    
-                    // If year is missing, try to append current year
-                    if (!/\d{4}/.test(dateToParse)) {
-                         dateToParse = `${dateToParse} ${currentYear}`;
-                    }
-                    
-                    for (const pattern of datePatterns) {
-                        const tempDate = dateParse(dateToParse, pattern, new Date(), { locale: fr });
-                        if (isValid(tempDate)) {
-                            parsedDate = tempDate;
-                            break;
-                        }
-                    }
-                    if (!parsedDate && isValid(new Date(rawDraw.date))) { // Fallback for YYYY-MM-DD direct
-                       parsedDate = new Date(rawDraw.date);
-                    }
-
-                } catch (e) { /* continue, parsedDate remains null */ }
-
-
-                if (!parsedDate || !isValid(parsedDate)) {
-                     analysisSummary += ` Tirage ${matchedDrawName} ignoré (date invalide): ${rawDraw.date}.`;
-                     continue;
-                }
-                const formattedDate = format(parsedDate, 'yyyy-MM-dd');
-
-                // Validate numbers
-                if (rawDraw.winning_numbers.length !== 5 || rawDraw.winning_numbers.some(n => n < 1 || n > 90)) {
-                    analysisSummary += ` Tirage ${matchedDrawName} à la date ${formattedDate} ignoré (numéros gagnants invalides).`;
-                    continue;
-                }
-                 // Normalize machine numbers: if [0,0,0,0,0], treat as empty []
-                let machineNumbers = rawDraw.machine_numbers;
-                if (machineNumbers.length === 5 && machineNumbers.every(n => n === 0)) {
-                    machineNumbers = [];
-                }
-                // Further ensure machine numbers are valid if present
-                if (machineNumbers.length > 0 && (machineNumbers.length !== 5 || machineNumbers.some(n => n < 0 || n > 90))) {
-                     analysisSummary += ` Tirage ${matchedDrawName} à la date ${formattedDate}: numéros machine invalides, ignorés.`;
-                     machineNumbers = []; // Default to empty if invalid
-                }
-
-
-                const result: LotteryResult = {
-                    draw_name: matchedDrawName,
-                    date: formattedDate,
-                    gagnants: rawDraw.winning_numbers,
-                    machine: machineNumbers,
-                    clientId: `${matchedDrawName}-${formattedDate}-${Math.random().toString(36).substring(2, 9)}`
-                };
-                extractedResults.push(result);
-            }
-
-            if (drawNameFilter && drawNameFilter !== "all") {
-                extractedResults = extractedResults.filter(r => r.draw_name === drawNameFilter);
-                analysisSummary += ` Filtrage appliqué pour la catégorie: ${drawNameFilter}.`;
-            }
-            
-            analysisSummary = `${extractedResults.length} résultats extraits et validés. ` + analysisSummary;
-
-        } else {
-            analysisSummary = "L'analyse de l'image n'a pas pu extraire de données structurées.";
-        }
-    } catch (e: any) {
-        console.error("Error in lotteryImageAnalysisPrompt:", e);
-        analysisSummary = `Erreur durant l'analyse IA: ${e.message || 'Erreur inconnue.'}`;
-        // Keep extractedResults empty or partial based on where error occurred
-    }
-
-    return {
-      extractedData: extractedResults,
-      analysisSummary: analysisSummary,
-    };
-  }
+  async (input) => analyzeLotteryImageWith(getConfiguredImageExtractor(), input)
 );
 
 export async function analyzeLotteryImage(input: LotteryImageAnalysisInput): Promise<LotteryImageAnalysisOutput> {
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { MAX_SEED } from '@/lib/seeded-random';
+import { refineMachineCounts } from '@/lib/game-format';
+
+export const SinglePredictionSchema = z.object({
+  methodName: z.string(),
+  predictedNumbers: z.array(z.number()).describe("The predicted numbers, as many as the category's game draws."),
+  explanation: z.string().describe("Explanation of how this prediction was generated."),
+  confidence: z.string().describe("Qualitative confidence derived from confidenceScore: Très faible, Faible, Moyenne, Élevée."),
+  confidenceScore: z.number().min(0).max(1).describe("Share of suggested numbers the method can be expected to get right on this draw category, from its past hit rate (lower 95% bound)."),
+  confidenceExplanation: z.string().describe("How the score was measured, in French."),
+});
+export type SinglePrediction = z.infer<typeof SinglePredictionSchema>;
+
+export const LotteryPredictionInputSchema = z.object({
+  results: z.array(
+    z.object({
+      draw_name: z.string(),
+      date: z.string(), // YYYY-MM-DD
+      gagnants: z.array(z.number()),
+      machine: z.array(z.number()).optional().default([]),
+    })
+  ).describe("List of historical lottery results for a specific draw category."),
+  drawName: z.string().describe("The name of the draw category for which to predict."),
+  seed: z.number().int().min(0).max(MAX_SEED).optional().describe("Seed of the random generator; the same seed and results replay the same predictions. A new one is drawn when omitted."),
+  modelTrainedUntil: z.string().optional().describe("Latest draw date the model of a replayed run was trained on (YYYY-MM-DD); the replay trains the same model again. Defaults to the latest result given."),
+}).superRefine(refineMachineCounts);
+export type LotteryPredictionInput = z.infer<typeof LotteryPredictionInputSchema>;
+
+export const LotteryPredictionOutputSchema = z.object({
+  drawName: z.string(),
+  allPredictions: z.array(SinglePredictionSchema).describe("List of predictions from various methods."),
+  recommendedPrediction: SinglePredictionSchema.describe("The overall recommended prediction: the trained model's most probable numbers."),
+  machinePrediction: SinglePredictionSchema.optional().describe("Machine numbers expected at the next draw from the latest winning numbers; absent for categories without machine numbers."),
+  numberProbabilities: z.array(z.object({
+    number: z.number(),
+    probability: z.number(),
+  })).describe("Probability given by the trained model to each number of being drawn, by ascending number."),
+  model: z.object({
+    trainedAt: z.string(),
+    trainingDraws: z.number(),
+    latestTrainingDate: z.string().optional(),
+    heldOutDraws: z.number().describe("Latest draws kept out of training to evaluate the model."),
+    meanHits: z.number().describe("Mean winning numbers found by the model's top picks on the held-out draws."),
+    baselineMeanHits: z.number().describe("Same mean for a uniformly random pick."),
+    zScore: z.number(),
+    beatsBaseline: z.boolean().describe("Whether the model did significantly better than chance on the held-out draws."),
+  }).optional().describe("The trained model behind the recommended prediction; absent without historical data."),
+  dataSummary: z.object({
+    totalDrawsAnalyzed: z.number(),
+    latestDrawDate: z.string().optional().describe("Date of the most recent result analyzed (YYYY-MM-DD), to replay a run on the same data."),
+  }),
+  seed: z.number().describe("Seed actually used for this run."),
+});
+export type LotteryPredictionOutput = z.infer<typeof LotteryPredictionOutputSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { refineMachineCounts } from '@/lib/game-format';
 
 // Define all the Zod schemas here
 export const NumberFrequencySchema = z.record(z.string(), z.number()).describe("Frequency of each number, key is number as string.");
@@ -12,13 +13,11 @@ export const LotteryStatisticsInputSchema = z.object({
       draw_name: z.string(),
       date: z.string(),
       gagnants: z.array(z.number()),
-      machine: z.array(z.number()).refine(arr => arr.length === 0 || arr.length === 5, {
-        message: "Les numéros machine doivent être soit 0 (aucun) soit 5 numéros.",
-      }),
+      machine: z.array(z.number()),
     })
   ).describe("List of lottery results for a specific draw category."),
   drawName: z.string().describe("The name of the draw category being analyzed.")
-});
+}).superRefine(refineMachineCounts);
 export type LotteryStatisticsInput = z.infer<typeof LotteryStatisticsInputSchema>;
 
 export const LotteryStatisticsOutputSchema = z.object({
@@ -30,12 +29,21 @@ export const LotteryStatisticsOutputSchema = z.object({
   leastFrequentWinning: z.array(z.number()).describe("Least frequently appearing winning numbers (bottom 5)."),
   mostFrequentMachine: z.array(z.number()).describe("Most frequently appearing machine numbers (top 5, can be empty)."),
   leastFrequentMachine: z.array(z.number()).describe("Least frequently appearing machine numbers (bottom 5, can be empty)."),
+  combinedNumberFrequencies: NumberFrequencySchema.describe("Draws in which each number came out, as a winning or a machine number."),
+  mostFrequentCombined: z.array(z.number()).describe("Most frequent numbers, winning and machine combined (top 5)."),
+  leastFrequentCombined: z.array(z.number()).describe("Least frequent numbers, winning and machine combined (bottom 5)."),
+  machineCarryOver: z.object({
+    comparedDraws: z.number().describe("Consecutive draw pairs where both draws have machine numbers."),
+    machineToNextWinning: z.number().describe("Mean machine numbers of a draw found among the next draw's winning numbers."),
+    winningToNextMachine: z.number().describe("Mean winning numbers of a draw found among the next draw's machine numbers."),
+    expectedByChance: z.number().describe("Same mean for independent random sets drawn under the category's game format."),
+  }).describe("How machine and winning numbers carry over from one draw to the next."),
   winningPairFrequencies: PairFrequenciesSchema.describe("Frequencies of pairs of winning numbers."),
   mostFrequentWinningPairs: z.array(z.string()).describe("Top 10 most frequent winning number pairs."),
   oddEvenWinningStats: z.object({
     averageOdds: z.number().describe("Average number of odd winning numbers per draw."),
     averageEvens: z.number().describe("Average number of even winning numbers per draw."),
-    drawsWithXOdds: DrawsWithXOddsSchema.describe("Count of draws based on the number of odd winning numbers (0-5)."),
+    drawsWithXOdds: DrawsWithXOddsSchema.describe("Count of draws based on the number of odd winning numbers (0 to the numbers drawn per game)."),
   }).describe("Statistics on odd/even distribution of winning numbers."),
   winningSumStats: z.object({
     averageSum: z.number().describe("Average sum of winning numbers per draw."),
@@ -1,7 +1,13 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
 
+// The Google AI plugin refuses to start without a key. Flows that never call the model
+// (statistics, predictions, offline OCR) keep working when it is left out.
+export function isGoogleAIConfigured(): boolean {
+  return Boolean(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || process.env.GOOGLE_GENAI_API_KEY);
+}
+
 export const ai = genkit({
-  plugins: [googleAI()],
+  plugins: isGoogleAIConfigured() ? [googleAI()] : [],
   model: 'googleai/gemini-2.0-flash',
 });
@@ -0,0 +1,30 @@
+// src/ai/image-extraction/configured-image-extractor.ts
+import path from 'path';
+import { isGoogleAIConfigured } from '@/ai/genkit';
+import type { LotteryImageExtractor } from './image-extractor';
+import { createGeminiImageExtractor } from './gemini-image-extractor';
+import { createOcrImageExtractor } from './ocr-image-extractor';
+import { createRecordedImageExtractor, createRecordingImageExtractor } from './recorded-image-extractor';
+
+/**
+ * Extractor used by the admin image import, chosen with `IMAGE_EXTRACTOR`:
+ * - `gemini` calls the model, `ocr` runs the offline Tesseract pipeline;
+ * - `recorded` replays outputs saved in `IMAGE_EXTRACTOR_RECORDINGS_DIR` (default: fixtures/image-extraction)
+ *   and `record` calls Gemini while saving its outputs there.
+ * Unset, Gemini is used when an API key is configured and OCR otherwise.
+ */
+export function getConfiguredImageExtractor(): LotteryImageExtractor {
+  const recordingsDir = process.env.IMAGE_EXTRACTOR_RECORDINGS_DIR || path.join(process.cwd(), 'fixtures', 'image-extraction');
+  switch (process.env.IMAGE_EXTRACTOR) {
+    case 'recorded':
+      return createRecordedImageExtractor(recordingsDir);
+    case 'record':
+      return createRecordingImageExtractor(createGeminiImageExtractor(), recordingsDir);
+    case 'gemini':
+      return createGeminiImageExtractor();
+    case 'ocr':
+      return createOcrImageExtractor();
+    default:
+      return isGoogleAIConfigured() ? createGeminiImageExtractor() : createOcrImageExtractor();
+  }
+}
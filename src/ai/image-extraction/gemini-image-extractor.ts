@@ -0,0 +1,54 @@
+// src/ai/image-extraction/gemini-image-extractor.ts
+import { ai } from '@/ai/genkit';
+import { z } from 'zod';
+import { describeGameFormats } from '@/lib/game-format';
+import type { LotteryImageExtractor } from './image-extractor';
+
+const ImageRegionSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+// Deliberately loose: range and length checks happen in the review step, where the admin can fix them
+const ExtractedDrawSchema = z.object({
+  draw_name: z.string().describe("Le nom du tirage tel qu'il apparaît (ex: 'REVEIL', 'ETOILE')."),
+  date: z.string().describe("La date du tirage au format YYYY-MM-DD si l'année est visible, sinon telle qu'imprimée (ex: 'Lundi 15 Juillet')."),
+  winning_numbers: z.array(z.number().int()).describe("Les numéros gagnants, dans l'ordre de l'image."),
+  machine_numbers: z.array(z.number().int()).describe("Les numéros machine, ou un tableau vide s'ils sont absents ou illisibles."),
+  region: ImageRegionSchema.optional().describe("Le rectangle de l'image contenant ce tirage, en fractions (0 à 1) de la largeur et de la hauteur, depuis le coin supérieur gauche."),
+});
+
+const lotteryImageAnalysisPrompt = ai.definePrompt({
+  name: 'lotteryImageAnalysisPrompt',
+  input: { schema: z.object({ imageDataUri: z.string(), uniqueDrawNames: z.array(z.string()), gameFormats: z.string() }) },
+  output: { schema: z.object({ draws: z.array(ExtractedDrawSchema), summary: z.string() }) },
+  prompt: `Analyse l'image fournie pour extraire les résultats de tirages de Loto Bonheur.
+  L'image contient des résultats de loterie. Chaque résultat a un nom de tirage, une date, des numéros gagnants et parfois des numéros machine.
+  Les noms de tirage valides sont: {{{uniqueDrawNames}}}. Recopie le nom tel qu'il est écrit; la correspondance avec un nom valide est faite ensuite.
+  Pour la date, n'invente pas l'année si elle n'est pas visible : recopie la date telle qu'imprimée. Si l'année est visible, formate la date en YYYY-MM-DD.
+  Nombre et intervalle des numéros par tirage: {{{gameFormats}}}. Recopie ce que tu lis, même si un numéro semble hors limites.
+  S'il n'y a pas de numéros machine clairs, retourne un tableau vide.
+  Pour chaque tirage, indique le rectangle (region) de l'image où il apparaît.
+  Retourne une liste d'objets, chaque objet représentant un tirage trouvé.
+  Fournis également un résumé textuel de l'analyse, mentionnant le nombre de tirages trouvés et toute difficulté rencontrée.
+
+  Image à analyser: {{media url=imageDataUri}}`,
+  config: {
+    temperature: 0.2, // Lower temperature for more deterministic extraction
+  },
+});
+
+export function createGeminiImageExtractor(): LotteryImageExtractor {
+  return {
+    name: 'gemini',
+    async extract({ imageDataUri, drawNames }) {
+      const { output } = await lotteryImageAnalysisPrompt({ imageDataUri, uniqueDrawNames: drawNames, gameFormats: describeGameFormats() });
+      if (!output) {
+        return { draws: [], summary: "L'analyse de l'image n'a pas pu extraire de données structurées." };
+      }
+      return { draws: output.draws, summary: output.summary || 'Analyse terminée.' };
+    },
+  };
+}
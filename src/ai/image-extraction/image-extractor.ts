@@ -0,0 +1,39 @@
+// src/ai/image-extraction/image-extractor.ts
+
+// Bounding box of a draw in the image, as fractions (0-1) of the image width and height from the top-left corner.
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A draw as read from the image, before any validation or normalization.
+export interface RawExtractedDraw {
+  draw_name: string;
+  date: string; // Ideally YYYY-MM-DD; extractors may return the text as printed ("Lundi 15 Juillet")
+  winning_numbers: number[];
+  machine_numbers: number[]; // Empty when absent or unreadable
+  region?: ImageRegion;
+  warnings?: string[]; // Doubts of the extractor itself, shown with the review messages
+}
+
+export interface RawImageExtraction {
+  draws: RawExtractedDraw[];
+  summary: string;
+}
+
+export interface ImageExtractionRequest {
+  imageDataUri: string; // data:<mimetype>;base64,<encoded_data>
+  drawNames: string[]; // Known categories, given to the extractor as hints
+}
+
+/**
+ * Reads lottery results from a picture. Gemini is used when an API key is configured and the
+ * offline OCR extractor otherwise; the recorded one replays saved outputs so the review
+ * workflow can run without either.
+ */
+export interface LotteryImageExtractor {
+  readonly name: string;
+  extract(request: ImageExtractionRequest): Promise<RawImageExtraction>;
+}
@@ -0,0 +1,191 @@
+// src/ai/image-extraction/lotobonheur-ocr-parser.ts
+import { createDrawDateInferrer } from '@/lib/draw-date-inference';
+import type { ImageRegion, RawExtractedDraw, RawImageExtraction } from './image-extractor';
+
+// A line of text as recognized by the OCR engine, with its bounding box in pixels.
+export interface OcrLine {
+  text: string;
+  confidence: number; // 0-100
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+const LOW_CONFIDENCE = 70;
+const REGION_PADDING = 0.01;
+
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// "mardi 06/05", "Mardi 06/05/2025": the day headers of the results page
+const DAY_HEADER = /^(lundi|mardi|mercredi|jeudi|vendredi|samedi|dimanche)\s*\d{1,2}\s*\/\s*\d{1,2}(\s*\/\s*\d{2,4})?$/i;
+
+// OCR often reads 0 as O and 1 as l or I in number rows
+function toDigits(text: string): string {
+  return text.replace(/[oO]/g, '0').replace(/[lI|]/g, '1');
+}
+
+/** Reads "12 - 45 - 03 - 78 - 90"; `null` when the line is not a number row. A "." row is a draw not played yet. */
+function parseNumberRow(text: string): { numbers: number[]; pending: boolean } | null {
+  const digits = toDigits(text);
+  if (/^[\s.\-]+$/.test(text) && text.includes('.')) return { numbers: [], pending: true };
+  if (/[a-zA-Z]/.test(digits)) return null;
+  const numbers = (digits.match(/\d+/g) || []).map(Number);
+  return numbers.length >= 3 ? { numbers, pending: false } : null;
+}
+
+const WEEKDAYS = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi']; // Date.getDay() order
+// A day and month falls on the same weekday again within 11 years at most, 28 for 29 February
+const MAX_YEARS_BACK = 28;
+
+// Screenshots show a single day or week, so the printed weekday pins the year better than page order
+function yearMatchingWeekday(dayHeader: RegExpMatchArray, referenceDate: Date): number | null {
+  const [day, month] = (dayHeader[0].match(/\d{1,2}/g) || []).map(Number);
+  const weekday = WEEKDAYS.indexOf(dayHeader[1].toLowerCase());
+  for (let year = referenceDate.getFullYear(); year >= referenceDate.getFullYear() - MAX_YEARS_BACK; year--) {
+    const candidate = new Date(year, month - 1, day);
+    if (candidate.getMonth() === month - 1 && candidate <= referenceDate && candidate.getDay() === weekday) return year;
+  }
+  return null;
+}
+
+interface DrawInProgress {
+  name: string;
+  date: string;
+  lines: OcrLine[];
+  rows: number[][];
+  pending: boolean;
+  warnings: string[];
+}
+
+function regionOf(lines: OcrLine[], width: number, height: number): ImageRegion | undefined {
+  if (lines.length === 0 || width <= 0 || height <= 0) return undefined;
+  const x0 = Math.max(0, Math.min(...lines.map(l => l.bbox.x0)) / width - REGION_PADDING);
+  const y0 = Math.max(0, Math.min(...lines.map(l => l.bbox.y0)) / height - REGION_PADDING);
+  const x1 = Math.min(1, Math.max(...lines.map(l => l.bbox.x1)) / width + REGION_PADDING);
+  const y1 = Math.min(1, Math.max(...lines.map(l => l.bbox.y1)) / height + REGION_PADDING);
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Parses OCR lines of a lotobonheur.ci results screenshot: a day header ("mardi 06/05") followed,
+ * for each draw, by its name, the winning numbers row and an optional machine numbers row.
+ * Years are inferred like the scraper does (the page is ordered newest first). Lines that fit
+ * nowhere are reported in the summary rather than guessed.
+ */
+export function parseLotoBonheurOcrLines(
+  lines: OcrLine[],
+  imageSize: { width: number; height: number },
+  drawNames: string[],
+  referenceDate: Date = new Date()
+): RawImageExtraction {
+  const inferDate = createDrawDateInferrer(referenceDate);
+  const namesByKey = new Map(drawNames.map(name => [normalizeText(name), name]));
+  const draws: RawExtractedDraw[] = [];
+  const ignored: string[] = [];
+  let pendingDraws = 0;
+  let currentDate: { date: string; warnings: string[] } | null = null;
+  let current: DrawInProgress | null = null;
+  let unknownName: OcrLine | null = null; // Text that may be a misread draw name, kept until a number row confirms it
+
+  // Keeps a completed draw, counts a draw not played yet and drops a name without numbers
+  const finish = (draw: DrawInProgress | null) => {
+    if (!draw) return;
+    if (draw.pending) {
+      pendingDraws++;
+    } else if (draw.rows.length > 0) {
+      const warnings = [...draw.warnings];
+      const uncertain = draw.lines.filter(l => l.confidence < LOW_CONFIDENCE);
+      if (uncertain.length > 0) {
+        warnings.push(`Lecture OCR incertaine (confiance ${Math.round(Math.min(...uncertain.map(l => l.confidence)))} %).`);
+      }
+      draws.push({
+        draw_name: draw.name,
+        date: draw.date,
+        winning_numbers: draw.rows[0],
+        machine_numbers: draw.rows[1] || [],
+        region: regionOf(draw.lines, imageSize.width, imageSize.height),
+        warnings,
+      });
+    }
+  };
+
+  const start = (name: string, line: OcrLine): DrawInProgress => ({
+    name,
+    date: currentDate?.date || '',
+    lines: [line],
+    rows: [],
+    pending: false,
+    warnings: [...(currentDate?.warnings || [])],
+  });
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text) continue;
+
+    const dayHeader = text.match(DAY_HEADER);
+    if (dayHeader) {
+      finish(current);
+      current = null;
+      if (unknownName) ignored.push(unknownName.text.trim());
+      unknownName = null;
+      const weekdayYear = dayHeader[2] ? null : yearMatchingWeekday(dayHeader, referenceDate);
+      const inferred = inferDate(weekdayYear ? `${text}/${weekdayYear}` : text);
+      if (!inferred) {
+        currentDate = { date: text, warnings: [] };
+      } else {
+        const warnings = dayHeader[2] ? [] : weekdayYear
+          ? [`Année déduite du jour de la semaine: ${weekdayYear}.`]
+          : [`Année déduite de l'ordre des résultats: ${inferred.date.slice(0, 4)}.`];
+        if (inferred.weekdayMismatch) {
+          warnings.push(`Le jour lu (${inferred.sourceWeekday}) ne correspond pas à la date (${inferred.computedWeekday}).`);
+        }
+        currentDate = { date: inferred.date, warnings };
+      }
+      continue;
+    }
+
+    // A draw name, possibly followed by its numbers on the same line
+    const nameMatch = [...namesByKey.entries()].find(([key]) => normalizeText(text).startsWith(key));
+    if (nameMatch) {
+      unknownName = null;
+      finish(current);
+      current = start(nameMatch[1], line);
+      const rest = parseNumberRow(text.replace(/^[^\d.]*/, ''));
+      if (rest) {
+        current.rows.push(rest.numbers);
+        current.pending = rest.pending;
+      }
+      continue;
+    }
+
+    const row = parseNumberRow(text);
+    if (row) {
+      if (unknownName) {
+        finish(current);
+        current = start(unknownName.text.trim(), unknownName);
+        unknownName = null;
+      }
+      if (current && current.rows.length < 2) {
+        current.lines.push(line);
+        current.pending = current.pending || row.pending;
+        current.rows.push(row.numbers);
+      } else {
+        ignored.push(text);
+      }
+      continue;
+    }
+
+    // Anything else ends the current draw; it becomes a draw only if number rows follow
+    finish(current);
+    current = null;
+    if (unknownName) ignored.push(unknownName.text.trim());
+    unknownName = line;
+  }
+  finish(current);
+  if (unknownName) ignored.push(unknownName.text.trim());
+
+  let summary = `Lecture OCR hors ligne: ${draws.length} tirage(s) reconnu(s).`;
+  if (pendingDraws > 0) summary += ` ${pendingDraws} tirage(s) pas encore joué(s) ignoré(s).`;
+  if (ignored.length > 0) summary += ` Texte non interprété: ${ignored.map(t => `"${t}"`).join(', ')}.`;
+  return { draws, summary };
+}
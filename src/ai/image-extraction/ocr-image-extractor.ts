@@ -0,0 +1,55 @@
+// src/ai/image-extraction/ocr-image-extractor.ts
+import path from 'path';
+import sharp from 'sharp';
+import { createWorker } from 'tesseract.js';
+import type { LotteryImageExtractor } from './image-extractor';
+import { parseLotoBonheurOcrLines } from './lotobonheur-ocr-parser';
+
+// French model shipped by the @tesseract.js-data/fra package, so recognition never needs the network
+const DEFAULT_LANG_PATH = path.join(process.cwd(), 'node_modules', '@tesseract.js-data', 'fra', '4.0.0');
+
+// Small phone screenshots are read much better once enlarged
+const MIN_OCR_WIDTH = 1200;
+
+export interface OcrImageExtractorOptions {
+  langPath?: string; // Directory holding fra.traineddata.gz
+  referenceDate?: Date; // Anchors the year inference of "mardi 06/05" headers (defaults to now)
+}
+
+async function prepareImage(image: Buffer): Promise<{ png: Buffer; width: number; height: number }> {
+  const { width = 0 } = await sharp(image).metadata();
+  const { data, info } = await sharp(image)
+    .rotate() // Applies the EXIF orientation of phone photos
+    .resize(width > 0 && width < MIN_OCR_WIDTH ? { width: MIN_OCR_WIDTH } : undefined)
+    .grayscale()
+    .normalize()
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { png: data, width: info.width, height: info.height };
+}
+
+/**
+ * Offline extractor: Tesseract reads the text lines and `parseLotoBonheurOcrLines` maps them to
+ * draws using the lotobonheur.ci results layout. Slower and stricter than Gemini, but it works
+ * without an API key or a connection.
+ */
+export function createOcrImageExtractor(options: OcrImageExtractorOptions = {}): LotteryImageExtractor {
+  const langPath = options.langPath || process.env.TESSERACT_LANG_PATH || DEFAULT_LANG_PATH;
+
+  return {
+    name: 'ocr:tesseract',
+    async extract({ imageDataUri, drawNames }) {
+      const image = Buffer.from(imageDataUri.slice(imageDataUri.indexOf(',') + 1), 'base64');
+      const { png, width, height } = await prepareImage(image);
+
+      const worker = await createWorker('fra', 1, { langPath, gzip: true, cacheMethod: 'none' });
+      try {
+        const { data } = await worker.recognize(png);
+        const lines = data.lines.map(line => ({ text: line.text, confidence: line.confidence, bbox: line.bbox }));
+        return parseLotoBonheurOcrLines(lines, { width, height }, drawNames, options.referenceDate);
+      } finally {
+        await worker.terminate();
+      }
+    },
+  };
+}
@@ -0,0 +1,50 @@
+// src/ai/image-extraction/recorded-image-extractor.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { LotteryImageExtractor, RawImageExtraction } from './image-extractor';
+
+// Recordings are keyed by the image content, so the same picture always replays the same output
+export function imageFingerprint(imageDataUri: string): string {
+  const base64 = imageDataUri.slice(imageDataUri.indexOf(',') + 1);
+  return createHash('sha256').update(Buffer.from(base64, 'base64')).digest('hex');
+}
+
+function recordingPath(directory: string, imageDataUri: string): string {
+  return path.join(directory, `${imageFingerprint(imageDataUri)}.json`);
+}
+
+/**
+ * Offline extractor replaying `<directory>/<sha256 of the image>.json`, each file holding a
+ * `RawImageExtraction` as returned by a real extractor. Unknown images are an error rather
+ * than an empty result, so a missing recording cannot pass for "nothing found".
+ */
+export function createRecordedImageExtractor(directory: string): LotteryImageExtractor {
+  return {
+    name: `recorded:${directory}`,
+    async extract({ imageDataUri }) {
+      const filePath = recordingPath(directory, imageDataUri);
+      let content: string;
+      try {
+        content = await fs.readFile(filePath, 'utf-8');
+      } catch (error: any) {
+        if (error.code === 'ENOENT') throw new Error(`Aucune sortie enregistrée pour cette image (${filePath}).`);
+        throw error;
+      }
+      return JSON.parse(content) as RawImageExtraction;
+    },
+  };
+}
+
+// Wraps a real extractor and saves each of its outputs in the format read by `createRecordedImageExtractor`.
+export function createRecordingImageExtractor(inner: LotteryImageExtractor, directory: string): LotteryImageExtractor {
+  return {
+    name: `recording:${inner.name}`,
+    async extract(request) {
+      const extraction = await inner.extract(request);
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(recordingPath(directory, request.imageDataUri), JSON.stringify(extraction, null, 2), 'utf-8');
+      return extraction;
+    },
+  };
+}
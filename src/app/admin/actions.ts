@@ -2,13 +2,34 @@
 'use server';
 
 import type { LotteryResult } from '@/types/lottery';
-import { getUniqueDrawNames } from '@/config/draw-schedule';
+import { getGameFormat, getUniqueDrawNames, resolveDrawName } from '@/config/draw-schedule';
+import { gameFormatIssues, normalizeMachineNumbers, refineDrawToGameFormat } from '@/lib/game-format';
+import { compareResults, getResultsRepository, resultKey, ResultConflictError, ResultNotFoundError, type ResultKey } from '@/lib/results-repository';
+import { invalidateDrawStatistics } from '@/lib/draw-statistics';
+import { scorePredictions } from '@/lib/prediction-ledger';
+import { authorizeAction } from '@/lib/auth/server';
+import { appendAuditEntries, getAuditEntry, newAuditBatchId, readAuditLog, type AuditEntry, type AuditLogFilter, type AuditSource } from '@/lib/audit-log';
+import { AuditRevertError, revertAuditEntry } from '@/lib/audit-revert';
+import { discardQuarantinedName, mapQuarantinedName, readDrawQuarantine, type QuarantinedName } from '@/lib/draw-quarantine';
+import {
+  detectColumnMapping,
+  mapSpreadsheetRows,
+  readCsvTable,
+  readXlsxTable,
+  resultsToCsv,
+  resultsToXlsx,
+  type ColumnMapping,
+  type CsvDelimiter,
+  type SpreadsheetDateFormat,
+  type SpreadsheetFormat,
+} from '@/lib/spreadsheet-results';
+import { buildImportPreview, type ImportDecision, type ImportPreviewRow, type ImportResolution, type ParsedImportRow } from '@/lib/import-preview';
+import { analyzeLotteryImage, type ExtractedDrawReview } from '@/ai/flows/image-analysis-flow';
 import { format as formatDateFns, parse as dateParse, isValid } from 'date-fns';
 import { z } from 'zod';
 // import { jsPDF } from 'jspdf'; // Removed: PDF export
 // import 'jspdf-autotable'; // Removed: PDF export
 // import { fr } from 'date-fns/locale'; // Removed: PDF export specific (format uses it, but it is not critical for json only)
-// import { analyzeLotteryImage, type LotteryImageAnalysisInput, type LotteryImageAnalysisOutput } from '@/ai/flows/image-analysis-flow'; // Removed: Image analysis
 // import { exportToImage } from '@/lib/image-export'; // Removed: Image export
 
 
@@ -41,30 +62,123 @@ const LotteryResultSchemaForJson = z.object({
     }
     return formatDateFns(parsedDate, 'yyyy-MM-dd'); // Normalize to YYYY-MM-DD
   }),
-  gagnants: z.array(z.number().int().min(1, "Numéro gagnant doit être >= 1.").max(90, "Numéro gagnant doit être <= 90.")).length(5, "5 numéros gagnants sont requis."),
-  machine: z.array(z.number().int().min(0, "Numéro machine doit être >= 0.").max(90, "Numéro machine doit être <= 90."))
-    .refine(arr => {
-      if (arr.length === 0) return true; // Empty array is valid (no machine numbers)
-      if (arr.length === 5) {
-        // Allow five 0s (as a way to signify no numbers, will be normalized to [])
-        // OR five valid numbers between 1 and 90.
-        if (arr.every(num => num === 0)) return true;
-        return arr.every(num => num >= 1 && num <= 90);
-      }
-      return false; // Any other length is invalid
-    }, {
-      message: "Numéros machine: optionnel. Si fourni, doit être vide [], ou cinq zéros [0,0,0,0,0], ou 5 numéros (1-90).",
-    }).optional().default([]), // Optional, defaults to empty array if not provided in JSON
+  // How many numbers, and in which range, depends on the draw's game format: checked by refineDrawToGameFormat
+  gagnants: z.array(z.number().int("Les numéros gagnants doivent être des entiers.")),
+  machine: z.array(z.number().int("Les numéros machine doivent être des entiers.")).optional().default([]), // Optional, defaults to empty array if not provided in JSON
   clientId: z.string().optional(),
 });
 
-const LotteryResultsArraySchema = z.array(LotteryResultSchemaForJson);
+type CrudActionResult = { success: boolean; error?: string; message?: string; result?: LotteryResult };
+
+// Rows written to the store must belong to a scheduled draw, like the ones the scraper keeps.
+// Other spellings and aliases of a name are stored under their category.
+const LotteryResultFieldsSchema = LotteryResultSchemaForJson.omit({ clientId: true }).extend({
+  draw_name: z.string().transform(name => resolveDrawName(name) ?? name).refine(name => getUniqueDrawNames().includes(name), name => ({ message: `Tirage inconnu: "${name}".` })),
+});
+const LotteryResultInputSchema = LotteryResultFieldsSchema.superRefine(refineDrawToGameFormat);
+
+// All zeros or a missing value both mean "no machine numbers"
+function normalizedMachine(result: { draw_name: string; machine?: number[] }): number[] {
+  return normalizeMachineNumbers(result.machine, getGameFormat(result.draw_name));
+}
+
+// The stored (draw_name, date) pair doubles as the row's clientId in the admin panel.
+function withClientId(result: LotteryResult): LotteryResult {
+  return { ...result, clientId: resultKey(result.draw_name, result.date) };
+}
+
+function formatValidationError(error: z.ZodError): string {
+  return `Données invalides. ${error.errors.map(e => `${e.path.join('.') || 'racine'}: ${e.message}`).join('; ')}`;
+}
 
+// Scores the ledger after a write that is already saved and audited: a ledger failure is logged
+// rather than reported as a failed write
+async function scorePredictionsAfterWrite(results: LotteryResult[]): Promise<void> {
+  try {
+    await scorePredictions(results);
+  } catch (error) {
+    console.error('Failed to score the prediction ledger:', error);
+  }
+}
 
+// A row edit that does not fit the game format of the category it would be stored in
+class GameFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GameFormatError';
+  }
+}
+
+function toActionError(error: any, fallback: string): { success: false; error: string } {
+  if (error instanceof ResultConflictError || error instanceof ResultNotFoundError || error instanceof AuditRevertError || error instanceof GameFormatError) {
+    return { success: false, error: error.message };
+  }
+  console.error(`${fallback}:`, error);
+  return { success: false, error: `${fallback}: ${error.message}` };
+}
+
+// Each row is validated on its own so that one bad row does not hide the others
+function validateImportItem(line: number, item: unknown): ParsedImportRow {
+  const validation = LotteryResultInputSchema.safeParse(item);
+  if (!validation.success) {
+    return { line, errors: validation.error.errors.map(e => `${e.path.join('.') || 'ligne'}: ${e.message}`), raw: item };
+  }
+  return { line, result: { ...validation.data, machine: normalizedMachine(validation.data) } };
+}
+
+type ImportPreviewResult = { preview: ImportPreviewRow[]; message: string; importedCount: number; originalCount: number };
+
+// Category of a parsed row; for an invalid row, the draw_name of its raw object when it has a readable one
+function importRowDrawName(row: ParsedImportRow): string | undefined {
+  if ('result' in row) return row.result.draw_name;
+  const { raw } = row;
+  return typeof raw === 'object' && raw !== null && 'draw_name' in raw && typeof raw.draw_name === 'string' ? raw.draw_name : undefined;
+}
+
+async function previewImportRows(parsedRows: ParsedImportRow[], filterDrawName: string | null | undefined, sourceLabel: string): Promise<ImportPreviewResult> {
+  const originalCount = parsedRows.length;
+  const filteredRows = (filterDrawName && filterDrawName !== "all")
+    ? parsedRows.filter(row => importRowDrawName(row) === filterDrawName)
+    : parsedRows;
+  const importedCount = filteredRows.length;
+
+  const preview = await buildImportPreview(filteredRows, getResultsRepository());
+  const countByStatus = (status: ImportPreviewRow['status']) => preview.filter(row => row.status === status).length;
+
+  let message = `${originalCount} ligne(s) lue(s) depuis le ${sourceLabel}.`;
+  if (filterDrawName && filterDrawName !== "all") {
+    message += ` ${importedCount} ligne(s) correspondent au filtre "${filterDrawName}".`;
+  }
+  message += ` Nouveaux: ${countByStatus('new')}, identiques: ${countByStatus('identical')}, en conflit: ${countByStatus('conflict')}, invalides: ${countByStatus('invalid')}.`;
+
+  return { preview, message, importedCount, originalCount };
+}
+
+// Applies the category filter and sorts newest first, like the results API
+function selectResultsForExport(allResults: LotteryResult[], filterDrawName?: string | null): LotteryResult[] {
+  const resultsToExport = (filterDrawName && filterDrawName !== "all")
+    ? allResults.filter(r => r.draw_name === filterDrawName)
+    : allResults;
+  return [...resultsToExport].sort(compareResults);
+}
+
+function exportFileName(filterDrawName: string | null | undefined, extension: string): string {
+  const currentDate = formatDateFns(new Date(), 'yyyyMMdd_HHmmss');
+  return `LotoBonheurInsights_Export_Admin_${filterDrawName && filterDrawName !== "all" ? filterDrawName.replace(/\s+/g, '_') : 'Tous'}_${currentDate}.${extension}`;
+}
+
+
+/**
+ * Validates an uploaded JSON file row by row and compares it with the stored results.
+ * Nothing is written here: the admin reviews the preview and applies it with `applyImportDecisionsAction`.
+ */
 export async function importLotteryDataFromJson(
   formData: FormData,
   filterDrawName?: string | null
-): Promise<{ success: boolean; data?: LotteryResult[]; error?: string; message?: string; importedCount?: number, originalCount?: number }> {
+): Promise<{ success: boolean; preview?: ImportPreviewRow[]; error?: string; message?: string; importedCount?: number, originalCount?: number }> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
   const file = formData.get('jsonFile') as File;
 
   if (!file) {
@@ -79,56 +193,15 @@ export async function importLotteryDataFromJson(
     const fileContent = await file.text();
     const jsonData = JSON.parse(fileContent);
 
-    const validationResult = LotteryResultsArraySchema.safeParse(jsonData);
-
-    if (!validationResult.success) {
-      console.error("JSON validation errors:", validationResult.error.flatten());
-      const errorMessages = validationResult.error.errors.map(e => `Chemin: ${e.path.join('.') || 'racine'}, Message: ${e.message}`).join('; ');
-      return { success: false, error: `Le fichier JSON n'a pas le format attendu. Erreurs: ${errorMessages}` };
-    }
-    
-    const allImportedResults: LotteryResult[] = validationResult.data.map(item => {
-      // item.date is now guaranteed to be 'yyyy-MM-dd' by the schema transform
-      // item.machine is already defaulted to [] by schema if not present
-      let machineNumbers = item.machine;
-      // Normalize [0,0,0,0,0] to [] if that's the convention for "no machine numbers"
-      if (machineNumbers.length === 5 && machineNumbers.every(n => n === 0)) {
-        machineNumbers = [];
-      }
-      return {
-        draw_name: item.draw_name,
-        date: item.date, // This is now the 'yyyy-MM-dd' transformed date
-        gagnants: item.gagnants,
-        machine: machineNumbers,
-        clientId: item.clientId || `${item.draw_name}-${item.date}-${Math.random().toString(36).substring(2, 9)}`
-      };
-    });
-
-
-    const originalCount = allImportedResults.length;
-    let filteredResults = allImportedResults;
-
-    if (filterDrawName && filterDrawName !== "all") {
-      filteredResults = allImportedResults.filter(r => r.draw_name === filterDrawName);
-    }
-    
-    const importedCount = filteredResults.length;
-
-    if (originalCount === 0 && fileContent.trim() !== "[]") {
-      return { success: false, error: 'Aucune donnée de tirage valide n\'a pu être extraite du JSON. Vérifiez le format des données.' };
+    if (!Array.isArray(jsonData)) {
+      return { success: false, error: "Le fichier JSON n'a pas le format attendu: un tableau de résultats est requis." };
     }
-    if (originalCount === 0 && fileContent.trim() === "[]") {
+    if (jsonData.length === 0) {
       return { success: false, error: 'Le fichier JSON semble vide.' };
     }
 
-    let message = `${originalCount} résultat(s) lu(s) depuis le JSON.`;
-    if (filterDrawName && filterDrawName !== "all") {
-      message += ` ${importedCount} résultat(s) correspondent au filtre "${filterDrawName}".`;
-    } else {
-      message += ` ${importedCount} résultat(s) sont prêts à être traités (aucun filtre appliqué ou "Toutes les catégories" sélectionné).`;
-    }
-
-    return { success: true, data: filteredResults, importedCount, message, originalCount };
+    const parsedRows = jsonData.map((item: unknown, index) => validateImportItem(index + 1, item));
+    return { success: true, ...await previewImportRows(parsedRows, filterDrawName, 'JSON') };
 
   } catch (error: any) {
     console.error('Error parsing JSON for import:', error);
@@ -143,31 +216,21 @@ export async function exportLotteryDataToJson(
   allResults: LotteryResult[],
   filterDrawName?: string | null
 ): Promise<{ success: boolean; jsonData?: string; fileName?: string; error?: string }> {
-  
-  const resultsToExport = (filterDrawName && filterDrawName !== "all")
-    ? allResults.filter(r => r.draw_name === filterDrawName)
-    : allResults;
+  const auth = await authorizeAction('viewer');
+  if (!auth.success) return auth;
+
+  const sortedResultsToExport = selectResultsForExport(allResults, filterDrawName);
 
-  if (!resultsToExport || resultsToExport.length === 0) {
+  if (sortedResultsToExport.length === 0) {
     return { success: false, error: 'Aucune donnée à exporter (après application du filtre).' };
   }
 
   try {
-    // Sort results by date descending, then by draw_name before exporting
-    const sortedResultsToExport = [...resultsToExport].sort((a, b) => {
-        const dateComparison = b.date.localeCompare(a.date);
-        if (dateComparison !== 0) return dateComparison;
-        return a.draw_name.localeCompare(b.draw_name);
-    });
-      
     const jsonString = JSON.stringify(sortedResultsToExport.map(({clientId, ...rest}) => ({
       ...rest,
       machine: Array.isArray(rest.machine) && rest.machine.length > 0 ? rest.machine : [] // Ensure exported machine is [] if empty/null
     })), null, 2); // Remove clientId for export
-    const currentDate = formatDateFns(new Date(), 'yyyyMMdd_HHmmss');
-    const fileName = `LotoBonheurInsights_Export_Admin_${filterDrawName && filterDrawName !== "all" ? filterDrawName.replace(/\s+/g, '_') : 'Tous'}_${currentDate}.json`;
-
-    return { success: true, jsonData: jsonString, fileName };
+    return { success: true, jsonData: jsonString, fileName: exportFileName(filterDrawName, 'json') };
 
   } catch (error: any) {
     console.error('Error exporting JSON from admin:', error);
@@ -175,53 +238,410 @@ export async function exportLotteryDataToJson(
   }
 }
 
+export interface SpreadsheetImportOptions {
+  delimiter?: CsvDelimiter; // CSV only, defaults to ';' (the French Excel default)
+  mapping?: ColumnMapping; // Detected from the header row when omitted
+}
 
-// Placeholder CRUD actions
-export async function addLotteryResultAction(resultData: Omit<LotteryResult, 'clientId'>): Promise<{ success: boolean; error?: string; message?: string, result?: LotteryResult }> {
-  // Normalize machine numbers: if [0,0,0,0,0] or undefined, treat as empty []
-  let machineNumbers = Array.isArray(resultData.machine) ? resultData.machine : [];
-  if (machineNumbers.length === 5 && machineNumbers.every(n => n === 0)) {
-    machineNumbers = [];
+/**
+ * CSV / XLSX counterpart of `importLotteryDataFromJson`: rows go through the same schema and
+ * the same preview. The detected (or given) column mapping is returned so the admin can correct it.
+ */
+export async function importLotteryDataFromSpreadsheet(
+  formData: FormData,
+  options: SpreadsheetImportOptions = {},
+  filterDrawName?: string | null
+): Promise<{ success: boolean; preview?: ImportPreviewRow[]; headers?: string[]; mapping?: ColumnMapping; error?: string; message?: string; importedCount?: number, originalCount?: number }> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  const file = formData.get('spreadsheetFile') as File;
+  if (!file) {
+    return { success: false, error: 'Aucun fichier fourni.' };
   }
-  const newResult = { 
-    ...resultData, 
-    machine: machineNumbers, 
-    clientId: Date.now().toString() 
-  }; 
-  return { success: true, message: "Résultat ajouté avec succès (simulation).", result: newResult };
+
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const fileFormat: SpreadsheetFormat | null = extension === 'csv' ? 'csv' : extension === 'xlsx' ? 'xlsx' : null;
+  if (!fileFormat) {
+    return { success: false, error: 'Type de fichier invalide. Veuillez uploader un fichier .csv ou .xlsx.' };
+  }
+
+  try {
+    const table = fileFormat === 'csv'
+      ? readCsvTable(await file.text(), options.delimiter || ';')
+      : await readXlsxTable(await file.arrayBuffer());
+    if (table.rows.length === 0) {
+      return { success: false, error: 'Le fichier ne contient aucune ligne de données sous la ligne d\'en-tête.' };
+    }
+
+    const mapping = options.mapping || detectColumnMapping(table.headers);
+    const parsedRows = mapSpreadsheetRows(table, mapping).map(row =>
+      'errors' in row ? row : validateImportItem(row.line, row.item)
+    );
+    const preview = await previewImportRows(parsedRows, filterDrawName, fileFormat === 'csv' ? 'CSV' : 'fichier Excel');
+    return { success: true, headers: table.headers, mapping, ...preview };
+  } catch (error: any) {
+    console.error('Error parsing spreadsheet for import:', error);
+    return { success: false, error: `Erreur lors de la lecture du fichier ${fileFormat.toUpperCase()}: ${error.message}` };
+  }
+}
+
+export interface SpreadsheetExportOptions {
+  format: SpreadsheetFormat;
+  delimiter?: CsvDelimiter; // CSV only, defaults to ';'
+  dateFormat?: SpreadsheetDateFormat; // Defaults to dd/MM/yyyy
 }
 
-export async function updateLotteryResultAction(clientId: string, resultData: Partial<Omit<LotteryResult, 'clientId'>>): Promise<{ success: boolean; error?: string; message?: string, result?: LotteryResult }> {
-  let machineNumbersToUpdate: number[] | undefined = undefined;
+// The file is returned base64-encoded so that binary XLSX content survives the server action boundary.
+export async function exportLotteryDataToSpreadsheet(
+  allResults: LotteryResult[],
+  filterDrawName: string | null | undefined,
+  options: SpreadsheetExportOptions
+): Promise<{ success: boolean; fileBase64?: string; fileName?: string; mimeType?: string; error?: string }> {
+  const auth = await authorizeAction('viewer');
+  if (!auth.success) return auth;
 
-  if (resultData.machine !== undefined) { // Only process if machine is part of the update
-    machineNumbersToUpdate = Array.isArray(resultData.machine) ? resultData.machine : [];
-    if (machineNumbersToUpdate.length === 5 && machineNumbersToUpdate.every(n => n === 0)) {
-      machineNumbersToUpdate = [];
+  const sortedResultsToExport = selectResultsForExport(allResults, filterDrawName);
+  if (sortedResultsToExport.length === 0) {
+    return { success: false, error: 'Aucune donnée à exporter (après application du filtre).' };
+  }
+
+  const dateFormat = options.dateFormat || 'dd/MM/yyyy';
+  try {
+    if (options.format === 'csv') {
+      const csv = resultsToCsv(sortedResultsToExport, options.delimiter || ';', dateFormat);
+      return { success: true, fileBase64: Buffer.from(csv, 'utf-8').toString('base64'), fileName: exportFileName(filterDrawName, 'csv'), mimeType: 'text/csv;charset=utf-8' };
     }
+    const xlsx = await resultsToXlsx(sortedResultsToExport, dateFormat);
+    return {
+      success: true,
+      fileBase64: xlsx.toString('base64'),
+      fileName: exportFileName(filterDrawName, 'xlsx'),
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  } catch (error: any) {
+    console.error('Error exporting spreadsheet from admin:', error);
+    return { success: false, error: `Erreur lors de l'exportation en ${options.format.toUpperCase()}: ${error.message}` };
   }
+}
 
-  const finalResultData: Partial<LotteryResult> = { ...resultData };
-  if (machineNumbersToUpdate !== undefined) {
-    finalResultData.machine = machineNumbersToUpdate;
+// A draw from the image review, with the fields as corrected by the admin
+export type ReviewedImageDraw = Omit<LotteryResult, 'clientId'> & { index: number };
+
+const MAX_IMAGE_BYTES = 6 * 1024 * 1024; // Keep in sync with serverActions.bodySizeLimit in next.config.ts
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/**
+ * Reads the draws of an uploaded picture with the configured extractor. Each draw comes back with
+ * its image region and validation messages; nothing is compared or written until the admin has
+ * reviewed the fields and called `previewImageExtractionAction`.
+ */
+export async function analyzeLotteryImageAction(
+  formData: FormData,
+  filterDrawName?: string | null
+): Promise<{ success: boolean; draws?: ExtractedDrawReview[]; error?: string; message?: string }> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  const file = formData.get('imageFile') as File;
+  if (!file) {
+    return { success: false, error: 'Aucune image fournie.' };
+  }
+  if (!IMAGE_MIME_TYPES.includes(file.type)) {
+    return { success: false, error: 'Type de fichier invalide. Veuillez uploader une image PNG, JPEG ou WebP.' };
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return { success: false, error: `Image trop volumineuse (${(file.size / 1024 / 1024).toFixed(1)} Mo, maximum 6 Mo).` };
+  }
+
+  try {
+    const imageDataUri = `data:${file.type};base64,${Buffer.from(await file.arrayBuffer()).toString('base64')}`;
+    const analysis = await analyzeLotteryImage({ imageDataUri, drawNameFilter: filterDrawName });
+    return { success: true, draws: analysis.draws, message: analysis.analysisSummary };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de l'analyse de l'image");
   }
-  
-  const simulatedUpdatedResult: LotteryResult = {
-      clientId,
-      draw_name: resultData.draw_name || "", 
-      date: resultData.date || "", 
-      gagnants: resultData.gagnants || [], 
-      machine: machineNumbersToUpdate === undefined ? [] : machineNumbersToUpdate, 
-      ...(resultData as Partial<LotteryResult>) 
-  };
-  
-  return { success: true, message: "Résultat mis à jour avec succès (simulation).", result: simulatedUpdatedResult };
 }
 
-export async function deleteLotteryResultAction(clientId: string): Promise<{ success: boolean; error?: string; message?: string }> {
-  return { success: true, message: "Résultat supprimé avec succès (simulation)." };
+/** Validates the draws as corrected by the admin and compares them with the stored results, like a file import. */
+export async function previewImageExtractionAction(
+  draws: ReviewedImageDraw[]
+): Promise<{ success: boolean; preview?: ImportPreviewRow[]; error?: string; message?: string; importedCount?: number, originalCount?: number }> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  if (draws.length === 0) {
+    return { success: false, error: 'Aucun tirage sélectionné.' };
+  }
+  try {
+    // Preview lines are the draw positions in the extractor output, as shown in the review list
+    const parsedRows = draws.map(({ index, ...draw }) => validateImportItem(index + 1, draw));
+    return { success: true, ...await previewImportRows(parsedRows, null, "résultat de l'analyse d'image") };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de la comparaison des tirages extraits");
+  }
+}
+
+export async function addLotteryResultAction(resultData: Omit<LotteryResult, 'clientId'>): Promise<CrudActionResult> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  const validation = LotteryResultInputSchema.safeParse(resultData);
+  if (!validation.success) {
+    return { success: false, error: formatValidationError(validation.error) };
+  }
+
+  try {
+    const stored = await getResultsRepository().insert({
+      ...validation.data,
+      machine: normalizedMachine(validation.data),
+    });
+    invalidateDrawStatistics(stored.draw_name);
+    await appendAuditEntries([{ actor: auth.session.username, action: 'create', source: 'manual', before: null, after: stored }]);
+    await scorePredictionsAfterWrite([stored]);
+    return { success: true, message: "Résultat ajouté avec succès.", result: withClientId(stored) };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de l'ajout du résultat");
+  }
+}
+
+export async function updateLotteryResultAction(key: ResultKey, resultData: Partial<Omit<LotteryResult, 'clientId'>>): Promise<CrudActionResult> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  const validation = LotteryResultFieldsSchema.partial().safeParse(resultData);
+  if (!validation.success) {
+    return { success: false, error: formatValidationError(validation.error) };
+  }
+
+  const changes: Partial<LotteryResult> = { ...validation.data };
+
+  try {
+    // Checked against the row as it is when written, so the audited `before` is the replaced row
+    const { before, after: stored } = await getResultsRepository().replace(key, current => {
+      if (!current) throw new ResultNotFoundError(key);
+      // The game format applies to the row as it will be stored: a new category can change it
+      const draw = { draw_name: current.draw_name, gagnants: current.gagnants, machine: current.machine, ...changes };
+      const issues = gameFormatIssues(draw);
+      if (issues.length > 0) {
+        throw new GameFormatError(`Données invalides. ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+      }
+      return { ...current, ...changes, machine: changes.machine !== undefined ? normalizedMachine(draw) : current.machine };
+    });
+    invalidateDrawStatistics(key.draw_name);
+    invalidateDrawStatistics(stored.draw_name);
+    await appendAuditEntries([{ actor: auth.session.username, action: 'update', source: 'manual', before, after: stored }]);
+    await scorePredictionsAfterWrite([stored]);
+    return { success: true, message: "Résultat mis à jour avec succès.", result: withClientId(stored) };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de la mise à jour du résultat");
+  }
+}
+
+export async function deleteLotteryResultAction(key: ResultKey): Promise<{ success: boolean; error?: string; message?: string }> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  try {
+    const deleted = await getResultsRepository().delete(key);
+    invalidateDrawStatistics(deleted.draw_name);
+    await appendAuditEntries([{ actor: auth.session.username, action: 'delete', source: 'manual', before: deleted, after: null }]);
+    return { success: true, message: "Résultat supprimé avec succès." };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de la suppression du résultat");
+  }
 }
 
 export async function resetCategoryDataAction(category: string): Promise<{ success: boolean; error?: string; message?: string }> {
-  return { success: true, message: `Données pour la catégorie ${category} réinitialisées (simulation).` };
+  // Wipes a whole category, so it is restricted to administrators
+  const auth = await authorizeAction('admin');
+  if (!auth.success) return auth;
+
+  if (!getUniqueDrawNames().includes(category)) {
+    return { success: false, error: `Catégorie inconnue: "${category}".` };
+  }
+
+  try {
+    const deleted = await getResultsRepository().deleteByDrawName(category);
+    invalidateDrawStatistics(category);
+    // One entry per row so each deleted draw can be restored on its own
+    const batchId = newAuditBatchId();
+    await appendAuditEntries(deleted.map(row => ({ actor: auth.session.username, action: 'delete' as const, source: 'manual' as const, before: row, after: null, batchId })));
+    return { success: true, message: `Données pour la catégorie ${category} réinitialisées (${deleted.length} résultat(s) supprimé(s)).` };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de la réinitialisation de la catégorie");
+  }
+}
+
+const ImportDecisionsSchema = z.array(z.object({
+  incoming: LotteryResultInputSchema,
+  resolution: z.enum(['import', 'skip', 'keep', 'overwrite']),
+}));
+
+// Audit sources of the flows that end in an import preview; 'manual' and 'scraper-sync' write directly
+const ImportSourceSchema = z.enum(['json-import', 'spreadsheet-import', 'image-analysis']);
+
+/**
+ * Applies the resolutions chosen in the import preview. 'import' only inserts (a row stored since
+ * the preview is left untouched), 'overwrite' replaces the stored numbers, 'keep' and 'skip' do nothing.
+ */
+export async function applyImportDecisionsAction(
+  decisions: ImportDecision[],
+  requestedSource: AuditSource = 'json-import'
+): Promise<{ success: boolean; error?: string; message?: string; inserted?: number; overwritten?: number; unchanged?: number }> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  const validation = ImportDecisionsSchema.safeParse(decisions);
+  if (!validation.success) {
+    return { success: false, error: formatValidationError(validation.error) };
+  }
+  const sourceValidation = ImportSourceSchema.safeParse(requestedSource);
+  if (!sourceValidation.success) {
+    return { success: false, error: `Source d'import invalide: "${String(requestedSource)}".` };
+  }
+  const source: AuditSource = sourceValidation.data;
+
+  try {
+    const repository = getResultsRepository();
+    const toRows = (resolution: ImportResolution) => validation.data
+      .filter(d => d.resolution === resolution)
+      .map(d => ({ ...d.incoming, machine: normalizedMachine(d.incoming) }));
+
+    const { inserted, skipped } = await repository.insertMany(toRows('import'));
+    const created = [...inserted];
+    const overwritten: { before: LotteryResult; after: LotteryResult }[] = [];
+    let unchanged = skipped + validation.data.filter(d => d.resolution === 'keep' || d.resolution === 'skip').length;
+
+    for (const incoming of toRows('overwrite')) {
+      const before = await repository.get(incoming.draw_name, incoming.date);
+      if (!before) {
+        created.push(await repository.insert(incoming));
+      } else if (before.gagnants.join(',') === incoming.gagnants.join(',') && before.machine.join(',') === incoming.machine.join(',')) {
+        unchanged++;
+      } else {
+        overwritten.push({ before, after: await repository.update(before, incoming) });
+      }
+    }
+
+    new Set([...created, ...overwritten.map(o => o.after)].map(r => r.draw_name)).forEach(drawName => invalidateDrawStatistics(drawName));
+    const batchId = newAuditBatchId();
+    await appendAuditEntries([
+      ...created.map(row => ({ actor: auth.session.username, action: 'create' as const, source, before: null, after: row, batchId })),
+      ...overwritten.map(({ before, after }) => ({ actor: auth.session.username, action: 'update' as const, source, before, after, batchId })),
+    ]);
+    await scorePredictionsAfterWrite([...created, ...overwritten.map(o => o.after)]);
+
+    return {
+      success: true,
+      message: `${created.length} résultat(s) ajouté(s), ${overwritten.length} écrasé(s), ${unchanged} inchangé(s).`,
+      inserted: created.length,
+      overwritten: overwritten.length,
+      unchanged,
+    };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de l'application de l'importation");
+  }
+}
+
+export async function listAuditEntriesAction(filter: AuditLogFilter = {}): Promise<{ success: boolean; error?: string; entries?: AuditEntry[] }> {
+  const auth = await authorizeAction('viewer');
+  if (!auth.success) return auth;
+
+  try {
+    return { success: true, entries: await readAuditLog({ ...filter, limit: filter.limit ?? 500 }) };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de la lecture du journal d'audit");
+  }
+}
+
+export async function revertAuditEntryAction(entryId: string): Promise<CrudActionResult & { entry?: AuditEntry }> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  try {
+    const entry = await getAuditEntry(entryId);
+    if (!entry) {
+      return { success: false, error: "Entrée du journal d'audit introuvable." };
+    }
+    const revertEntry = await revertAuditEntry(entry, auth.session.username);
+    invalidateDrawStatistics(entry.drawName);
+    if (entry.before) invalidateDrawStatistics(entry.before.draw_name);
+    if (revertEntry.after) await scorePredictionsAfterWrite([revertEntry.after]);
+    return {
+      success: true,
+      message: `Changement annulé pour ${revertEntry.drawName} du ${revertEntry.date}.`,
+      result: revertEntry.after ? withClientId(revertEntry.after) : undefined,
+      entry: revertEntry,
+    };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de l'annulation du changement");
+  }
+}
+
+export async function listQuarantinedDrawsAction(): Promise<{ success: boolean; error?: string; names?: QuarantinedName[] }> {
+  const auth = await authorizeAction('viewer');
+  if (!auth.success) return auth;
+
+  try {
+    return { success: true, names: await readDrawQuarantine() };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de la lecture des tirages en quarantaine");
+  }
+}
+
+/**
+ * Maps a published name the scraper did not know to a category. The next syncs resolve it, and its
+ * quarantined draws are stored under the category when they fit its game format; the others are dropped.
+ */
+export async function mapQuarantinedDrawNameAction(
+  rawName: string,
+  drawName: string
+): Promise<{ success: boolean; error?: string; message?: string; inserted?: number; invalid?: number }> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  if (!getUniqueDrawNames().includes(drawName)) {
+    return { success: false, error: `Catégorie inconnue: "${drawName}".` };
+  }
+
+  try {
+    const released = await mapQuarantinedName(rawName, drawName);
+    const format = getGameFormat(drawName);
+    const rows = released
+      .map(draw => ({
+        draw_name: drawName,
+        date: draw.date,
+        gagnants: draw.gagnants.slice(0, format.numbersDrawn),
+        machine: normalizeMachineNumbers(draw.machine.slice(0, format.machineNumbers), format),
+      }))
+      .filter(row => gameFormatIssues(row).length === 0);
+    const { inserted, skipped } = await getResultsRepository().insertMany(rows);
+    invalidateDrawStatistics(drawName);
+    const batchId = newAuditBatchId();
+    await appendAuditEntries(inserted.map(row => ({ actor: auth.session.username, action: 'create' as const, source: 'scraper-sync' as const, before: null, after: row, batchId })));
+    await scorePredictionsAfterWrite(inserted);
+
+    const invalid = released.length - rows.length;
+    return {
+      success: true,
+      message: `"${rawName}" associé à ${drawName}: ${inserted.length} résultat(s) ajouté(s), ${skipped} déjà présent(s), ${invalid} invalide(s).`,
+      inserted: inserted.length,
+      invalid,
+    };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de l'association du tirage");
+  }
+}
+
+export async function discardQuarantinedDrawsAction(rawName: string): Promise<{ success: boolean; error?: string; message?: string }> {
+  const auth = await authorizeAction('editor');
+  if (!auth.success) return auth;
+
+  try {
+    const discarded = await discardQuarantinedName(rawName);
+    return { success: true, message: `${discarded} tirage(s) "${rawName}" ignoré(s).` };
+  } catch (error: any) {
+    return toActionError(error, "Erreur lors de la suppression des tirages en quarantaine");
+  }
 }
@@ -1,7 +1,7 @@
 // src/app/admin/page.tsx
 'use client';
 
-import type { LotteryResult } from "@/types/lottery";
+import type { LotteryResult, PaginatedResults } from "@/types/lottery";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,7 +10,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { AlertTriangle, UploadCloud, DownloadCloud, Loader2, PlusCircle, Edit, Trash2, RefreshCw, Eye, ShieldAlert, Info, Filter, FileJson } from "lucide-react";
+import { AlertTriangle, UploadCloud, DownloadCloud, Loader2, PlusCircle, Edit, Trash2, RefreshCw, Eye, ShieldAlert, Info, Filter, FileJson, LogOut } from "lucide-react";
 import { useState, useTransition, useEffect, useCallback } from "react";
 import { useForm, Controller, SubmitHandler } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -24,13 +24,31 @@ import {
   deleteLotteryResultAction,
   resetCategoryDataAction,
 } from "./actions";
-import { getUniqueDrawNames } from "@/config/draw-schedule";
+import { getSessionAction, logoutAction } from "../login/actions";
+import { hasRole, type Role } from "@/lib/auth/session";
+import { useRouter } from "next/navigation";
+import AuditLogPanel from "@/components/admin/audit-log-panel";
+import ImportPreviewPanel from "@/components/admin/import-preview-panel";
+import SpreadsheetTransferCard from "@/components/admin/spreadsheet-transfer-card";
+import ImageExtractionCard from "@/components/admin/image-extraction-card";
+import DrawQuarantineCard from "@/components/admin/draw-quarantine-card";
+import type { AuditSource } from "@/lib/audit-log";
+import type { ImportPreviewRow } from "@/lib/import-preview";
+import { compareDraws, getGameFormat, getUniqueDrawNames } from "@/config/draw-schedule";
+import { normalizeMachineNumbers, refineDrawToGameFormat } from "@/lib/game-format";
 import { format, parseISO, isValid, parse as dateParseFn } from 'date-fns'; // Renamed parse to dateParseFn
 import { useSidebar } from '@/components/ui/sidebar';
 
 
 type LotteryResultWithId = LotteryResult & { clientId: string };
-const ADMIN_DATA_STORAGE_KEY = 'lotocrackAdminData';
+
+// Same identity as the server store: one row per (draw_name, date)
+const toAdminRow = (r: LotteryResult): LotteryResultWithId => ({
+  ...r,
+  clientId: `${r.draw_name}|${r.date}`,
+  machine: Array.isArray(r.machine) ? r.machine : []
+});
+const sortByDateDesc = (rows: LotteryResultWithId[]) => rows.sort((a, b) => compareDraws(b, a));
 
 const lotteryResultSchema = z.object({
   draw_name: z.string().min(1, "Le nom du tirage est requis."),
@@ -43,21 +61,9 @@ const lotteryResultSchema = z.object({
       return false;
     }
   }, { message: "Date invalide. Format YYYY-MM-DD attendu." }),
-  gagnants: z.array(z.number().int().min(1, "Numéro gagnant doit être >= 1 et <= 90.").max(90, "Numéro gagnant doit être >= 1 et <= 90.")).length(5, "5 numéros gagnants sont requis."),
-  machine: z.array(z.number().int().min(0, "Numéro machine doit être >= 0 et <= 90.").max(90, "Numéro machine doit être >= 0 et <= 90."))
-    .refine(arr => {
-      if (arr.length === 0) return true; // Empty array is valid
-      if (arr.length === 5) {
-        // Allow five 0s (as a way to signify no numbers, will be normalized to [])
-        // OR five valid numbers between 1 and 90.
-        if (arr.every(num => num === 0)) return true;
-        return arr.every(num => num >= 1 && num <= 90);
-      }
-      return false; // Any other length is invalid
-    }, {
-      message: "Numéros machine: un tableau vide, ou cinq zéros [0,0,0,0,0], ou 5 numéros (1-90).",
-    }).optional().default([]),
-});
+  gagnants: z.array(z.number().int()),
+  machine: z.array(z.number().int()).optional().default([]),
+}).superRefine(refineDrawToGameFormat); // Counts and range follow the selected draw's game format
 type LotteryFormValues = z.infer<typeof lotteryResultSchema>;
 
 interface NumberArrayInputProps {
@@ -89,7 +95,7 @@ const NumberArrayInput: React.FC<NumberArrayInputProps> = ({ value: rhfValue, on
               .map(s => s.trim())
               .filter(s => s.length > 0)
               .map(s => parseInt(s, 10))
-              .filter(n => !isNaN(n) && n >= 0 && n <= 90);
+              .filter(n => !isNaN(n) && n >= 0);
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -131,6 +137,8 @@ export default function AdminPage() {
   const [initialLoadMessage, setInitialLoadMessage] = useState<string | null>(null);
 
   const [selectedJsonFile, setSelectedJsonFile] = useState<File | null>(null);
+  // `id` remounts the preview panel (and its chosen resolutions) for every new preview
+  const [importPreview, setImportPreview] = useState<{ id: number; rows: ImportPreviewRow[]; source: AuditSource } | null>(null);
 
 
   const [viewCategory, setViewCategory] = useState<string>("all");
@@ -148,11 +156,16 @@ export default function AdminPage() {
   const [importFilterDrawName, setImportFilterDrawName] = useState<string>("all");
   const [exportFilterDrawName, setExportFilterDrawName] = useState<string>("all");
 
+  const [currentUser, setCurrentUser] = useState<{ username: string; role: Role } | null>(null);
+  const canEdit = currentUser !== null && hasRole(currentUser.role, 'editor');
+  const canReset = currentUser !== null && hasRole(currentUser.role, 'admin');
+
   const { setOpenMobile: closeSheet } = useSidebar();
+  const router = useRouter();
 
   const drawNames = getUniqueDrawNames();
 
-  const { register, handleSubmit, control, reset, formState: { errors }, setValue } = useForm<LotteryFormValues>({
+  const { register, handleSubmit, control, reset, watch, formState: { errors }, setValue } = useForm<LotteryFormValues>({
     resolver: zodResolver(lotteryResultSchema),
     defaultValues: {
       draw_name: drawNames.length > 0 ? drawNames[0] : "",
@@ -161,21 +174,13 @@ export default function AdminPage() {
       machine: []
     }
   });
+  // Game format of the draw selected in the add/edit form
+  const formFormat = getGameFormat(watch('draw_name'));
 
   const fetchAndInitializeAdminData = useCallback(async () => {
     setIsLoadingData(true);
     setInitialLoadMessage(null);
     try {
-      const storedData = localStorage.getItem(ADMIN_DATA_STORAGE_KEY);
-      if (storedData) {
-        const parsedData = JSON.parse(storedData) as LotteryResultWithId[];
-        const normalizedData = parsedData.map(r => ({...r, machine: Array.isArray(r.machine) ? r.machine : []}));
-        setAdminData(normalizedData);
-        setInitialLoadMessage(`Données chargées depuis le stockage local (${normalizedData.length} résultats).`);
-        setIsLoadingData(false);
-        return;
-      }
-
       const response = await fetch('/api/results');
       if (!response.ok) {
         let errorMsg = `Échec de la récupération des données API: ${response.status} ${response.statusText}`;
@@ -191,19 +196,14 @@ export default function AdminPage() {
         }
         throw new Error(errorMsg);
       }
-      const results: LotteryResult[] = await response.json();
+      const { items: results }: PaginatedResults = await response.json();
       if (Array.isArray(results)) {
-        const dataWithClientIds = results.map(r => ({
-            ...r,
-            clientId: r.clientId || `${r.draw_name}-${r.date}-${Math.random().toString(36).substr(2, 9)}`,
-            machine: Array.isArray(r.machine) ? r.machine : []
-        }));
-        setAdminData(dataWithClientIds);
-        localStorage.setItem(ADMIN_DATA_STORAGE_KEY, JSON.stringify(dataWithClientIds));
-        setInitialLoadMessage(`${dataWithClientIds.length} résultats chargés depuis l'API et sauvegardés localement.`);
+        const rows = results.map(toAdminRow);
+        setAdminData(rows);
+        setInitialLoadMessage(`${rows.length} résultats chargés depuis le serveur.`);
       } else {
         setAdminData([]);
-        setInitialLoadMessage("Aucun résultat valide retourné par l'API. Les données locales seront vides.");
+        setInitialLoadMessage("Aucun résultat valide retourné par l'API.");
       }
     } catch (error: any) {
       toast({ title: "Erreur de chargement initial", description: error.message, variant: "destructive" });
@@ -219,10 +219,14 @@ export default function AdminPage() {
   }, [fetchAndInitializeAdminData]);
 
   useEffect(() => {
-    if (!isLoadingData) {
-      localStorage.setItem(ADMIN_DATA_STORAGE_KEY, JSON.stringify(adminData));
-    }
-  }, [adminData, isLoadingData]);
+    getSessionAction().then(setCurrentUser);
+  }, []);
+
+  const handleLogout = async () => {
+    await logoutAction();
+    router.replace('/login');
+    router.refresh();
+  };
 
 
   const handleJsonFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -230,40 +234,9 @@ export default function AdminPage() {
   };
 
 
-  const processImportedData = (importedData: LotteryResult[] | undefined, source: string) => {
-    if (importedData && importedData.length > 0) {
-      const newDataWithClientIds = importedData.map(r => ({
-          ...r,
-          clientId: r.clientId || `${r.draw_name}-${r.date}-${Math.random().toString(36).substr(2, 9)}`,
-          machine: Array.isArray(r.machine) ? r.machine : []
-      }));
-      let addedCount = 0;
-      let duplicatesPrevented = 0;
-      setAdminData(prevData => {
-          const existingKeys = new Set(prevData.map(d => `${d.draw_name}-${d.date}`));
-          const toAdd: LotteryResultWithId[] = [];
-          newDataWithClientIds.forEach(nd => {
-              if (!existingKeys.has(`${nd.draw_name}-${nd.date}`)) {
-                  toAdd.push(nd);
-                  existingKeys.add(`${nd.draw_name}-${nd.date}`);
-              } else {
-                  duplicatesPrevented++;
-              }
-          });
-          addedCount = toAdd.length;
-          return [...prevData, ...toAdd].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      });
-
-      let toastDescription = `Importation de ${importedData.length} résultat(s) depuis ${source} terminée.`;
-      toastDescription += ` ${addedCount} nouveau(x) résultat(s) ont été ajouté(s).`;
-      if (duplicatesPrevented > 0) {
-        toastDescription += ` ${duplicatesPrevented} doublon(s) ont été évité(s).`;
-      }
-      toast({ title: "Importation Réussie", description: toastDescription });
-
-    } else {
-       toast({ title: `Importation depuis ${source}`, description: `Aucun nouveau résultat valide à importer depuis ${source}.`, variant: "default" });
-    }
+  const handleImportApplied = () => {
+    setImportPreview(null);
+    fetchAndInitializeAdminData();
   };
 
   const handleJsonImportSubmit = async () => {
@@ -273,9 +246,9 @@ export default function AdminPage() {
     startImportTransition(async () => {
       const result = await importLotteryDataFromJson(formData, importFilterDrawName === "all" ? null : importFilterDrawName);
       if (result.success) {
-        processImportedData(result.data, "JSON");
+        setImportPreview({ id: Date.now(), rows: result.preview || [], source: 'json-import' });
         if (result.message) { // Display specific message from action
-            toast({title: "Info Importation JSON", description: result.message});
+            toast({title: "Aperçu de l'Importation JSON", description: result.message});
         }
       } else {
         toast({ title: "Erreur d'Importation JSON", description: result.error, variant: "destructive" });
@@ -318,17 +291,12 @@ export default function AdminPage() {
         return;
       }
 
-      let machineNumbers = data.machine ? data.machine : [];
-      if (machineNumbers.length === 5 && machineNumbers.every(n => n === 0)) {
-        machineNumbers = [];
-      }
-
       const actionResult = await addLotteryResultAction({
         ...data,
-        machine: machineNumbers,
+        machine: normalizeMachineNumbers(data.machine, getGameFormat(data.draw_name)),
       });
       if (actionResult.success && actionResult.result) {
-        setAdminData(prev => [...prev, { ...actionResult.result!, clientId: actionResult.result!.clientId || Date.now().toString(), machine: Array.isArray(actionResult.result!.machine) ? actionResult.result!.machine : [] }].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+        setAdminData(prev => sortByDateDesc([...prev, toAdminRow(actionResult.result!)]));
         toast({ title: "Succès", description: actionResult.message });
         setIsAddDialogOpen(false);
         reset({ draw_name: drawNames.length > 0 ? drawNames[0] : "", date: format(new Date(), 'yyyy-MM-dd'), gagnants: [], machine: [] });
@@ -346,16 +314,12 @@ export default function AdminPage() {
         return;
     }
     startProcessingTransition(async () => {
-      let machineNumbers = data.machine ? data.machine : [];
-      if (machineNumbers.length === 5 && machineNumbers.every(n => n === 0)) {
-        machineNumbers = [];
-      }
-      const actionResult = await updateLotteryResultAction(editingResult.clientId, {
+      const actionResult = await updateLotteryResultAction({ draw_name: editingResult.draw_name, date: editingResult.date }, {
         ...data,
-        machine: machineNumbers,
+        machine: normalizeMachineNumbers(data.machine, getGameFormat(data.draw_name)),
       });
       if (actionResult.success && actionResult.result) {
-        setAdminData(prev => prev.map(r => r.clientId === editingResult.clientId ? { ...r, ...actionResult.result!, clientId: editingResult.clientId, machine: Array.isArray(actionResult.result!.machine) ? actionResult.result!.machine : [] } : r).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+        setAdminData(prev => sortByDateDesc(prev.map(r => r.clientId === editingResult.clientId ? toAdminRow(actionResult.result!) : r)));
         toast({ title: "Succès", description: actionResult.message });
         setIsEditDialogOpen(false);
         setEditingResult(null);
@@ -383,9 +347,10 @@ export default function AdminPage() {
   };
 
   const confirmDelete = async () => {
-    if (!deletingResultClientId) return;
+    const deletingResult = adminData.find(r => r.clientId === deletingResultClientId);
+    if (!deletingResult) return;
     startProcessingTransition(async () => {
-      const actionResult = await deleteLotteryResultAction(deletingResultClientId);
+      const actionResult = await deleteLotteryResultAction({ draw_name: deletingResult.draw_name, date: deletingResult.date });
       if (actionResult.success) {
         setAdminData(prev => prev.filter(r => r.clientId !== deletingResultClientId));
         toast({ title: "Succès", description: actionResult.message });
@@ -428,24 +393,28 @@ export default function AdminPage() {
         <CardHeader>
           <CardTitle className="text-3xl font-bold">Interface d'Administration LotoBonheur Insights</CardTitle>
           <CardDescription>
-            Gestion des données des tirages Loto Bonheur. Les modifications ici affectent les données stockées localement dans votre navigateur.
+            Gestion des données des tirages Loto Bonheur. Les modifications ici sont enregistrées sur le serveur et visibles sur toutes les pages des tirages.
           </CardDescription>
         </CardHeader>
-         {initialLoadMessage && (
-            <CardFooter>
-                <p className="text-sm text-muted-foreground">{initialLoadMessage}</p>
-            </CardFooter>
-        )}
+        <CardFooter className="flex flex-col sm:flex-row sm:justify-between gap-2">
+            <p className="text-sm text-muted-foreground">{initialLoadMessage}</p>
+            {currentUser && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    Connecté: <strong>{currentUser.username}</strong> ({currentUser.role})
+                    <Button variant="outline" size="sm" onClick={handleLogout}><LogOut className="mr-2 h-4 w-4" /> Déconnexion</Button>
+                </div>
+            )}
+        </CardFooter>
       </Card>
 
       <Card>
         <CardHeader><CardTitle className="flex items-center"><ShieldAlert className="mr-2 h-5 w-5 text-destructive" /> Authentification et Base de Données</CardTitle></CardHeader>
         <CardContent>
             <p className="text-muted-foreground">
-                <strong>Authentification :</strong> Une authentification sécurisée est requise pour protéger cette interface en production.
+                <strong>Authentification :</strong> L'accès à cette interface nécessite une session. Le rôle lecteur (viewer) permet de consulter et d'exporter, le rôle éditeur (editor) d'importer, ajouter, modifier et supprimer des résultats, et seul le rôle administrateur (admin) peut réinitialiser une catégorie.
             </p>
              <p className="text-muted-foreground mt-2">
-                <strong>Persistance des Données :</strong> Actuellement, les données sont stockées dans `localStorage`. Pour une solution robuste, une base de données (ex: Firebase Firestore) est recommandée.
+                <strong>Persistance des Données :</strong> Les résultats sont enregistrés dans le stockage du serveur (un seul résultat par tirage et par date), partagé par tous les administrateurs et les pages publiques.
             </p>
         </CardContent>
       </Card>
@@ -462,6 +431,7 @@ export default function AdminPage() {
                         Format attendu: un tableau d'objets. Chaque objet: {" { \"draw_name\": \"NOM\", \"date\": \"YYYY-MM-DD\", \"gagnants\": [n1,n2,n3,n4,n5], \"machine\": [m1,m2,m3,m4,m5] ou [] } "}.
                         Les dates alternatives (ex: DD/MM/YYYY, MM/DD/YYYY) sont aussi acceptées et seront normalisées.
                         Les numéros machine sont optionnels; un tableau vide `[]` est utilisé si absents.
+                        Rien n'est enregistré avant la validation de l'aperçu, qui classe chaque ligne (nouvelle, identique, en conflit ou invalide).
                     </p>
                 </div>
                 <div className="mt-2">
@@ -474,8 +444,8 @@ export default function AdminPage() {
                         </SelectContent>
                     </Select>
                 </div>
-                <Button onClick={handleJsonImportSubmit} disabled={isImporting || !selectedJsonFile} className="w-full mt-2">
-                {isImporting && selectedJsonFile ? <Loader2 className="animate-spin mr-2" /> : <UploadCloud className="mr-2" />} Importer JSON
+                <Button onClick={handleJsonImportSubmit} disabled={isImporting || !selectedJsonFile || !canEdit} className="w-full mt-2">
+                {isImporting && selectedJsonFile ? <Loader2 className="animate-spin mr-2" /> : <UploadCloud className="mr-2" />} Prévisualiser l'importation JSON
                 </Button>
                 <hr className="my-4"/>
                 <div>
@@ -493,8 +463,25 @@ export default function AdminPage() {
                 </Button>
             </CardContent>
         </Card>
+
+        <SpreadsheetTransferCard
+          drawNames={drawNames}
+          results={adminData}
+          canImport={canEdit}
+          onPreview={rows => setImportPreview({ id: Date.now(), rows, source: 'spreadsheet-import' })}
+        />
+
+        <ImageExtractionCard
+          drawNames={drawNames}
+          canImport={canEdit}
+          onPreview={rows => setImportPreview({ id: Date.now(), rows, source: 'image-analysis' })}
+        />
       </div>
 
+      {importPreview && (
+        <ImportPreviewPanel key={importPreview.id} rows={importPreview.rows} source={importPreview.source} onApplied={handleImportApplied} onCancel={() => setImportPreview(null)} />
+      )}
+
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <div>
@@ -503,7 +490,7 @@ export default function AdminPage() {
           </div>
           <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
             <DialogTrigger asChild>
-                <Button onClick={() => { reset({ draw_name: drawNames.length > 0 ? drawNames[0] : "", date: format(new Date(), 'yyyy-MM-dd'), gagnants: [], machine: [] }); setIsAddDialogOpen(true); closeSheet(false); }}>
+                <Button disabled={!canEdit} onClick={() => { reset({ draw_name: drawNames.length > 0 ? drawNames[0] : "", date: format(new Date(), 'yyyy-MM-dd'), gagnants: [], machine: [] }); setIsAddDialogOpen(true); closeSheet(false); }}>
                     <PlusCircle className="mr-2 h-4 w-4" /> Ajouter un Résultat
                 </Button>
             </DialogTrigger>
@@ -512,8 +499,8 @@ export default function AdminPage() {
                 <form onSubmit={handleSubmit(onAddSubmit)} className="space-y-4">
                     <FormItemField control={control} name="draw_name" label="Nom du Tirage" drawNames={drawNames} errors={errors} />
                     <FormItemField control={control} name="date" label="Date" type="date" register={register} errors={errors} />
-                    <FormItemNumberArray control={control} name="gagnants" label="Numéros Gagnants (séparés par virgule/espace)" placeholder="1,2,3,4,5" errors={errors} />
-                    <FormItemNumberArray control={control} name="machine" label="Numéros Machine (Optionnel: vide, ou cinq '0', ou 5 numéros)" placeholder="Ex: 6,7,8,9,10 ou laisser vide" errors={errors} />
+                    <FormItemNumberArray control={control} name="gagnants" label={`Numéros Gagnants (${formFormat.numbersDrawn}, séparés par virgule/espace)`} placeholder="1,2,3,4,5" errors={errors} />
+                    <FormItemNumberArray control={control} name="machine" label={`Numéros Machine (Optionnel: vide, ou ${formFormat.machineNumbers} '0', ou ${formFormat.machineNumbers} numéros)`} placeholder="Ex: 6,7,8,9,10 ou laisser vide" errors={errors} />
                     <DialogFooter>
                         <DialogClose asChild><Button type="button" variant="outline">Annuler</Button></DialogClose>
                         <Button type="submit" disabled={isProcessing}>{isProcessing ? <Loader2 className="animate-spin"/> : "Ajouter"}</Button>
@@ -559,8 +546,8 @@ export default function AdminPage() {
                         <TableCell>{r.gagnants.join(', ')}</TableCell>
                         <TableCell>{r.machine && r.machine.length > 0 ? r.machine.join(', ') : 'N/A'}</TableCell>
                         <TableCell className="space-x-1 text-right">
-                            <Button variant="outline" size="icon" onClick={() => { openEditDialog(r); closeSheet(false);}} aria-label={`Modifier le résultat du ${format(parseISO(r.date), 'dd/MM/yyyy')} pour ${r.draw_name}`}><Edit className="h-4 w-4" /></Button>
-                            <Button variant="destructive" size="icon" onClick={() => { handleDeleteClick(r.clientId!); closeSheet(false);}} aria-label={`Supprimer le résultat du ${format(parseISO(r.date), 'dd/MM/yyyy')} pour ${r.draw_name}`}><Trash2 className="h-4 w-4" /></Button>
+                            <Button variant="outline" size="icon" disabled={!canEdit} onClick={() => { openEditDialog(r); closeSheet(false);}} aria-label={`Modifier le résultat du ${format(parseISO(r.date), 'dd/MM/yyyy')} pour ${r.draw_name}`}><Edit className="h-4 w-4" /></Button>
+                            <Button variant="destructive" size="icon" disabled={!canEdit} onClick={() => { handleDeleteClick(r.clientId!); closeSheet(false);}} aria-label={`Supprimer le résultat du ${format(parseISO(r.date), 'dd/MM/yyyy')} pour ${r.draw_name}`}><Trash2 className="h-4 w-4" /></Button>
                         </TableCell>
                         </TableRow>
                     ))}
@@ -572,11 +559,15 @@ export default function AdminPage() {
         <CardFooter>
             <Button onClick={fetchAndInitializeAdminData} variant="outline" disabled={isLoadingData}>
                 <RefreshCw className={`mr-2 h-4 w-4 ${isLoadingData ? 'animate-spin' : ''}`} />
-                Recharger les Données de l'API (Écrase les données locales)
+                Recharger les Données du Serveur
             </Button>
         </CardFooter>
       </Card>
 
+      <DrawQuarantineCard drawNames={drawNames} canEdit={canEdit} onMapped={fetchAndInitializeAdminData} />
+
+      <AuditLogPanel drawNames={drawNames} canRevert={canEdit} onReverted={fetchAndInitializeAdminData} />
+
       <AlertDialog open={isResetCategoryDialogOpen} onOpenChange={setIsResetCategoryDialogOpen}>
         <Card>
           <CardHeader><CardTitle>Réinitialiser les Données par Catégorie</CardTitle></CardHeader>
@@ -592,12 +583,12 @@ export default function AdminPage() {
                       </Select>
                   </div>
                   <AlertDialogTrigger asChild>
-                      <Button variant="destructive" disabled={!categoryToReset || categoryToReset === "all" || isProcessing} onClick={() => {handleResetCategoryClick(); closeSheet(false); }}>
+                      <Button variant="destructive" disabled={!categoryToReset || categoryToReset === "all" || isProcessing || !canReset} onClick={() => {handleResetCategoryClick(); closeSheet(false); }}>
                             {isProcessing && categoryToReset ? <Loader2 className="animate-spin mr-2 h-4 w-4"/> : <Trash2 className="mr-2 h-4 w-4" />} Réinitialiser la Catégorie
                       </Button>
                   </AlertDialogTrigger>
               </div>
-               <p className="text-xs text-muted-foreground">Attention: La sélection "Toutes les catégories" ne peut pas être réinitialisée ici. Choisissez une catégorie spécifique.</p>
+               <p className="text-xs text-muted-foreground">Attention: La sélection "Toutes les catégories" ne peut pas être réinitialisée ici. Choisissez une catégorie spécifique. Réservé au rôle administrateur.</p>
           </CardContent>
         </Card>
         <AlertDialogContent>
@@ -622,8 +613,8 @@ export default function AdminPage() {
             <form onSubmit={handleSubmit(onEditSubmit)} className="space-y-4">
                 <FormItemField control={control} name="draw_name" label="Nom du Tirage" drawNames={drawNames} errors={errors} disabled={true} />
                 <FormItemField control={control} name="date" label="Date" type="date" register={register} errors={errors} disabled={true}/>
-                <FormItemNumberArray control={control} name="gagnants" label="Numéros Gagnants (séparés par virgule/espace)" placeholder="1,2,3,4,5" errors={errors} />
-                <FormItemNumberArray control={control} name="machine" label="Numéros Machine (Optionnel: vide, ou cinq '0', ou 5 numéros)" placeholder="Ex: 6,7,8,9,10 ou laisser vide" errors={errors} />
+                <FormItemNumberArray control={control} name="gagnants" label={`Numéros Gagnants (${formFormat.numbersDrawn}, séparés par virgule/espace)`} placeholder="1,2,3,4,5" errors={errors} />
+                <FormItemNumberArray control={control} name="machine" label={`Numéros Machine (Optionnel: vide, ou ${formFormat.machineNumbers} '0', ou ${formFormat.machineNumbers} numéros)`} placeholder="Ex: 6,7,8,9,10 ou laisser vide" errors={errors} />
               <DialogFooter>
                 <DialogClose asChild><Button type="button" variant="outline" onClick={() => {setIsEditDialogOpen(false); setEditingResult(null);}}>Annuler</Button></DialogClose>
                 <Button type="submit" disabled={isProcessing}>{isProcessing ? <Loader2 className="animate-spin"/> : "Sauvegarder"}</Button>
@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getDrawStatistics } from '@/lib/draw-statistics';
+import { MAX_BACKTEST_EVALUATIONS, runPredictionBacktest, type BacktestReport } from '@/lib/prediction-backtest';
+import type { LotteryResult } from '@/types/lottery';
+import { MAX_SEED } from '@/lib/seeded-random';
+
+const BacktestQuerySchema = z.object({
+  minTraining: z.coerce.number().int().min(1).max(1000).default(20),
+  evaluations: z.coerce.number().int().min(1).max(MAX_BACKTEST_EVALUATIONS).default(200),
+  seed: z.coerce.number().int().min(0).max(MAX_SEED).optional(),
+});
+
+const MAX_CACHED_REPORTS = 20; // Per category
+
+// Reports by the category's cached results: `getDrawStatistics` hands out a new array once a draw is
+// stored or edited, which drops the reports computed on the previous one
+const reportCache = new WeakMap<LotteryResult[], Map<string, BacktestReport>>();
+
+// A request without a seed gets the cached report of the same parameters, whatever seed it drew
+function getBacktestReport(drawName: string, results: LotteryResult[], query: z.infer<typeof BacktestQuerySchema>): BacktestReport {
+  const key = `${query.minTraining}|${query.evaluations}|${query.seed ?? 'any'}`;
+  const reports = reportCache.get(results) ?? new Map<string, BacktestReport>();
+  reportCache.set(results, reports);
+  const cached = reports.get(key);
+  if (cached) return cached;
+
+  const report = runPredictionBacktest(drawName, results, {
+    minTrainingDraws: query.minTraining,
+    maxEvaluations: query.evaluations,
+    seed: query.seed,
+  });
+  const oldestKey = reports.keys().next().value;
+  if (reports.size >= MAX_CACHED_REPORTS && oldestKey !== undefined) reports.delete(oldestKey);
+  reports.set(key, report);
+  return report;
+}
+
+// Walk-forward evaluation of the prediction methods on a category: ?minTraining=20&evaluations=200&seed=123.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+): Promise<NextResponse<BacktestReport | { error: string }>> {
+  const { slug } = await params;
+  const parsedQuery = BacktestQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsedQuery.success) {
+    const errorMessages = parsedQuery.error.errors.map(e => `${e.path.join('.') || 'query'}: ${e.message}`).join('; ');
+    return NextResponse.json({ error: `Paramètres invalides. ${errorMessages}` }, { status: 400 });
+  }
+
+  try {
+    const drawStatistics = await getDrawStatistics(slug);
+    if (!drawStatistics) {
+      return NextResponse.json({ error: `La catégorie de tirage "${slug}" n'a pas été trouvée.` }, { status: 404 });
+    }
+    const report = getBacktestReport(drawStatistics.drawName, drawStatistics.results, parsedQuery.data);
+    return NextResponse.json(report, { status: 200 });
+  } catch (error: any) {
+    console.error(`Error running the prediction backtest for ${slug}:`, error);
+    return NextResponse.json({ error: `Erreur lors de l'évaluation des méthodes: ${error.message}` }, { status: 500 });
+  }
+}
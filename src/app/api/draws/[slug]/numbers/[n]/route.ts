@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getGameFormat } from '@/config/draw-schedule';
+import { getDrawStatistics, getNumberStatistics, type NumberStatistics } from '@/lib/draw-statistics';
+
+// Frequency, last appearance and most frequent partners of one number (1 to the game's highest) in a category.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string; n: string }> }
+): Promise<NextResponse<NumberStatistics | { error: string }>> {
+  const { slug, n } = await params;
+  const number = Number(n);
+  try {
+    const drawStatistics = await getDrawStatistics(slug);
+    if (!drawStatistics) {
+      return NextResponse.json({ error: `La catégorie de tirage "${slug}" n'a pas été trouvée.` }, { status: 404 });
+    }
+    const { maxNumber } = getGameFormat(drawStatistics.stats.drawName);
+    if (!Number.isInteger(number) || number < 1 || number > maxNumber) {
+      return NextResponse.json({ error: `Numéro invalide "${n}". Un entier entre 1 et ${maxNumber} est attendu.` }, { status: 400 });
+    }
+    return NextResponse.json(getNumberStatistics(drawStatistics, number), {
+      status: 200,
+      headers: { 'X-Statistics-Cache': drawStatistics.cacheHit ? 'HIT' : 'MISS' },
+    });
+  } catch (error: any) {
+    console.error(`Error computing statistics for number ${n} in ${slug}:`, error);
+    return NextResponse.json({ error: `Erreur lors du calcul des statistiques du numéro: ${error.message}` }, { status: 500 });
+  }
+}
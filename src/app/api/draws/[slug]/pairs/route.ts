@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getGameFormat } from '@/config/draw-schedule';
+import { getDrawStatistics, getPairFrequencies, type PairFrequency } from '@/lib/draw-statistics';
+
+const PairsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(4005).default(10), // 4005 = C(90, 2)
+  number: z.coerce.number().int().min(1).optional(), // Upper bound depends on the category's game
+});
+
+interface PairsResponse {
+  drawName: string;
+  totalDrawsAnalyzed: number;
+  pairs: PairFrequency[];
+}
+
+// Most frequent winning pairs of a category: ?limit=10&number=7 (pairs containing 7).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+): Promise<NextResponse<PairsResponse | { error: string }>> {
+  const { slug } = await params;
+  const parsedQuery = PairsQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsedQuery.success) {
+    const errorMessages = parsedQuery.error.errors.map(e => `${e.path.join('.') || 'query'}: ${e.message}`).join('; ');
+    return NextResponse.json({ error: `Paramètres invalides. ${errorMessages}` }, { status: 400 });
+  }
+
+  try {
+    const drawStatistics = await getDrawStatistics(slug);
+    if (!drawStatistics) {
+      return NextResponse.json({ error: `La catégorie de tirage "${slug}" n'a pas été trouvée.` }, { status: 404 });
+    }
+    const { stats } = drawStatistics;
+    const { maxNumber } = getGameFormat(stats.drawName);
+    if (parsedQuery.data.number !== undefined && parsedQuery.data.number > maxNumber) {
+      return NextResponse.json({ error: `Paramètres invalides. number: doit être compris entre 1 et ${maxNumber}.` }, { status: 400 });
+    }
+    return NextResponse.json({
+      drawName: stats.drawName,
+      totalDrawsAnalyzed: stats.totalDrawsAnalyzed,
+      pairs: getPairFrequencies(stats, parsedQuery.data.number).slice(0, parsedQuery.data.limit),
+    }, {
+      status: 200,
+      headers: { 'X-Statistics-Cache': drawStatistics.cacheHit ? 'HIT' : 'MISS' },
+    });
+  } catch (error: any) {
+    console.error(`Error computing pair statistics for ${slug}:`, error);
+    return NextResponse.json({ error: `Erreur lors du calcul des paires: ${error.message}` }, { status: 500 });
+  }
+}
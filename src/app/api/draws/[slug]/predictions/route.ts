@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getDrawNameBySlug, getGameFormat } from '@/config/draw-schedule';
+import { readPredictionLedger, summarizePredictionLedger, type PredictionLedgerReport } from '@/lib/prediction-ledger';
+import { randomBaseline } from '@/lib/random-baseline';
+
+const PredictionLedgerQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+// Predictions recorded for a category and how they scored against the actual draws: ?limit=50.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+): Promise<NextResponse<PredictionLedgerReport | { error: string }>> {
+  const { slug } = await params;
+  const parsedQuery = PredictionLedgerQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsedQuery.success) {
+    const errorMessages = parsedQuery.error.errors.map(e => `${e.path.join('.') || 'query'}: ${e.message}`).join('; ');
+    return NextResponse.json({ error: `Paramètres invalides. ${errorMessages}` }, { status: 400 });
+  }
+
+  const drawName = getDrawNameBySlug(slug);
+  if (!drawName) {
+    return NextResponse.json({ error: `La catégorie de tirage "${slug}" n'a pas été trouvée.` }, { status: 404 });
+  }
+
+  try {
+    const entries = await readPredictionLedger({ drawName });
+    const format = getGameFormat(drawName);
+    const { methods, timeline } = summarizePredictionLedger(entries, format);
+    const scoredPredictions = entries.filter(e => e.score).length;
+    return NextResponse.json({
+      drawName,
+      baselineMeanHits: randomBaseline(scoredPredictions, format).meanHits,
+      pendingPredictions: entries.length - scoredPredictions,
+      scoredPredictions,
+      methods,
+      timeline,
+      entries: entries.slice(0, parsedQuery.data.limit),
+    }, { status: 200 });
+  } catch (error: any) {
+    console.error(`Error reading the prediction ledger for ${slug}:`, error);
+    return NextResponse.json({ error: `Erreur lors de la lecture du suivi des prédictions: ${error.message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { getDrawStatistics } from '@/lib/draw-statistics';
+import { generateLotteryPrediction, type LotteryPredictionOutput } from '@/ai/flows/prediction-flow';
+import { buildDrawReportPdf } from '@/lib/draw-report';
+import type { LotteryResult } from '@/types/lottery';
+
+const ReportQuerySchema = z.object({
+  last: z.coerce.number().int().min(1).max(500).default(20),
+});
+
+// Predictions of the report by the category's cached results: `getDrawStatistics` hands out a new
+// array once a draw is stored or edited, which drops the predictions made on the previous one.
+// Concurrent downloads share the pending prediction.
+const predictionCache = new WeakMap<LotteryResult[], Promise<LotteryPredictionOutput>>();
+
+function getReportPredictions(drawName: string, results: LotteryResult[]): Promise<LotteryPredictionOutput> {
+  let predictions = predictionCache.get(results);
+  if (!predictions) {
+    predictions = generateLotteryPrediction({ results, drawName });
+    predictions.catch(() => predictionCache.delete(results));
+    predictionCache.set(results, predictions);
+  }
+  return predictions;
+}
+
+// Printable PDF report of a category: ?last=20 sets how many recent results are listed.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+): Promise<NextResponse> {
+  const { slug } = await params;
+  const parsedQuery = ReportQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsedQuery.success) {
+    const errorMessages = parsedQuery.error.errors.map(e => `${e.path.join('.') || 'query'}: ${e.message}`).join('; ');
+    return NextResponse.json({ error: `Paramètres invalides. ${errorMessages}` }, { status: 400 });
+  }
+
+  try {
+    const drawStatistics = await getDrawStatistics(slug);
+    if (!drawStatistics) {
+      return NextResponse.json({ error: `La catégorie de tirage "${slug}" n'a pas été trouvée.` }, { status: 404 });
+    }
+    const { drawName, results, stats } = drawStatistics;
+    const predictions = await getReportPredictions(drawName, results);
+    const generatedAt = new Date();
+    const pdf = buildDrawReportPdf({
+      drawName,
+      stats,
+      recentResults: results.slice(0, parsedQuery.data.last),
+      predictions,
+      generatedAt,
+    });
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="rapport-${slug}-${format(generatedAt, 'yyyy-MM-dd')}.pdf"`,
+        'X-Statistics-Cache': drawStatistics.cacheHit ? 'HIT' : 'MISS',
+      },
+    });
+  } catch (error: any) {
+    console.error(`Error building the PDF report for ${slug}:`, error);
+    return NextResponse.json({ error: `Erreur lors de la génération du rapport: ${error.message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getDrawStatistics } from '@/lib/draw-statistics';
+import type { LotteryStatisticsOutput } from '@/ai/flows/statistics-types';
+
+// Same LotteryStatisticsOutput as the statistics pages, computed from the stored results.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ slug: string }> }
+): Promise<NextResponse<LotteryStatisticsOutput | { error: string }>> {
+  const { slug } = await params;
+  try {
+    const drawStatistics = await getDrawStatistics(slug);
+    if (!drawStatistics) {
+      return NextResponse.json({ error: `La catégorie de tirage "${slug}" n'a pas été trouvée.` }, { status: 404 });
+    }
+    return NextResponse.json(drawStatistics.stats, {
+      status: 200,
+      headers: {
+        'X-Statistics-Cache': drawStatistics.cacheHit ? 'HIT' : 'MISS',
+        'X-Latest-Draw-Date': drawStatistics.latestDrawDate || '',
+      },
+    });
+  } catch (error: any) {
+    console.error(`Error computing statistics for ${slug}:`, error);
+    return NextResponse.json({ error: `Erreur lors du calcul des statistiques: ${error.message}` }, { status: 500 });
+  }
+}
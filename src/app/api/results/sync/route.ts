@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getCurrentSession } from '@/lib/auth/server';
+import { hasRole, safeEqual } from '@/lib/auth/session';
+import { getResultsRepository } from '@/lib/results-repository';
+import { syncResults } from '@/lib/results-sync';
+import { readSyncCheckpoint, type SyncCheckpoint } from '@/lib/sync-checkpoint';
+
+// Returns the checkpoint of the last sync run (null if none ran yet).
+export async function GET(): Promise<NextResponse<SyncCheckpoint | null | { error: string }>> {
+  try {
+    return NextResponse.json(await readSyncCheckpoint(), { status: 200 });
+  } catch (error: any) {
+    console.error('Error reading sync checkpoint:', error);
+    return NextResponse.json({ error: `Failed to read sync checkpoint: ${error.message}` }, { status: 500 });
+  }
+}
+
+// Header a scheduled job sends with the value of SYNC_SECRET, since it has no session
+const SYNC_SECRET_HEADER = 'x-sync-secret';
+
+// An editor (or admin) session, or the sync secret when one is configured
+async function isSyncAllowed(request: NextRequest): Promise<boolean> {
+  const secret = process.env.SYNC_SECRET;
+  const provided = request.headers.get(SYNC_SECRET_HEADER);
+  if (secret && provided && safeEqual(provided, secret)) return true;
+  const session = await getCurrentSession();
+  return !!session && hasRole(session.role, 'editor');
+}
+
+// Pulls the latest draws from the configured result source into the results store.
+// `?mode=full` re-walks every page; the default incremental mode stops at already-known draws.
+export async function POST(request: NextRequest): Promise<NextResponse<SyncCheckpoint | { error: string }>> {
+  if (!(await isSyncAllowed(request))) {
+    return NextResponse.json({ error: `Sync requires an editor session or the ${SYNC_SECRET_HEADER} header.` }, { status: 401 });
+  }
+
+  const modeParam = request.nextUrl.searchParams.get('mode') || 'incremental';
+  if (modeParam !== 'incremental' && modeParam !== 'full') {
+    return NextResponse.json({ error: `Invalid sync mode "${modeParam}". Expected "incremental" or "full".` }, { status: 400 });
+  }
+
+  try {
+    const checkpoint = await syncResults(getResultsRepository(), modeParam);
+    return NextResponse.json(checkpoint, { status: 200 });
+  } catch (error: any) {
+    console.error('Error syncing lottery results:', error);
+    const errorMessage = error.name === 'TimeoutError'
+      ? 'Sync failed: Connection timed out.'
+      : `Sync failed: ${error.message || 'unexpected error.'}`;
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
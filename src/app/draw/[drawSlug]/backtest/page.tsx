@@ -0,0 +1,221 @@
+// src/app/draw/[drawSlug]/backtest/page.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { BarChart as RechartsBarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceArea, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { getDrawNameBySlug } from '@/config/draw-schedule';
+import LoadingSpinner from '@/components/loading-spinner';
+import ErrorMessage from '@/components/error-message';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Info, RefreshCw } from 'lucide-react';
+import { MAX_BACKTEST_EVALUATIONS, type BacktestReport, type BacktestVerdict } from '@/lib/prediction-backtest';
+import { NEXT_MACHINE_METHOD_NAME } from '@/lib/prediction-methods';
+import { MODEL_METHOD_NAME } from '@/lib/prediction-model';
+
+const VERDICT_LABELS: Record<BacktestVerdict, string> = {
+  better: 'Meilleure que le hasard',
+  chance: 'Pas mieux que le hasard',
+  worse: 'Moins bien que le hasard',
+};
+
+const VERDICT_VARIANTS: Record<BacktestVerdict, 'default' | 'secondary' | 'destructive'> = {
+  better: 'default',
+  chance: 'secondary',
+  worse: 'destructive',
+};
+
+const RECENT_DRAWS_SHOWN = 20;
+
+const formatHits = (value: number) => value.toFixed(3);
+
+export default function BacktestPage() {
+  const params = useParams();
+  const drawSlug = params.drawSlug as string;
+  const drawName = getDrawNameBySlug(drawSlug);
+
+  const [minTraining, setMinTraining] = useState('20');
+  const [evaluations, setEvaluations] = useState('200');
+  const [seed, setSeed] = useState('');
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async (minTrainingDraws: string, maxEvaluations: string, replaySeed: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ minTraining: minTrainingDraws, evaluations: maxEvaluations });
+      if (replaySeed.trim()) query.set('seed', replaySeed.trim());
+      const response = await fetch(`/api/draws/${encodeURIComponent(drawSlug)}/backtest?${query}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Erreur HTTP: ${response.status}`);
+      setReport(data);
+    } catch (err: any) {
+      setError(err.message || "Impossible d'évaluer les méthodes de prédiction.");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [drawSlug]);
+
+  useEffect(() => {
+    if (drawName) fetchReport('20', '200', '');
+  }, [drawName, fetchReport]);
+
+  if (!drawName) {
+    return <ErrorMessage title="Catégorie Invalide" message={`La catégorie de tirage "${drawSlug}" n'a pas été trouvée.`} />;
+  }
+
+  const chartData = report?.methods.map(m => ({ name: m.methodName, meanHits: Number(m.meanHits.toFixed(3)) })) || [];
+
+  return (
+    <div className="space-y-8 p-4 md:p-6 lg:p-8">
+      <header>
+        <h1 className="text-3xl font-bold text-primary mb-1">Backtest: {drawName}</h1>
+        <p className="text-lg text-muted-foreground">
+          Chaque tirage passé est prédit par chaque méthode à partir des seuls tirages précédents, puis comparé au hasard.
+        </p>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Paramètres</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label htmlFor="minTraining">Historique minimal avant évaluation</Label>
+            <Input id="minTraining" type="number" min={1} value={minTraining} onChange={e => setMinTraining(e.target.value)} className="w-40" />
+          </div>
+          <div>
+            <Label htmlFor="evaluations">Tirages évalués (les plus récents)</Label>
+            <Input id="evaluations" type="number" min={1} max={MAX_BACKTEST_EVALUATIONS} value={evaluations} onChange={e => setEvaluations(e.target.value)} className="w-40" />
+          </div>
+          <div>
+            <Label htmlFor="seed">Graine (vide = nouvelle)</Label>
+            <Input id="seed" type="number" min={0} value={seed} onChange={e => setSeed(e.target.value)} className="w-40" />
+          </div>
+          <Button onClick={() => fetchReport(minTraining, evaluations, seed)} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Relancer
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && <ErrorMessage message={error} />}
+      {isLoading && <LoadingSpinner />}
+
+      {!isLoading && report && report.evaluatedDraws === 0 && (
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertTitle>Pas assez de données</AlertTitle>
+          <AlertDescription>
+            {report.totalDraws} tirage(s) disponible(s) pour {report.minTrainingDraws} tirage(s) d'historique minimal: aucun tirage ne peut être évalué.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!isLoading && report && report.evaluatedDraws > 0 && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Résultats par méthode</CardTitle>
+              <CardDescription>
+                {report.evaluatedDraws} tirage(s) évalué(s) sur {report.totalDraws}. Un tirage au hasard trouve en moyenne {formatHits(report.baseline.meanHits)} bon(s) numéro(s);
+                sur {report.evaluatedDraws} tirages, sa moyenne reste entre {formatHits(report.baseline.confidenceInterval[0])} et {formatHits(report.baseline.confidenceInterval[1])} dans 95 % des cas.
+                Graine {report.seed}: relancer avec cette graine et les mêmes paramètres reproduit ces résultats tant que l'historique ne change pas.
+                La méthode « {NEXT_MACHINE_METHOD_NAME} » est comparée aux numéros machine, sur les seuls tirages qui en ont.
+                {report.modelTrainedUntil && <> Le « {MODEL_METHOD_NAME} » est entraîné une seule fois, sur les tirages jusqu'au {format(parseISO(report.modelTrainedUntil), 'dd/MM/yyyy')}, puis figé: contrairement aux autres méthodes, il n'apprend pas des tirages évalués.</>}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <ResponsiveContainer width="100%" height={300}>
+                <RechartsBarChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 60 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="name" angle={-20} textAnchor="end" height={70} interval={0} fontSize={10} stroke="hsl(var(--muted-foreground))" />
+                  <YAxis fontSize={10} stroke="hsl(var(--muted-foreground))" />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--popover))',
+                      borderColor: 'hsl(var(--border))',
+                      color: 'hsl(var(--popover-foreground))',
+                      borderRadius: 'var(--radius)',
+                    }}
+                  />
+                  <ReferenceArea y1={report.baseline.confidenceInterval[0]} y2={report.baseline.confidenceInterval[1]} fill="hsl(var(--muted))" fillOpacity={0.6} />
+                  <ReferenceLine y={report.baseline.meanHits} stroke="hsl(var(--destructive))" strokeDasharray="4 4" label={{ value: 'Hasard', fontSize: 10, position: 'right' }} />
+                  <Bar dataKey="meanHits" fill="hsl(var(--chart-1))" name="Bons numéros en moyenne" radius={[4, 4, 0, 0]} />
+                </RechartsBarChart>
+              </ResponsiveContainer>
+
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Méthode</TableHead>
+                      <TableHead>Moyenne</TableHead>
+                      <TableHead>Intervalle 95 %</TableHead>
+                      <TableHead>Écart (z)</TableHead>
+                      {report.baseline.hitProbabilities.map((_, k) => <TableHead key={k} className="text-center">{k} bon(s)</TableHead>)}
+                      <TableHead>Verdict</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.methods.map(method => (
+                      <TableRow key={method.methodName}>
+                        <TableCell className="font-medium">
+                          {method.methodName}
+                          {method.methodName === MODEL_METHOD_NAME && report.modelTrainedUntil && <span className="ml-1 text-xs text-muted-foreground">(figé)</span>}
+                        </TableCell>
+                        <TableCell>{formatHits(method.meanHits)}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatHits(method.confidenceInterval[0])} – {formatHits(method.confidenceInterval[1])}</TableCell>
+                        <TableCell>{method.zScore.toFixed(2)}</TableCell>
+                        {method.hitDistribution.map((count, k) => <TableCell key={k} className="text-center">{count}</TableCell>)}
+                        <TableCell><Badge variant={VERDICT_VARIANTS[method.verdict]}>{VERDICT_LABELS[method.verdict]}</Badge></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Derniers tirages évalués</CardTitle>
+              <CardDescription>Bons numéros trouvés par chaque méthode sur les {Math.min(RECENT_DRAWS_SHOWN, report.draws.length)} tirages les plus récents.</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Numéros gagnants</TableHead>
+                    <TableHead>Numéros machine</TableHead>
+                    {report.methods.map(method => <TableHead key={method.methodName} className="text-center">{method.methodName}</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.draws.slice(0, RECENT_DRAWS_SHOWN).map(draw => (
+                    <TableRow key={draw.date}>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(draw.date), 'dd/MM/yyyy')}</TableCell>
+                      <TableCell>{draw.gagnants.join(' - ')}</TableCell>
+                      <TableCell>{draw.machine.length > 0 ? draw.machine.join(' - ') : '–'}</TableCell>
+                      {report.methods.map(method => <TableCell key={method.methodName} className="text-center">{draw.hits[method.methodName] ?? '–'}</TableCell>)}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
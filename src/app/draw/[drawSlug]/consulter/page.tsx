@@ -1,10 +1,13 @@
 'use client';
 
-import type { LotteryResult } from '@/types/lottery';
+import type { LotteryResult, PaginatedResults } from '@/types/lottery';
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
-import { analyzeNumberRegularity, type NumberRegularityOutput } from '@/ai/flows/consultant-flow';
-import { getDrawNameBySlug } from '@/config/draw-schedule';
+import { analyzeNumberRegularity } from '@/ai/flows/consultant-flow';
+import { MAX_FOLLOW_UP_LAG, type FollowUpScope, type NumberRegularityOutput } from '@/ai/flows/consultant-types';
+import { getDrawNameBySlug, getGameFormat, LOTO_BONHEUR_FORMAT } from '@/config/draw-schedule';
+import { NUMBER_SOURCE_LABELS, type NumberSource } from '@/lib/number-source';
+import NumberSourceToggle from '@/components/number-source-toggle';
 import LoadingSpinner from '@/components/loading-spinner';
 import ErrorMessage from '@/components/error-message';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,15 +15,37 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { BarChart as RechartsBarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Info, Search, Lightbulb } from "lucide-react";
 
+const SCOPE_LABELS: Record<FollowUpScope, string> = {
+  'category': 'Même catégorie',
+  'all-draws': 'Toutes catégories',
+};
+
 interface ChartData {
   name: string;
   frequency: number;
 }
 
+// The cross-category analysis needs every category's results; they are only fetched for it
+async function fetchEveryCategoryResults(): Promise<LotteryResult[]> {
+  const response = await fetch('/api/results');
+  if (!response.ok) {
+    let errorMsg = `Erreur HTTP: ${response.status} ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      errorMsg = errorData.error || errorMsg;
+    } catch (e) { /* Keep the HTTP status */ }
+    throw new Error(errorMsg);
+  }
+  const data: PaginatedResults = await response.json();
+  return data.items;
+}
+
 export default function ConsulterPage() {
   const params = useParams();
   const drawSlug = params.drawSlug as string;
@@ -33,6 +58,9 @@ export default function ConsulterPage() {
   const [drawName, setDrawName] = useState<string | undefined>(undefined);
   const [targetNumberInput, setTargetNumberInput] = useState<string>('');
   const [submittedTargetNumber, setSubmittedTargetNumber] = useState<number | null>(null);
+  const [numberSource, setNumberSource] = useState<NumberSource>('gagnants');
+  const [scope, setScope] = useState<FollowUpScope>('category');
+  const [lagInput, setLagInput] = useState<string>('1');
 
   useEffect(() => {
     if (drawSlug) {
@@ -44,7 +72,7 @@ export default function ConsulterPage() {
     setIsLoadingData(true);
     setError(null);
     try {
-      const response = await fetch('/api/results');
+      const response = await fetch(`/api/results?draw=${encodeURIComponent(drawSlug)}`);
       if (!response.ok) {
         let errorMsg = `Erreur HTTP: ${response.status} ${response.statusText}`;
         try {
@@ -59,24 +87,31 @@ export default function ConsulterPage() {
         }
         throw new Error(errorMsg);
       }
-      const data: LotteryResult[] = await response.json();
-      setAllResults(data);
+      const data: PaginatedResults = await response.json();
+      setAllResults(data.items);
     } catch (err: any) {
       setError(err.message || 'Impossible de récupérer les résultats.');
       console.error(err);
     } finally {
       setIsLoadingData(false);
     }
-  }, []);
+  }, [drawSlug]);
 
   useEffect(() => {
     fetchResults();
   }, [fetchResults]);
 
+  const { maxNumber } = drawName ? getGameFormat(drawName) : LOTO_BONHEUR_FORMAT;
+
   const handleAnalysisSubmit = useCallback(async () => {
     const num = parseInt(targetNumberInput);
-    if (isNaN(num) || num < 1 || num > 90) {
-      setError("Veuillez entrer un numéro valide (1-90).");
+    if (isNaN(num) || num < 1 || num > maxNumber) {
+      setError(`Veuillez entrer un numéro valide (1-${maxNumber}).`);
+      return;
+    }
+    const lag = parseInt(lagInput);
+    if (isNaN(lag) || lag < 1 || lag > MAX_FOLLOW_UP_LAG) {
+      setError(`Veuillez entrer un nombre de tirages suivants valide (1-${MAX_FOLLOW_UP_LAG}).`);
       return;
     }
     setError(null);
@@ -88,7 +123,8 @@ export default function ConsulterPage() {
         setIsLoadingAnalysis(true);
         setAnalysis(null);
         try {
-            const analysisResult = await analyzeNumberRegularity({ results: filteredResults, targetNumber: num, drawName });
+            const results = scope === 'all-draws' ? await fetchEveryCategoryResults() : filteredResults;
+            const analysisResult = await analyzeNumberRegularity({ results, targetNumber: num, drawName, source: numberSource, scope, lag });
             setAnalysis(analysisResult);
         } catch (err: any) {
             setError(`Erreur lors de l'analyse: ${err.message}`);
@@ -104,7 +140,7 @@ export default function ConsulterPage() {
     } else {
       setError("Les données de base des résultats ne sont pas chargées.");
     }
-  }, [targetNumberInput, allResults, drawName]);
+  }, [targetNumberInput, lagInput, allResults, drawName, numberSource, scope, maxNumber]);
 
   const renderFrequencyChart = (data: Record<string, number>, title: string) => {
     const chartData: ChartData[] = Object.entries(data)
@@ -163,9 +199,40 @@ export default function ConsulterPage() {
           <CardTitle>Analyser un Numéro</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div>
+            <Label className="block mb-1">Numéros analysés</Label>
+            <NumberSourceToggle value={numberSource} onChange={setNumberSource} disabled={isLoadingAnalysis} />
+          </div>
+          <div>
+            <Label className="block mb-1">Tirages suivants</Label>
+            <Tabs value={scope} onValueChange={v => setScope(v as FollowUpScope)}>
+              <TabsList>
+                {(Object.keys(SCOPE_LABELS) as FollowUpScope[]).map(value => (
+                  <TabsTrigger key={value} value={value} disabled={isLoadingAnalysis}>{SCOPE_LABELS[value]}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <p className="text-xs text-muted-foreground mt-1">
+              {scope === 'all-draws'
+                ? "Les tirages qui suivent, toutes catégories confondues, dans l'ordre des horaires (ex. Reveil, puis Etoile, Akwaba, Monday Special)."
+                : 'Les tirages suivants de la même catégorie, en général une semaine plus tard.'}
+            </p>
+          </div>
           <div className="flex flex-col sm:flex-row gap-4 items-end">
+            <div className="sm:w-48">
+              <Label htmlFor="followUpLag">Nombre de tirages suivants (1-{MAX_FOLLOW_UP_LAG})</Label>
+              <Input
+                id="followUpLag"
+                type="number"
+                value={lagInput}
+                onChange={(e) => setLagInput(e.target.value)}
+                min="1"
+                max={MAX_FOLLOW_UP_LAG}
+                className="mt-1"
+              />
+            </div>
             <div className="flex-grow">
-              <Label htmlFor="targetNumber">Numéro à analyser (1-90)</Label>
+              <Label htmlFor="targetNumber">Numéro à analyser (1-{maxNumber})</Label>
               <Input
                 id="targetNumber"
                 type="number"
@@ -173,7 +240,7 @@ export default function ConsulterPage() {
                 onChange={(e) => setTargetNumberInput(e.target.value)}
                 placeholder="Ex: 7"
                 min="1"
-                max="90"
+                max={maxNumber}
                 className="mt-1"
               />
             </div>
@@ -207,7 +274,7 @@ export default function ConsulterPage() {
           <CardHeader>
             <CardTitle>Résultats de l'Analyse pour le Numéro: {analysis.targetNumber}</CardTitle>
             <CardDescription>
-              Pour le tirage "{analysis.drawName}", basé sur {analysis.totalDrawsWithTarget} apparition(s) du numéro {analysis.targetNumber}.
+              Pour le tirage "{analysis.drawName}", basé sur {analysis.totalDrawsWithTarget} apparition(s) du numéro {analysis.targetNumber} (numéros analysés: {NUMBER_SOURCE_LABELS[analysis.source]}).
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -223,7 +290,7 @@ export default function ConsulterPage() {
               <>
                 <div>
                   <h3 className="text-xl font-semibold mb-2">Numéros Apparaissant Souvent Ensemble</h3>
-                  <p className="text-sm text-muted-foreground mb-3">Fréquence des autres numéros gagnants lorsque le {analysis.targetNumber} est sorti.</p>
+                  <p className="text-sm text-muted-foreground mb-3">Fréquence des autres numéros ({NUMBER_SOURCE_LABELS[analysis.source].toLowerCase()}) lorsque le {analysis.targetNumber} est sorti.</p>
                   {renderFrequencyChart(analysis.coOccurrence, "Co-occurrence")}
                   <div className="mt-4">
                     {renderNumberList(analysis.mostCoOccurring, "Plus forte co-occurrence")}
@@ -231,16 +298,52 @@ export default function ConsulterPage() {
                 </div>
 
                 <div>
-                  <h3 className="text-xl font-semibold mb-2">Numéros Fréquents au Tirage Suivant</h3>
-                  <p className="text-sm text-muted-foreground mb-3">Fréquence des numéros gagnants sortis lors du tirage qui a suivi une apparition du {analysis.targetNumber}.</p>
-                  {renderFrequencyChart(analysis.nextDrawAppearance, "Apparition au tirage suivant")}
+                  <h3 className="text-xl font-semibold mb-2">{analysis.lag === 1 ? 'Numéros Fréquents au Tirage Suivant' : `Numéros Fréquents dans les ${analysis.lag} Tirages Suivants`}</h3>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Fréquence des numéros gagnants sortis lors {analysis.lag === 1 ? 'du tirage' : `des ${analysis.lag} tirages`} qui {analysis.lag === 1 ? 'a' : 'ont'} suivi une apparition du {analysis.targetNumber}
+                    {analysis.scope === 'all-draws' ? ', toutes catégories confondues' : ''} ({analysis.followUpDraws} tirage(s) suivant(s) examiné(s)).
+                  </p>
+                  {renderFrequencyChart(analysis.nextDrawAppearance, "Apparition aux tirages suivants")}
                   <div className="mt-4">
-                    {renderNumberList(analysis.mostFrequentInNextDraw, "Plus fréquents au tirage suivant")}
+                    {renderNumberList(analysis.mostFrequentInNextDraw, "Plus fréquents aux tirages suivants")}
                   </div>
                 </div>
+
+                {analysis.scope === 'all-draws' && analysis.followUpByCategory.length > 0 && (
+                  <div>
+                    <h3 className="text-xl font-semibold mb-2">Où Sortent les Numéros Suivants</h3>
+                    <p className="text-sm text-muted-foreground mb-3">Tirages suivants par catégorie, du plus proche au plus éloigné du tirage où le {analysis.targetNumber} est sorti.</p>
+                    <div className="overflow-x-auto rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Catégorie</TableHead>
+                            <TableHead className="text-right">Tirages</TableHead>
+                            <TableHead className="text-right">Rang moyen</TableHead>
+                            <TableHead>Plus fréquents (Top 5)</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {analysis.followUpByCategory.map(category => (
+                            <TableRow key={category.drawName}>
+                              <TableCell className="font-medium">{category.drawName}</TableCell>
+                              <TableCell className="text-right">{category.followUpDraws}</TableCell>
+                              <TableCell className="text-right">{category.averageLag.toFixed(1)}</TableCell>
+                              <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                  {category.mostFrequent.map(num => <Badge key={`${category.drawName}-${num}`} variant="outline">{num}</Badge>)}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
               </>
             ) : (
-              <p className="text-muted-foreground">Le numéro {analysis.targetNumber} n'a pas été trouvé dans les tirages gagnants analysés pour "{analysis.drawName}".</p>
+              <p className="text-muted-foreground">Le numéro {analysis.targetNumber} n'a pas été trouvé dans les tirages analysés pour "{analysis.drawName}" (numéros analysés: {NUMBER_SOURCE_LABELS[analysis.source]}).</p>
             )}
           </CardContent>
         </Card>
@@ -1,6 +1,6 @@
 'use client';
 
-import type { LotteryResult } from '@/types/lottery';
+import type { LotteryResult, PaginatedResults } from '@/types/lottery';
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import LotteryResultCard from '@/components/lottery-result-card';
@@ -31,7 +31,7 @@ export default function DrawDataPage() {
     setIsLoading(true);
     setError(null);
     try {
-      const response = await fetch('/api/results');
+      const response = await fetch(`/api/results?draw=${encodeURIComponent(drawSlug)}`);
       if (!response.ok) {
         let errorMsg = `Erreur HTTP: ${response.status} ${response.statusText}`;
         try {
@@ -46,15 +46,15 @@ export default function DrawDataPage() {
         }
         throw new Error(errorMsg);
       }
-      const data: LotteryResult[] = await response.json();
-      setResults(data);
+      const data: PaginatedResults = await response.json();
+      setResults(data.items);
     } catch (err: any) {
       setError(err.message || 'Impossible de récupérer les résultats.');
       console.error(err);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [drawSlug]);
 
   useEffect(() => {
     fetchResults();
@@ -0,0 +1,56 @@
+// src/app/draw/[drawSlug]/prediction/actions.ts
+'use server';
+
+import { z } from 'zod';
+import { getDrawNameBySlug, getNextDrawDate } from '@/config/draw-schedule';
+import { generateLotteryPrediction, type LotteryPredictionOutput } from '@/ai/flows/prediction-flow';
+import { recordPrediction, type PredictionLedgerEntry } from '@/lib/prediction-ledger';
+import { getResultsRepository } from '@/lib/results-repository';
+import { MAX_SEED } from '@/lib/seeded-random';
+
+const PredictionRequestSchema = z.object({
+  drawSlug: z.string().min(1),
+  seed: z.number().int().min(0).max(MAX_SEED).optional(), // Replays a run; a new seed is drawn when omitted
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date au format YYYY-MM-DD attendue.').optional(), // Latest result date of the replayed run
+  modelTrainedUntil: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date au format YYYY-MM-DD attendue.').optional(), // Latest draw the replayed run's model was trained on
+});
+export type PredictionRequest = z.infer<typeof PredictionRequestSchema>;
+
+/**
+ * Generates a prediction from the category's stored results and records it in the ledger against
+ * the next scheduled draw of the category, so it can be scored once that result is stored. Replays
+ * (a given seed) are not recorded: they reproduce an earlier run rather than predict the next draw.
+ */
+export async function generateAndRecordPredictionAction(
+  request: PredictionRequest
+): Promise<{ success: boolean; error?: string; output?: LotteryPredictionOutput; ledgerEntry?: PredictionLedgerEntry }> {
+  const validation = PredictionRequestSchema.safeParse(request);
+  if (!validation.success) {
+    return { success: false, error: `Paramètres invalides. ${validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')}` };
+  }
+  const { drawSlug, seed, until, modelTrainedUntil } = validation.data;
+  const drawName = getDrawNameBySlug(drawSlug);
+  if (!drawName) {
+    return { success: false, error: `La catégorie de tirage "${drawSlug}" n'a pas été trouvée.` };
+  }
+
+  let output: LotteryPredictionOutput;
+  try {
+    const results = await getResultsRepository().list({ drawName, to: until });
+    output = await generateLotteryPrediction({ results, drawName, seed, modelTrainedUntil });
+  } catch (error: any) {
+    return { success: false, error: error.message || 'Erreur inattendue.' };
+  }
+
+  const targetDate = seed === undefined ? getNextDrawDate(output.drawName) : undefined;
+  if (!targetDate) return { success: true, output };
+
+  try {
+    const ledgerEntry = await recordPrediction(output, targetDate, output.model?.trainedAt);
+    return { success: true, output, ledgerEntry: ledgerEntry ?? undefined };
+  } catch (error) {
+    // The prediction is still shown when the ledger cannot be written
+    console.error('Failed to record prediction in the ledger:', error);
+    return { success: true, output };
+  }
+}
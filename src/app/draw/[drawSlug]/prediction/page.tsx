@@ -1,21 +1,46 @@
 
 'use client';
 
-import type { LotteryResult } from '@/types/lottery';
+import type { LotteryResult, PaginatedResults } from '@/types/lottery';
 import { useEffect, useState, useCallback } from 'react';
-import { useParams } from 'next/navigation';
-import { generateLotteryPrediction, type LotteryPredictionOutput, type SinglePrediction } from '@/ai/flows/prediction-flow';
-import { getDrawNameBySlug } from '@/config/draw-schedule';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import type { LotteryPredictionOutput, SinglePrediction } from '@/ai/flows/prediction-flow';
+import type { PredictionLedgerEntry } from '@/lib/prediction-ledger';
+import { generateAndRecordPredictionAction } from './actions';
+import { getDrawNameBySlug, getGameFormat } from '@/config/draw-schedule';
+import { MAX_SEED } from '@/lib/seeded-random';
+import { MODEL_METHOD_NAME } from '@/lib/prediction-model';
+import { BarChart as RechartsBarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
 import LoadingSpinner from '@/components/loading-spinner';
 import ErrorMessage from '@/components/error-message';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { Lightbulb, ShieldCheck, Wand2, Info, Brain, CheckCircle, BarChartHorizontalBig, ListTree, Cog } from "lucide-react";
+import { Lightbulb, ShieldCheck, Wand2, Info, Brain, CheckCircle, BarChartHorizontalBig, ListTree, Cog, History, Link as LinkIcon, AlertTriangle } from "lucide-react";
 import { useToast as useToastHook } from "@/hooks/use-toast";
 
+// Replaying a run needs its seed and, since new results change the picks, the data it was computed on
+interface PredictionReplay {
+  seed: number;
+  until?: string; // Latest result date included (YYYY-MM-DD)
+  modelTrainedUntil?: string; // Latest draw the original run's model was trained on; `until` when absent
+}
+
+function parseReplay(seedText: string | null, untilText: string | null, modelText?: string | null): PredictionReplay | null {
+  if (!seedText || !/^\d+$/.test(seedText.trim())) return null;
+  const seed = Number(seedText.trim());
+  if (seed > MAX_SEED) return null;
+  const until = untilText && /^\d{4}-\d{2}-\d{2}$/.test(untilText) ? untilText : undefined;
+  const modelTrainedUntil = modelText && /^\d{4}-\d{2}-\d{2}$/.test(modelText) ? modelText : undefined;
+  return { seed, until, modelTrainedUntil };
+}
+
 const getBallColorClass = (number: number): string => {
   if (number >= 1 && number <= 9) { // Blanc
     return 'bg-white text-black border border-gray-300';
@@ -41,7 +66,7 @@ const getBallColorClass = (number: number): string => {
 
 function PredictionCard({ prediction, isRecommended = false }: { prediction: SinglePrediction, isRecommended?: boolean }) {
   const icon = isRecommended ? <Cog className="h-6 w-6 mr-2 text-primary" /> : <Brain className="h-6 w-6 mr-2 text-muted-foreground" />;
-  const titleText = isRecommended && prediction.methodName.includes("Réseau Neuronal") ? "Prédiction du Réseau Neuronal (RNN-LSTM)" : prediction.methodName;
+  const titleText = isRecommended && prediction.methodName === MODEL_METHOD_NAME ? "Prédiction du réseau de neurones" : prediction.methodName;
   
   return (
     <Card className={`shadow-lg ${isRecommended ? 'border-primary ring-2 ring-primary' : 'border-border'}`}>
@@ -56,6 +81,7 @@ function PredictionCard({ prediction, isRecommended = false }: { prediction: Sin
             prediction.confidence === "Faible" ? "outline" :
             "destructive" 
           } className="text-sm">{prediction.confidence}</Badge>
+          <span className="ml-2 text-xs">Score: {(100 * prediction.confidenceScore).toFixed(1)} %</span>
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-3">
@@ -71,6 +97,7 @@ function PredictionCard({ prediction, isRecommended = false }: { prediction: Sin
           </div>
         </div>
         <p className="text-xs text-muted-foreground italic pt-2">{prediction.explanation}</p>
+        <p className="text-xs text-muted-foreground"><span className="font-semibold">Confiance:</span> {prediction.confidenceExplanation}</p>
       </CardContent>
     </Card>
   );
@@ -80,14 +107,18 @@ function PredictionCard({ prediction, isRecommended = false }: { prediction: Sin
 export default function PredictionPage() {
   const params = useParams();
   const drawSlug = params.drawSlug as string;
+  const searchParams = useSearchParams();
 
   const [allResults, setAllResults] = useState<LotteryResult[]>([]);
   const [predictionOutput, setPredictionOutput] = useState<LotteryPredictionOutput | null>(null);
+  const [ledgerEntry, setLedgerEntry] = useState<PredictionLedgerEntry | null>(null);
   const [isLoadingData, setIsLoadingData] = useState(true);
   const [isLoadingPrediction, setIsLoadingPrediction] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [drawName, setDrawName] = useState<string | undefined>(undefined);
   const [initialPredictionAttempted, setInitialPredictionAttempted] = useState(false);
+  const [replaySeed, setReplaySeed] = useState(searchParams.get('seed') || '');
+  const [replayUntil, setReplayUntil] = useState(searchParams.get('until') || '');
   const { toast: showToast } = useToastHook();
 
 
@@ -104,7 +135,7 @@ export default function PredictionPage() {
     setPredictionOutput(null);
     setInitialPredictionAttempted(false);
     try {
-      const response = await fetch('/api/results');
+      const response = await fetch(`/api/results?draw=${encodeURIComponent(drawSlug)}`);
       if (!response.ok) {
         let errorMsg = `Erreur HTTP: ${response.status} ${response.statusText}`;
         try {
@@ -119,21 +150,21 @@ export default function PredictionPage() {
         }
         throw new Error(errorMsg);
       }
-      const data: LotteryResult[] = await response.json();
-      setAllResults(data);
+      const data: PaginatedResults = await response.json();
+      setAllResults(data.items);
     } catch (err: any) {
       setError(err.message || 'Impossible de récupérer les résultats.');
       console.error(err);
     } finally {
       setIsLoadingData(false);
     }
-  }, []);
+  }, [drawSlug]);
 
   useEffect(() => {
     fetchResults();
   }, [fetchResults]);
 
-  const handleGeneratePrediction = useCallback(async () => {
+  const handleGeneratePrediction = useCallback(async (replay?: PredictionReplay) => {
     if (!drawName) {
         setError("Le nom du tirage n'est pas défini. Impossible de générer une prédiction.");
         return;
@@ -141,7 +172,7 @@ export default function PredictionPage() {
     if (allResults.length === 0 && !isLoadingData) {
         showToast({
             title: "Peu de données historiques",
-            description: `Aucune donnée historique pour "${drawName}". Les prédictions peuvent être moins fiables. Le modèle RNN-LSTM apprendra des résultats futurs.`,
+            description: `Aucune donnée historique pour "${drawName}". Les numéros proposés seront tirés au hasard tant qu'aucun résultat n'est enregistré.`,
             variant: "default"
         });
     }
@@ -152,11 +183,12 @@ export default function PredictionPage() {
     // if the effect re-triggers based on predictionOutput becoming null.
     // Let the new prediction naturally overwrite the old one.
 
-    const filteredResults = allResults.filter(result => result.draw_name === drawName);
-
     try {
-      const predOutput = await generateLotteryPrediction({ results: filteredResults, drawName });
-      setPredictionOutput(predOutput);
+      // The server reads the category's results itself, up to `until` for a replay
+      const response = await generateAndRecordPredictionAction({ drawSlug, seed: replay?.seed, until: replay?.until, modelTrainedUntil: replay?.modelTrainedUntil });
+      if (!response.success || !response.output) throw new Error(response.error || 'Réponse invalide du serveur.');
+      setPredictionOutput(response.output);
+      setLedgerEntry(response.ledgerEntry ?? null);
     } catch (err: any) {
       setError(`Erreur lors de la génération de la prédiction: ${err.message}`);
       console.error(err);
@@ -164,15 +196,39 @@ export default function PredictionPage() {
     } finally {
       setIsLoadingPrediction(false);
     }
-  }, [allResults, drawName, isLoadingData, showToast]);
+  }, [allResults, drawSlug, drawName, isLoadingData, showToast]);
 
   useEffect(() => {
     // This effect is for auto-generating the prediction when data is first loaded.
     if (!isLoadingData && drawName && allResults.length >= 0 && !predictionOutput && !initialPredictionAttempted && !isLoadingPrediction && !error) {
-       handleGeneratePrediction();
+       // A shared link (?seed=...&until=...&model=...) replays that run instead of drawing a new one
+       handleGeneratePrediction(parseReplay(searchParams.get('seed'), searchParams.get('until'), searchParams.get('model')) ?? undefined);
        setInitialPredictionAttempted(true); // Mark that the initial attempt has been made
     }
-  }, [isLoadingData, drawName, allResults, predictionOutput, initialPredictionAttempted, isLoadingPrediction, error, handleGeneratePrediction]);
+  }, [isLoadingData, drawName, allResults, predictionOutput, initialPredictionAttempted, isLoadingPrediction, error, handleGeneratePrediction, searchParams]);
+
+  const handleReplay = () => {
+    const replay = parseReplay(replaySeed, replayUntil);
+    if (!replay) {
+      showToast({ title: "Graine invalide", description: `La graine doit être un entier entre 0 et ${MAX_SEED}.`, variant: "destructive" });
+      return;
+    }
+    handleGeneratePrediction(replay);
+  };
+
+  const handleCopyReplayLink = async () => {
+    if (!predictionOutput) return;
+    const query = new URLSearchParams({ seed: String(predictionOutput.seed) });
+    if (predictionOutput.dataSummary.latestDrawDate) query.set('until', predictionOutput.dataSummary.latestDrawDate);
+    if (predictionOutput.model?.latestTrainingDate) query.set('model', predictionOutput.model.latestTrainingDate);
+    const link = `${window.location.origin}/draw/${drawSlug}/prediction?${query}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      showToast({ title: "Lien copié", description: "Ce lien rejoue exactement cette prédiction." });
+    } catch {
+      showToast({ title: "Copie impossible", description: link, variant: "destructive" });
+    }
+  };
 
 
   if (!drawName && !isLoadingData) {
@@ -192,17 +248,39 @@ export default function PredictionPage() {
         <AlertDescription className="text-sm">
           Les prédictions sont générées par des algorithmes à des fins de divertissement et d'analyse.
           Elles ne garantissent aucunement un gain. Jouez de manière responsable.
-          Le modèle de Réseau Neuronal (RNN-LSTM) s'améliore avec plus de données et apprend de ses erreurs passées.
+          Le réseau de neurones est entraîné sur l'historique de chaque catégorie, puis mesuré sur ses derniers tirages: s'il ne fait pas mieux que le hasard, cette page l'indique.
         </AlertDescription>
       </Alert>
 
       <div className="flex justify-center my-6">
-        <Button onClick={handleGeneratePrediction} disabled={isLoadingData || isLoadingPrediction || !drawName} size="lg" className="px-8 py-6 text-lg">
+        <Button onClick={() => handleGeneratePrediction()} disabled={isLoadingData || isLoadingPrediction || !drawName} size="lg" className="px-8 py-6 text-lg">
           <Wand2 className="mr-3 h-6 w-6" />
           {isLoadingPrediction ? 'Génération en cours...' : (predictionOutput ? 'Rafraîchir les Prédictions' : 'Générer les Prédictions')}
         </Button>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center"><History className="mr-2 h-5 w-5 text-muted-foreground" />Rejouer une prédiction</CardTitle>
+          <CardDescription>
+            Chaque prédiction est tirée à partir d'une graine. La même graine sur les mêmes résultats redonne exactement les mêmes numéros: le rejeu réentraîne le modèle sur les tirages qu'il avait vus, même s'il a été réentraîné depuis.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label htmlFor="replaySeed">Graine</Label>
+            <Input id="replaySeed" inputMode="numeric" value={replaySeed} onChange={e => setReplaySeed(e.target.value)} className="w-44" />
+          </div>
+          <div>
+            <Label htmlFor="replayUntil">Résultats jusqu'au (optionnel)</Label>
+            <Input id="replayUntil" type="date" value={replayUntil} onChange={e => setReplayUntil(e.target.value)} className="w-44" />
+          </div>
+          <Button variant="outline" onClick={handleReplay} disabled={isLoadingData || isLoadingPrediction || !drawName}>
+            <History className="mr-2 h-4 w-4" /> Rejouer
+          </Button>
+        </CardContent>
+      </Card>
+
       {isLoadingData && <div className="pt-4"><LoadingSpinner message="Chargement des données historiques..." /></div>}
       {error && !isLoadingPrediction && <ErrorMessage message={error} />} {/* Show error only if not actively loading a new prediction */}
       {isLoadingPrediction && <div className="pt-4"><LoadingSpinner message="Génération des prédictions IA..." /></div>}
@@ -213,28 +291,102 @@ export default function PredictionPage() {
             <CardHeader className="text-center bg-primary/5">
                <div className="flex items-center justify-center text-primary">
                  <Cog className="h-8 w-8 mr-3" />
-                <CardTitle className="text-3xl">Prédiction du Réseau Neuronal (RNN-LSTM)</CardTitle>
+                <CardTitle className="text-3xl">{predictionOutput.model ? "Prédiction du réseau de neurones" : "Prédiction aléatoire"}</CardTitle>
                </div>
               <CardDescription className="text-md">
                 Pour le tirage: <span className="font-bold">{predictionOutput.drawName}</span> |
-                Basé sur {predictionOutput.dataSummary.totalDrawsAnalyzed} tirages analysés.
+                Basé sur {predictionOutput.dataSummary.totalDrawsAnalyzed} tirages analysés
+                {predictionOutput.dataSummary.latestDrawDate && <> (jusqu'au {format(parseISO(predictionOutput.dataSummary.latestDrawDate), 'dd/MM/yyyy')})</>}.
               </CardDescription>
+              <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground pt-2">
+                Graine: <span className="font-mono">{predictionOutput.seed}</span>
+                <Button variant="ghost" size="sm" onClick={handleCopyReplayLink}>
+                  <LinkIcon className="mr-1 h-4 w-4" /> Copier le lien de rejeu
+                </Button>
+              </div>
+              {ledgerEntry && (
+                <p className="text-sm text-muted-foreground">
+                  Enregistrée pour le tirage du {format(parseISO(ledgerEntry.targetDate), 'dd/MM/yyyy')}: elle sera comparée au résultat dès sa publication.{' '}
+                  <Link href={`/draw/${drawSlug}/suivi-predictions`} className="underline">Voir le suivi</Link>
+                </p>
+              )}
             </CardHeader>
-            <CardContent className="pt-6">
+            <CardContent className="pt-6 space-y-4">
+              {predictionOutput.model && !predictionOutput.model.beatsBaseline && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Ce modèle ne fait pas mieux que le hasard</AlertTitle>
+                  <AlertDescription>
+                    {predictionOutput.model.heldOutDraws > 0
+                      ? `Sur les ${predictionOutput.model.heldOutDraws} derniers tirages tenus à l'écart de son entraînement, ses numéros les plus probables en ont trouvé ${predictionOutput.model.meanHits.toFixed(2)} en moyenne, contre ${predictionOutput.model.baselineMeanHits.toFixed(2)} pour un tirage au hasard: l'écart n'est pas significatif.`
+                      : "L'historique de cette catégorie est trop court pour vérifier que le modèle fait mieux que le hasard."}
+                    {' '}Consultez la page Backtest pour le détail.
+                  </AlertDescription>
+                </Alert>
+              )}
               <PredictionCard prediction={predictionOutput.recommendedPrediction} isRecommended={true} />
             </CardContent>
-             <CardFooter className="text-xs text-muted-foreground justify-center text-center">
-                La prédiction du Réseau Neuronal (RNN-LSTM) est le résultat d'une analyse approfondie des tendances et des corrections dynamiques. Elle apprend des erreurs passées pour s'améliorer.
-            </CardFooter>
+            {predictionOutput.model && (
+              <CardFooter className="text-xs text-muted-foreground justify-center text-center">
+                Modèle entraîné le {format(parseISO(predictionOutput.model.trainedAt), 'dd/MM/yyyy')} sur {predictionOutput.model.trainingDraws} tirages
+                {predictionOutput.model.latestTrainingDate && <> (jusqu'au {format(parseISO(predictionOutput.model.latestTrainingDate), 'dd/MM/yyyy')})</>}.
+              </CardFooter>
+            )}
           </Card>
+
+          {predictionOutput.model && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Probabilité de chaque numéro</CardTitle>
+                <CardDescription>
+                  Probabilité estimée par le réseau de neurones que chaque numéro figure parmi les gagnants du prochain tirage. La ligne marque le hasard ({(100 * getGameFormat(predictionOutput.drawName).numbersDrawn / predictionOutput.numberProbabilities.length).toFixed(1)} %).
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={260}>
+                  <RechartsBarChart data={predictionOutput.numberProbabilities.map(p => ({ number: p.number, probability: Number((100 * p.probability).toFixed(2)) }))} margin={{ top: 5, right: 10, left: -20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="number" fontSize={9} interval={4} stroke="hsl(var(--muted-foreground))" />
+                    <YAxis fontSize={10} unit="%" stroke="hsl(var(--muted-foreground))" />
+                    <Tooltip
+                      formatter={(value: number) => [`${value} %`, 'Probabilité']}
+                      labelFormatter={(label) => `Numéro ${label}`}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--popover))',
+                        borderColor: 'hsl(var(--border))',
+                        color: 'hsl(var(--popover-foreground))',
+                        borderRadius: 'var(--radius)',
+                      }}
+                    />
+                    <ReferenceLine y={100 * getGameFormat(predictionOutput.drawName).numbersDrawn / predictionOutput.numberProbabilities.length} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                    <Bar dataKey="probability" name="Probabilité">
+                      {predictionOutput.numberProbabilities.map(p => (
+                        <Cell key={p.number} fill={predictionOutput.recommendedPrediction.predictedNumbers.includes(p.number) ? 'hsl(var(--primary))' : 'hsl(var(--chart-2))'} />
+                      ))}
+                    </Bar>
+                  </RechartsBarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
           
+          {predictionOutput.machinePrediction && (
+            <div className="space-y-4">
+              <h2 className="text-2xl font-semibold">Numéros Machine du Prochain Tirage</h2>
+              <p className="text-muted-foreground">
+                Pour les joueurs qui suivent les numéros machine: ceux qui sont le plus souvent sortis par la machine au tirage suivant les numéros gagnants du dernier tirage.
+              </p>
+              <PredictionCard prediction={predictionOutput.machinePrediction} />
+            </div>
+          )}
+
           <div className="space-y-4">
             <h2 className="text-2xl font-semibold flex items-center">
               <ListTree className="mr-3 h-6 w-6 text-muted-foreground" />
               Autres Analyses Algorithmiques
             </h2>
             <p className="text-muted-foreground">
-             Explorez les prédictions alternatives générées par nos différents algorithmes statistiques (Fréquence, Retards, Associations, Distribution). Chacun offre une perspective unique sur les tendances des numéros.
+             Explorez les prédictions alternatives générées par nos différents algorithmes statistiques (Fréquence, Retards, Associations, Distribution et, lorsque la catégorie a des numéros machine, Machine → Gagnants). Chacun offre une perspective unique sur les tendances des numéros.
             </p>
             <Accordion type="single" collapsible className="w-full" defaultValue="all-methods">
               <AccordionItem value="all-methods">
@@ -250,7 +402,7 @@ export default function PredictionPage() {
                       <PredictionCard key={`${pred.methodName}-${index}`} prediction={pred} />
                   ))}
                   {predictionOutput.allPredictions.filter(p => p.methodName !== predictionOutput.recommendedPrediction.methodName).length === 0 && (
-                      <p className="text-muted-foreground text-center py-4">Seule la prédiction du Réseau Neuronal est disponible ou tous les algorithmes ont convergé.</p>
+                      <p className="text-muted-foreground text-center py-4">Aucune autre prédiction n'est disponible sans données historiques.</p>
                   )}
                 </AccordionContent>
               </AccordionItem>
@@ -266,7 +418,7 @@ export default function PredictionPage() {
             <AlertTitle>En attente de génération</AlertTitle>
             <AlertDescription>
             Cliquez sur "Générer les Prédictions" pour démarrer l'analyse.
-            Si aucune donnée historique n'est disponible pour "{drawName}", les prédictions initiales du Réseau Neuronal peuvent être moins précises mais s'amélioreront avec le temps.
+            Si aucune donnée historique n'est disponible pour "{drawName}", les premières prédictions sont tirées au hasard.
             </AlertDescription>
         </Alert>
       )}
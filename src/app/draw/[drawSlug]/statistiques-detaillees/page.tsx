@@ -1,13 +1,13 @@
 // src/app/draw/[drawSlug]/statistiques-detaillees/page.tsx
 'use client';
 
-import type { LotteryResult } from '@/types/lottery';
+import type { LotteryResult, PaginatedResults } from '@/types/lottery';
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import { BarChart as RechartsBarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { calculateLotteryStatistics } from '@/ai/flows/statistics-flow';
 import type { LotteryStatisticsOutput } from '@/ai/flows/statistics-types';
-import { getDrawNameBySlug } from '@/config/draw-schedule';
+import { getDrawNameBySlug, getGameFormat } from '@/config/draw-schedule';
 import LoadingSpinner from '@/components/loading-spinner';
 import ErrorMessage from '@/components/error-message';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
@@ -41,7 +41,7 @@ export default function DetailedStatisticsPage() {
     setIsLoadingData(true);
     setError(null);
     try {
-      const response = await fetch('/api/results');
+      const response = await fetch(`/api/results?draw=${encodeURIComponent(drawSlug)}`);
       if (!response.ok) {
         let errorMsg = `Erreur HTTP: ${response.status} ${response.statusText}`;
         try {
@@ -56,15 +56,15 @@ export default function DetailedStatisticsPage() {
         }
         throw new Error(errorMsg);
       }
-      const data: LotteryResult[] = await response.json();
-      setAllResults(data);
+      const data: PaginatedResults = await response.json();
+      setAllResults(data.items);
     } catch (err: any) {
       setError(err.message || 'Impossible de récupérer les résultats.');
       console.error(err);
     } finally {
       setIsLoadingData(false);
     }
-  }, []);
+  }, [drawSlug]);
 
   useEffect(() => {
     fetchResults();
@@ -158,6 +158,11 @@ export default function DetailedStatisticsPage() {
 
   if (!stats) return <LoadingSpinner message="Préparation des statistiques détaillées..." />;
 
+  const { numbersDrawn, maxNumber } = getGameFormat(stats.drawName);
+  // Sums of the lowest and of the highest possible winning numbers
+  const lowestSum = (numbersDrawn * (numbersDrawn + 1)) / 2;
+  const highestSum = numbersDrawn * maxNumber - (numbersDrawn * (numbersDrawn - 1)) / 2;
+
 
   return (
     <div className="space-y-8 p-4 md:p-6 lg:p-8">
@@ -165,6 +170,7 @@ export default function DetailedStatisticsPage() {
         <h1 className="text-3xl font-bold text-primary mb-1">Statistiques Détaillées: {stats.drawName}</h1>
         <p className="text-lg text-muted-foreground">
           Analyse approfondie basée sur {stats.totalDrawsAnalyzed} tirage(s) pour la catégorie "{stats.drawName}".
+          Les paires, la répartition pairs/impairs et les sommes ne portent que sur les numéros gagnants, pas sur les numéros machine.
         </p>
       </header>
       {error && <Alert variant="destructive"><Info className="h-4 w-4" /><AlertTitle>Erreur partielle</AlertTitle><AlertDescription>{error}</AlertDescription></Alert>}
@@ -210,7 +216,7 @@ export default function DetailedStatisticsPage() {
             </Card>
           </div>
           <div>
-            <h4 className="text-md font-semibold mb-2 mt-4 text-center">Nombre de tirages par quantité de numéros impairs (0 à 5)</h4>
+            <h4 className="text-md font-semibold mb-2 mt-4 text-center">Nombre de tirages par quantité de numéros impairs (0 à {numbersDrawn})</h4>
             {renderBarChart(stats.oddEvenWinningStats.drawsWithXOdds, "Nb. Numéros Impairs", "Nb. Tirages")}
           </div>
         </CardContent>
@@ -219,7 +225,7 @@ export default function DetailedStatisticsPage() {
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center"><Sigma className="mr-2 h-5 w-5 text-accent" />Statistiques sur la Somme des Numéros Gagnants</CardTitle>
-          <CardDescription>Analyse de la somme totale des 5 numéros gagnants par tirage.</CardDescription>
+          <CardDescription>Analyse de la somme totale des {numbersDrawn} numéros gagnants par tirage.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
@@ -242,7 +248,7 @@ export default function DetailedStatisticsPage() {
           </div>
         </CardContent>
          <CardFooter>
-            <p className="text-xs text-muted-foreground">Note: La plage théorique pour la somme de 5 numéros uniques entre 1 et 90 est de 15 (1+2+3+4+5) à 440 (86+87+88+89+90).</p>
+            <p className="text-xs text-muted-foreground">Note: La plage théorique pour la somme de {numbersDrawn} numéros uniques entre 1 et {maxNumber} est de {lowestSum} à {highestSum}.</p>
         </CardFooter>
       </Card>
        { stats.totalDrawsAnalyzed === 0 && !isLoadingData && !isLoadingStats && (
@@ -1,7 +1,7 @@
 // src/app/draw/[drawSlug]/statistiques/page.tsx
 'use client';
 
-import type { LotteryResult } from '@/types/lottery';
+import type { LotteryResult, PaginatedResults } from '@/types/lottery';
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation'; // Removed useRouter as it's not used
 import Link from 'next/link';
@@ -9,13 +9,15 @@ import { BarChart as RechartsBarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip
 import { calculateLotteryStatistics } from '@/ai/flows/statistics-flow';
 import type { LotteryStatisticsOutput } from '@/ai/flows/statistics-types';
 import { getDrawNameBySlug } from '@/config/draw-schedule';
+import type { NumberSource } from '@/lib/number-source';
+import NumberSourceToggle from '@/components/number-source-toggle';
 import LoadingSpinner from '@/components/loading-spinner';
 import ErrorMessage from '@/components/error-message';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Info, ArrowRightCircle } from "lucide-react";
+import { Info, ArrowRightCircle, FileDown } from "lucide-react";
 
 interface ChartData {
   name: string;
@@ -32,6 +34,7 @@ export default function StatisticsPage() {
   const [isLoadingStats, setIsLoadingStats] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [drawName, setDrawName] = useState<string | undefined>(undefined);
+  const [numberSource, setNumberSource] = useState<NumberSource>('gagnants');
 
   useEffect(() => {
     if (drawSlug) {
@@ -43,7 +46,7 @@ export default function StatisticsPage() {
     setIsLoadingData(true);
     setError(null);
     try {
-      const response = await fetch('/api/results');
+      const response = await fetch(`/api/results?draw=${encodeURIComponent(drawSlug)}`);
       if (!response.ok) {
         let errorMsg = `Erreur HTTP: ${response.status} ${response.statusText}`;
         try {
@@ -58,15 +61,15 @@ export default function StatisticsPage() {
         }
         throw new Error(errorMsg);
       }
-      const data: LotteryResult[] = await response.json();
-      setAllResults(data);
+      const data: PaginatedResults = await response.json();
+      setAllResults(data.items);
     } catch (err: any) {
       setError(err.message || 'Impossible de récupérer les résultats.');
       console.error(err);
     } finally {
       setIsLoadingData(false);
     }
-  }, []);
+  }, [drawSlug]);
 
   useEffect(() => {
     fetchResults();
@@ -166,6 +169,8 @@ export default function StatisticsPage() {
 
   if (!stats) return <LoadingSpinner message="Préparation des statistiques..." />; // Fallback if stats are still null
 
+  const hasMachineNumbers = Object.keys(stats.machineNumberFrequencies).length > 0;
+
   return (
     <div className="space-y-8 p-4 md:p-6 lg:p-8">
       <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
@@ -175,48 +180,109 @@ export default function StatisticsPage() {
             Basé sur {stats.totalDrawsAnalyzed} tirage(s) analysé(s).
             </p>
         </div>
-        <Button asChild variant="outline" className="mt-4 sm:mt-0">
-            <Link href={`/draw/${drawSlug}/statistiques-detaillees`}>
-                Statistiques Détaillées <ArrowRightCircle className="ml-2 h-4 w-4" />
-            </Link>
-        </Button>
+        <div className="flex gap-2 mt-4 sm:mt-0">
+            <Button asChild variant="outline">
+                <a href={`/api/draws/${drawSlug}/report`} download>
+                    <FileDown className="mr-2 h-4 w-4" /> Rapport PDF
+                </a>
+            </Button>
+            <Button asChild variant="outline">
+                <Link href={`/draw/${drawSlug}/statistiques-detaillees`}>
+                    Statistiques Détaillées <ArrowRightCircle className="ml-2 h-4 w-4" />
+                </Link>
+            </Button>
+        </div>
       </header>
       {error && <ErrorMessage message={error} />} {/* Show error even if some stats are displayed from previous load */}
 
+      <NumberSourceToggle value={numberSource} onChange={setNumberSource} />
+      {numberSource !== 'gagnants' && (
+        <Alert variant="default" className="border-primary/30">
+          <Info className="h-4 w-4 text-primary" />
+          <AlertTitle className="text-primary">Numéros gagnants uniquement ailleurs</AlertTitle>
+          <AlertDescription>
+            Ce choix s'applique aux fréquences ci-dessous. Les paires, la répartition pairs/impairs et les sommes
+            des Statistiques Détaillées et du rapport PDF portent toujours sur les seuls numéros gagnants.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle>Fréquence des Numéros Gagnants</CardTitle>
-            <CardDescription>Distribution des numéros sortis dans les tirages gagnants.</CardDescription>
-          </CardHeader>
-          <CardContent>
-            {renderFrequencyChart(stats.winningNumberFrequencies, "Fréquence Gagnants")}
-            <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
-              {renderNumberList(stats.mostFrequentWinning, "Plus Fréquents (Gagnants)")}
-              {renderNumberList(stats.leastFrequentWinning, "Moins Fréquents (Gagnants)")}
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle>Fréquence des Numéros Machine</CardTitle>
-            <CardDescription>Distribution des numéros sortis par la machine.</CardDescription>
-          </CardHeader>
-          <CardContent>
-            {Object.keys(stats.machineNumberFrequencies).length > 0 ? (
-                <>
-                    {renderFrequencyChart(stats.machineNumberFrequencies, "Fréquence Machine")}
-                    <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {renderNumberList(stats.mostFrequentMachine, "Plus Fréquents (Machine)")}
-                    {renderNumberList(stats.leastFrequentMachine, "Moins Fréquents (Machine)")}
-                    </div>
-                </>
-            ) : (
-                <p className="text-muted-foreground mt-2 p-4 text-center">Aucune donnée de numéros machine pour cette catégorie de tirage.</p>
-            )}
-          </CardContent>
-        </Card>
+        {numberSource === 'gagnants' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Fréquence des Numéros Gagnants</CardTitle>
+              <CardDescription>Distribution des numéros sortis dans les tirages gagnants.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {renderFrequencyChart(stats.winningNumberFrequencies, "Fréquence Gagnants")}
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                {renderNumberList(stats.mostFrequentWinning, "Plus Fréquents (Gagnants)")}
+                {renderNumberList(stats.leastFrequentWinning, "Moins Fréquents (Gagnants)")}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {numberSource === 'machine' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Fréquence des Numéros Machine</CardTitle>
+              <CardDescription>Distribution des numéros sortis par la machine.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {hasMachineNumbers ? (
+                  <>
+                      {renderFrequencyChart(stats.machineNumberFrequencies, "Fréquence Machine")}
+                      <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {renderNumberList(stats.mostFrequentMachine, "Plus Fréquents (Machine)")}
+                      {renderNumberList(stats.leastFrequentMachine, "Moins Fréquents (Machine)")}
+                      </div>
+                  </>
+              ) : (
+                  <p className="text-muted-foreground mt-2 p-4 text-center">Aucune donnée de numéros machine pour cette catégorie de tirage.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {numberSource === 'both' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Fréquence Gagnants et Machine</CardTitle>
+              <CardDescription>Nombre de tirages où chaque numéro est sorti, comme numéro gagnant ou comme numéro machine.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {renderFrequencyChart(stats.combinedNumberFrequencies, "Fréquence Gagnants + Machine")}
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                {renderNumberList(stats.mostFrequentCombined, "Plus Fréquents (Les deux)")}
+                {renderNumberList(stats.leastFrequentCombined, "Moins Fréquents (Les deux)")}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {numberSource !== 'gagnants' && hasMachineNumbers && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Machine et Tirage Suivant</CardTitle>
+              <CardDescription>
+                Moyenne sur {stats.machineCarryOver.comparedDraws} paire(s) de tirages consécutifs ayant tous deux des numéros machine.
+                Deux tirages indépendants ont en moyenne {stats.machineCarryOver.expectedByChance.toFixed(3)} numéro(s) en commun.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Numéros machine retrouvés parmi les gagnants du tirage suivant</p>
+                <p className="text-2xl font-bold">{stats.machineCarryOver.machineToNextWinning.toFixed(3)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Numéros gagnants retrouvés parmi les numéros machine du tirage suivant</p>
+                <p className="text-2xl font-bold">{stats.machineCarryOver.winningToNextMachine.toFixed(3)}</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
        { stats.totalDrawsAnalyzed === 0 && !isLoadingData && !isLoadingStats && (
          <Alert variant="default" className="border-primary/30 mt-6">
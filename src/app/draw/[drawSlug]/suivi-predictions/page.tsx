@@ -0,0 +1,187 @@
+// src/app/draw/[drawSlug]/suivi-predictions/page.tsx
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { getDrawNameBySlug, getGameFormat } from '@/config/draw-schedule';
+import LoadingSpinner from '@/components/loading-spinner';
+import ErrorMessage from '@/components/error-message';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Info, RefreshCw } from 'lucide-react';
+import type { PredictionLedgerReport } from '@/lib/prediction-ledger';
+
+const LINE_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))', 'hsl(var(--primary))'];
+
+const formatHits = (value: number) => value.toFixed(2);
+
+export default function PredictionLedgerPage() {
+  const params = useParams();
+  const drawSlug = params.drawSlug as string;
+  const drawName = getDrawNameBySlug(drawSlug);
+
+  const [report, setReport] = useState<PredictionLedgerReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/draws/${encodeURIComponent(drawSlug)}/predictions`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Erreur HTTP: ${response.status}`);
+      setReport(data);
+    } catch (err: any) {
+      setError(err.message || 'Impossible de charger le suivi des prédictions.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [drawSlug]);
+
+  useEffect(() => {
+    if (drawName) fetchReport();
+  }, [drawName, fetchReport]);
+
+  if (!drawName) {
+    return <ErrorMessage title="Catégorie Invalide" message={`La catégorie de tirage "${drawSlug}" n'a pas été trouvée.`} />;
+  }
+
+  const { numbersDrawn, machineNumbers } = getGameFormat(drawName);
+  const maxHits = Math.max(numbersDrawn, machineNumbers); // The machine prediction is scored on the machine numbers
+  const chartData = report?.timeline.map(point => ({
+    date: format(parseISO(point.targetDate), 'dd/MM'),
+    ...Object.fromEntries(Object.entries(point.meanHits).map(([methodName, hits]) => [methodName, Number(hits.toFixed(2))])),
+  })) || [];
+
+  return (
+    <div className="space-y-8 p-4 md:p-6 lg:p-8">
+      <header className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-primary mb-1">Suivi des prédictions: {drawName}</h1>
+          <p className="text-lg text-muted-foreground">
+            Chaque prédiction générée est enregistrée pour le tirage suivant, puis comparée au résultat réel dès qu'il est publié.
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchReport} disabled={isLoading}>
+          <RefreshCw className="mr-2 h-4 w-4" /> Actualiser
+        </Button>
+      </header>
+
+      {error && <ErrorMessage message={error} />}
+      {isLoading && <LoadingSpinner />}
+
+      {!isLoading && report && report.scoredPredictions === 0 && (
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertTitle>Aucune prédiction évaluée</AlertTitle>
+          <AlertDescription>
+            {report.pendingPredictions > 0
+              ? `${report.pendingPredictions} prédiction(s) en attente du résultat de leur tirage.`
+              : "Aucune prédiction n'a encore été enregistrée pour cette catégorie. Générez-en une depuis la page Prédiction."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!isLoading && report && report.scoredPredictions > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Bons numéros par méthode</CardTitle>
+            <CardDescription>
+              {report.scoredPredictions} prédiction(s) évaluée(s), {report.pendingPredictions} en attente. Un tirage au hasard trouve en moyenne {formatHits(report.baselineMeanHits)} bon(s) numéro(s).
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" fontSize={10} stroke="hsl(var(--muted-foreground))" />
+                <YAxis domain={[0, maxHits]} allowDecimals={false} fontSize={10} stroke="hsl(var(--muted-foreground))" />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--popover))',
+                    borderColor: 'hsl(var(--border))',
+                    color: 'hsl(var(--popover-foreground))',
+                    borderRadius: 'var(--radius)',
+                  }}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <ReferenceLine y={report.baselineMeanHits} stroke="hsl(var(--destructive))" strokeDasharray="4 4" label={{ value: 'Hasard', fontSize: 10, position: 'right' }} />
+                {report.methods.map((method, index) => (
+                  <Line key={method.methodName} type="monotone" dataKey={method.methodName} stroke={LINE_COLORS[index % LINE_COLORS.length]} dot={{ r: 2 }} connectNulls />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Méthode</TableHead>
+                    <TableHead>Prédictions évaluées</TableHead>
+                    <TableHead>Moyenne</TableHead>
+                    {Array.from({ length: maxHits + 1 }, (_, k) => <TableHead key={k} className="text-center">{k} bon(s)</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.methods.map(method => (
+                    <TableRow key={method.methodName}>
+                      <TableCell className="font-medium">{method.methodName}</TableCell>
+                      <TableCell>{method.scoredPredictions}</TableCell>
+                      <TableCell>{formatHits(method.meanHits)}</TableCell>
+                      {method.hitDistribution.map((count, k) => <TableCell key={k} className="text-center">{count}</TableCell>)}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && report && report.entries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Dernières prédictions</CardTitle>
+            <CardDescription>Numéros recommandés et bons numéros trouvés par la méthode recommandée.</CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Générée le</TableHead>
+                  <TableHead>Tirage visé</TableHead>
+                  <TableHead>Méthode recommandée</TableHead>
+                  <TableHead>Numéros prédits</TableHead>
+                  <TableHead>Numéros gagnants</TableHead>
+                  <TableHead className="text-center">Bons numéros</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.entries.map(entry => {
+                  const recommended = entry.predictions.find(p => p.methodName === entry.recommendedMethod);
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(entry.createdAt), 'dd/MM/yyyy HH:mm')}</TableCell>
+                      <TableCell className="whitespace-nowrap">{format(parseISO(entry.targetDate), 'dd/MM/yyyy')}</TableCell>
+                      <TableCell>{entry.recommendedMethod}</TableCell>
+                      <TableCell>{recommended?.predictedNumbers.join(' - ')}</TableCell>
+                      <TableCell>{entry.score ? entry.score.gagnants.join(' - ') : <Badge variant="secondary">En attente</Badge>}</TableCell>
+                      <TableCell className="text-center">{entry.score ? entry.score.hits[entry.recommendedMethod] : '–'}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
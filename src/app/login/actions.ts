@@ -0,0 +1,65 @@
+// src/app/login/actions.ts
+'use server';
+
+import { cookies } from 'next/headers';
+import { z } from 'zod';
+import { authenticateAdminUser } from '@/lib/auth/users';
+import { getCurrentSession } from '@/lib/auth/server';
+import { createSessionToken, getAuthSecret, SESSION_COOKIE_NAME, SESSION_DURATION_SECONDS, type Role } from '@/lib/auth/session';
+
+const LoginSchema = z.object({
+  username: z.string().trim().min(1, "Le nom d'utilisateur est requis."),
+  password: z.string().min(1, 'Le mot de passe est requis.'),
+});
+
+// Only same-site paths are accepted as post-login destinations
+function safeRedirectPath(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/admin';
+}
+
+export async function loginAction(
+  credentials: { username: string; password: string },
+  next?: string | null
+): Promise<{ success: boolean; error?: string; redirectTo?: string }> {
+  const validation = LoginSchema.safeParse(credentials);
+  if (!validation.success) {
+    return { success: false, error: validation.error.errors.map(e => e.message).join(' ') };
+  }
+
+  const secret = getAuthSecret();
+  if (!secret) {
+    console.error('AUTH_SECRET is missing or shorter than 32 characters; logins are disabled.');
+    return { success: false, error: "L'authentification n'est pas configurée sur ce serveur (AUTH_SECRET manquant)." };
+  }
+
+  try {
+    const user = await authenticateAdminUser(validation.data.username, validation.data.password);
+    if (!user) {
+      return { success: false, error: "Nom d'utilisateur ou mot de passe incorrect." };
+    }
+
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE_NAME, await createSessionToken(user.username, user.role, secret), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_DURATION_SECONDS,
+    });
+    return { success: true, redirectTo: safeRedirectPath(next) };
+  } catch (error: any) {
+    console.error('Error during login:', error);
+    return { success: false, error: `Erreur lors de la connexion: ${error.message}` };
+  }
+}
+
+export async function logoutAction(): Promise<{ success: boolean }> {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE_NAME);
+  return { success: true };
+}
+
+export async function getSessionAction(): Promise<{ username: string; role: Role } | null> {
+  const session = await getCurrentSession();
+  return session ? { username: session.username, role: session.role } : null;
+}
@@ -0,0 +1,77 @@
+// src/app/login/page.tsx
+'use client';
+
+import { Suspense, useState, useTransition } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, LogIn, AlertTriangle } from "lucide-react";
+import { loginAction } from "./actions";
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [isSubmitting, startSubmitTransition] = useTransition();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    startSubmitTransition(async () => {
+      const result = await loginAction({ username, password }, searchParams.get('next'));
+      if (result.success && result.redirectTo) {
+        router.replace(result.redirectTo);
+        router.refresh();
+      } else {
+        setError(result.error || "Échec de la connexion.");
+        setPassword("");
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <div>
+        <Label htmlFor="username">Nom d'utilisateur</Label>
+        <Input id="username" autoComplete="username" value={username} onChange={e => setUsername(e.target.value)} disabled={isSubmitting} className="mt-1" />
+      </div>
+      <div>
+        <Label htmlFor="password">Mot de passe</Label>
+        <Input id="password" type="password" autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} disabled={isSubmitting} className="mt-1" />
+      </div>
+      <Button type="submit" className="w-full" disabled={isSubmitting || !username || !password}>
+        {isSubmitting ? <Loader2 className="animate-spin mr-2 h-4 w-4" /> : <LogIn className="mr-2 h-4 w-4" />} Se connecter
+      </Button>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="flex justify-center p-4 md:p-6 lg:p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold">Connexion Administration</CardTitle>
+          <CardDescription>Connectez-vous pour accéder à l'interface d'administration.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {/* useSearchParams needs a Suspense boundary */}
+          <Suspense fallback={<div className="flex justify-center py-6"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>}>
+            <LoginForm />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
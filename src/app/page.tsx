@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { BarChart3, Layers, Lightbulb, ShieldCheck, ArrowRight } from "lucide-react";
 import { getUniqueDrawNames, slugifyDrawName } from "@/config/draw-schedule";
+import HomeDashboard from "@/components/home-dashboard";
 
 export default function HomePage() {
   const uniqueDrawNames = getUniqueDrawNames();
@@ -10,7 +11,7 @@ export default function HomePage() {
 
   return (
     <div className="space-y-8">
-      <section className="text-center py-12">
+      <section className="text-center py-8">
         <h1 className="text-5xl font-bold tracking-tight text-primary mb-4">
           Bienvenue sur LotoBonheur Insights
         </h1>
@@ -20,6 +21,10 @@ export default function HomePage() {
         </p>
       </section>
 
+      <section>
+        <HomeDashboard />
+      </section>
+
       <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <FeatureCard
           icon={<Layers className="h-8 w-8 text-accent" />}
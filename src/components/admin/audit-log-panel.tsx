@@ -0,0 +1,199 @@
+// src/components/admin/audit-log-panel.tsx
+'use client';
+
+import { useCallback, useEffect, useState, useTransition } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, Loader2, RefreshCw, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { listAuditEntriesAction, revertAuditEntryAction } from "@/app/admin/actions";
+import type { AuditAction, AuditEntry, AuditLogFilter, AuditSource } from "@/lib/audit-log";
+import type { LotteryResult } from "@/types/lottery";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Ajout',
+  update: 'Modification',
+  delete: 'Suppression',
+};
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  'manual': 'Formulaire',
+  'json-import': 'Import JSON',
+  'spreadsheet-import': 'Import CSV/Excel',
+  'image-analysis': 'Analyse d\'image',
+  'scraper-sync': 'Synchronisation',
+};
+
+function describeResult(result: LotteryResult | null): string {
+  if (!result) return '—';
+  const machine = result.machine && result.machine.length > 0 ? result.machine.join(', ') : 'N/A';
+  return `${result.gagnants.join(', ')} / machine: ${machine}`;
+}
+
+interface AuditLogPanelProps {
+  drawNames: string[];
+  canRevert: boolean;
+  onReverted: () => void; // Lets the page reload its results after a revert
+}
+
+export default function AuditLogPanel({ drawNames, canRevert, onReverted }: AuditLogPanelProps) {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReverting, startRevertTransition] = useTransition();
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const [drawFilter, setDrawFilter] = useState("all");
+  const [actionFilter, setActionFilter] = useState("all");
+  const [sourceFilter, setSourceFilter] = useState("all");
+  const [actorFilter, setActorFilter] = useState("");
+  const [fromFilter, setFromFilter] = useState("");
+  const [toFilter, setToFilter] = useState("");
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    const filter: AuditLogFilter = {
+      drawName: drawFilter === "all" ? undefined : drawFilter,
+      action: actionFilter === "all" ? undefined : actionFilter as AuditAction,
+      source: sourceFilter === "all" ? undefined : sourceFilter as AuditSource,
+      actor: actorFilter.trim() || undefined,
+      from: fromFilter || undefined,
+      to: toFilter || undefined,
+    };
+    const result = await listAuditEntriesAction(filter);
+    if (result.success) {
+      setEntries(result.entries || []);
+    } else {
+      toast({ title: "Erreur du journal d'audit", description: result.error, variant: "destructive" });
+    }
+    setIsLoading(false);
+  }, [drawFilter, actionFilter, sourceFilter, actorFilter, fromFilter, toFilter, toast]);
+
+  useEffect(() => {
+    loadEntries();
+    // Only the initial load is automatic; filters are applied with the button
+  }, []);
+
+  const handleRevert = (entry: AuditEntry) => {
+    setRevertingId(entry.id);
+    startRevertTransition(async () => {
+      const result = await revertAuditEntryAction(entry.id);
+      if (result.success) {
+        toast({ title: "Changement annulé", description: result.message });
+        onReverted();
+        await loadEntries();
+      } else {
+        toast({ title: "Annulation impossible", description: result.error, variant: "destructive" });
+      }
+      setRevertingId(null);
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center"><History className="mr-2 h-5 w-5" /> Journal d'Audit</CardTitle>
+        <CardDescription>
+          Historique de chaque ajout, modification et suppression de résultat ({entries.length} entrée(s) affichée(s)).
+          Un changement peut être annulé tant que le résultat n'a pas été modifié depuis.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="auditDrawFilter">Catégorie</Label>
+            <Select value={drawFilter} onValueChange={setDrawFilter}>
+              <SelectTrigger id="auditDrawFilter"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les catégories</SelectItem>
+                {drawNames.map(name => <SelectItem key={`audit-${name}`} value={name}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="auditActionFilter">Action</Label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger id="auditActionFilter"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les actions</SelectItem>
+                {Object.entries(ACTION_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="auditSourceFilter">Source</Label>
+            <Select value={sourceFilter} onValueChange={setSourceFilter}>
+              <SelectTrigger id="auditSourceFilter"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les sources</SelectItem>
+                {Object.entries(SOURCE_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="auditActorFilter">Auteur</Label>
+            <Input id="auditActorFilter" placeholder="Nom d'utilisateur ou system" value={actorFilter} onChange={e => setActorFilter(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="auditFromFilter">Du</Label>
+            <Input id="auditFromFilter" type="date" value={fromFilter} onChange={e => setFromFilter(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="auditToFilter">Au</Label>
+            <Input id="auditToFilter" type="date" value={toFilter} onChange={e => setToFilter(e.target.value)} />
+          </div>
+        </div>
+        <Button variant="outline" onClick={loadEntries} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} /> Appliquer les filtres
+        </Button>
+
+        {isLoading ? <div className="flex justify-center py-10"><Loader2 className="h-12 w-12 animate-spin text-primary" /></div> :
+          entries.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">Aucune entrée ne correspond aux filtres.</p>
+          ) : (
+          <div className="overflow-x-auto rounded-md border max-h-[500px]">
+            <Table>
+              <TableHeader className="sticky top-0 bg-card z-10">
+                <TableRow>
+                  <TableHead>Horodatage</TableHead>
+                  <TableHead>Auteur</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Tirage</TableHead>
+                  <TableHead>Avant</TableHead>
+                  <TableHead>Après</TableHead>
+                  <TableHead className="text-right">Annuler</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{format(parseISO(entry.timestamp), 'dd/MM/yyyy HH:mm:ss')}</TableCell>
+                    <TableCell>{entry.actor}</TableCell>
+                    <TableCell className="space-y-1">
+                      <Badge variant={entry.action === 'delete' ? 'destructive' : 'secondary'}>{ACTION_LABELS[entry.action]}</Badge>
+                      <div className="text-xs text-muted-foreground">{SOURCE_LABELS[entry.source]}{entry.revertOf ? ' (annulation)' : ''}</div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{entry.drawName}<div className="text-xs text-muted-foreground">{format(parseISO(entry.date), 'dd/MM/yyyy')}</div></TableCell>
+                    <TableCell className="text-xs">{describeResult(entry.before)}</TableCell>
+                    <TableCell className="text-xs">{describeResult(entry.after)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="icon" disabled={!canRevert || isReverting} onClick={() => handleRevert(entry)} aria-label={`Annuler ce changement sur ${entry.drawName} du ${entry.date}`}>
+                        {isReverting && revertingId === entry.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
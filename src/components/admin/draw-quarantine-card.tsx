@@ -0,0 +1,144 @@
+// src/components/admin/draw-quarantine-card.tsx
+'use client';
+
+import { useCallback, useEffect, useState, useTransition } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Link2, Loader2, RefreshCw, ShieldQuestion, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { discardQuarantinedDrawsAction, listQuarantinedDrawsAction, mapQuarantinedDrawNameAction } from "@/app/admin/actions";
+import type { QuarantinedName } from "@/lib/draw-quarantine";
+
+interface DrawQuarantineCardProps {
+  drawNames: string[];
+  canEdit: boolean;
+  onMapped: () => void; // Lets the page reload its results once released draws are stored
+}
+
+export default function DrawQuarantineCard({ drawNames, canEdit, onMapped }: DrawQuarantineCardProps) {
+  const { toast } = useToast();
+  const [names, setNames] = useState<QuarantinedName[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPending, startTransition] = useTransition();
+  const [pendingName, setPendingName] = useState<string | null>(null);
+  const [targets, setTargets] = useState<Record<string, string>>({}); // Raw name -> category picked in the row
+
+  const loadQuarantine = useCallback(async () => {
+    setIsLoading(true);
+    const result = await listQuarantinedDrawsAction();
+    if (result.success) {
+      setNames(result.names || []);
+    } else {
+      toast({ title: "Erreur de la quarantaine", description: result.error, variant: "destructive" });
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadQuarantine();
+  }, [loadQuarantine]);
+
+  const handleMap = (rawName: string) => {
+    const drawName = targets[rawName];
+    if (!drawName) return;
+    setPendingName(rawName);
+    startTransition(async () => {
+      const result = await mapQuarantinedDrawNameAction(rawName, drawName);
+      if (result.success) {
+        toast({ title: "Tirage associé", description: result.message });
+        if (result.inserted) onMapped();
+        await loadQuarantine();
+      } else {
+        toast({ title: "Association impossible", description: result.error, variant: "destructive" });
+      }
+      setPendingName(null);
+    });
+  };
+
+  const handleDiscard = (rawName: string) => {
+    setPendingName(rawName);
+    startTransition(async () => {
+      const result = await discardQuarantinedDrawsAction(rawName);
+      if (result.success) {
+        toast({ title: "Tirages ignorés", description: result.message });
+        await loadQuarantine();
+      } else {
+        toast({ title: "Erreur de la quarantaine", description: result.error, variant: "destructive" });
+      }
+      setPendingName(null);
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center"><ShieldQuestion className="mr-2 h-5 w-5" /> Tirages en Quarantaine</CardTitle>
+        <CardDescription>
+          Tirages récupérés par la synchronisation sous un nom qui ne correspond à aucune catégorie.
+          Associer un nom à une catégorie ajoute ses tirages et le fait reconnaître aux prochaines synchronisations.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={loadQuarantine} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} /> Actualiser
+        </Button>
+
+        {isLoading ? <div className="flex justify-center py-10"><Loader2 className="h-12 w-12 animate-spin text-primary" /></div> :
+          names.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">Aucun tirage en quarantaine.</p>
+          ) : (
+          <div className="overflow-x-auto rounded-md border max-h-[500px]">
+            <Table>
+              <TableHeader className="sticky top-0 bg-card z-10">
+                <TableRow>
+                  <TableHead>Nom publié</TableHead>
+                  <TableHead>Tirages</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Catégorie</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {names.map(({ rawName, draws }) => {
+                  const isRowPending = isPending && pendingName === rawName;
+                  return (
+                    <TableRow key={rawName}>
+                      <TableCell className="font-medium">{rawName}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <Badge variant="secondary">{draws.length}</Badge>
+                        <div className="text-xs text-muted-foreground">
+                          {format(parseISO(draws[draws.length - 1].date), 'dd/MM/yyyy')} – {format(parseISO(draws[0].date), 'dd/MM/yyyy')}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">{Array.from(new Set(draws.map(d => d.source))).join(', ')}</TableCell>
+                      <TableCell className="min-w-[180px]">
+                        <Select value={targets[rawName]} onValueChange={value => setTargets(prev => ({ ...prev, [rawName]: value }))} disabled={!canEdit}>
+                          <SelectTrigger aria-label={`Catégorie pour ${rawName}`}><SelectValue placeholder="Choisir une catégorie" /></SelectTrigger>
+                          <SelectContent>
+                            {drawNames.map(name => <SelectItem key={`quarantine-${rawName}-${name}`} value={name}>{name}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap space-x-2">
+                        <Button size="sm" onClick={() => handleMap(rawName)} disabled={!canEdit || isPending || !targets[rawName]}>
+                          {isRowPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />} Associer
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDiscard(rawName)} disabled={!canEdit || isPending} aria-label={`Ignorer les tirages ${rawName}`}>
+                          <Trash2 className="mr-2 h-4 w-4" /> Ignorer
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
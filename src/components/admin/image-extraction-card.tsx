@@ -0,0 +1,231 @@
+// src/components/admin/image-extraction-card.tsx
+'use client';
+
+import { useEffect, useState, useTransition } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ImageUp, Loader2, ScanSearch, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { analyzeLotteryImageAction, previewImageExtractionAction } from "@/app/admin/actions";
+import type { ExtractedDrawReview } from "@/ai/flows/image-analysis-flow";
+import type { ImageRegion } from "@/ai/image-extraction/image-extractor";
+import type { ImportPreviewRow } from "@/lib/import-preview";
+
+// Draw being reviewed: numbers are edited as text ("12, 34, 56, 78, 90") and parsed on submit
+interface EditableDraw {
+  review: ExtractedDrawReview;
+  included: boolean;
+  draw_name: string;
+  date: string;
+  gagnants: string;
+  machine: string;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function toEditable(review: ExtractedDrawReview): EditableDraw {
+  return {
+    review,
+    included: true,
+    draw_name: review.draw_name,
+    date: ISO_DATE.test(review.date) ? review.date : '',
+    gagnants: review.gagnants.join(', '),
+    machine: review.machine.join(', '),
+  };
+}
+
+// Non-numeric parts become NaN so that the schema rejects them instead of silently dropping them
+function parseNumbers(text: string): number[] {
+  return text.split(/[\s,;\-]+/).filter(Boolean).map(part => /^\d+$/.test(part) ? Number(part) : NaN);
+}
+
+// Shows only the part of the picture the extractor located the draw in
+function ImageRegionPreview({ src, region }: { src: string; region?: ImageRegion }) {
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  if (!region) {
+    return <img src={src} alt="Image analysée" className="max-h-32 w-auto rounded border" />;
+  }
+  const aspectRatio = naturalSize ? (region.width * naturalSize.width) / (region.height * naturalSize.height) : 4;
+  return (
+    <div className="relative w-full max-h-40 overflow-hidden rounded border bg-muted" style={{ aspectRatio }}>
+      <img
+        src={src}
+        alt="Zone du tirage dans l'image"
+        onLoad={event => setNaturalSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })}
+        className="absolute max-w-none"
+        style={{
+          width: `${100 / region.width}%`,
+          height: `${100 / region.height}%`,
+          left: `${(-region.x / region.width) * 100}%`,
+          top: `${(-region.y / region.height) * 100}%`,
+        }}
+      />
+    </div>
+  );
+}
+
+interface ImageExtractionCardProps {
+  drawNames: string[];
+  canImport: boolean;
+  onPreview: (rows: ImportPreviewRow[]) => void;
+}
+
+export default function ImageExtractionCard({ drawNames, canImport, onPreview }: ImageExtractionCardProps) {
+  const { toast } = useToast();
+  const [isAnalyzing, startAnalyzeTransition] = useTransition();
+  const [isPreviewing, startPreviewTransition] = useTransition();
+
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [filterDrawName, setFilterDrawName] = useState("all");
+  const [summary, setSummary] = useState<string | null>(null);
+  const [draws, setDraws] = useState<EditableDraw[]>([]);
+
+  useEffect(() => {
+    if (!selectedFile) {
+      setImageUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selectedFile);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedFile]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setSelectedFile(event.target.files?.[0] || null);
+    setDraws([]);
+    setSummary(null);
+  };
+
+  const handleAnalyze = () => {
+    if (!selectedFile) return;
+    const formData = new FormData();
+    formData.append("imageFile", selectedFile);
+    startAnalyzeTransition(async () => {
+      const result = await analyzeLotteryImageAction(formData, filterDrawName === "all" ? null : filterDrawName);
+      if (result.success) {
+        setDraws((result.draws || []).map(toEditable));
+        setSummary(result.message || null);
+        toast({ title: "Analyse terminée", description: `${result.draws?.length ?? 0} tirage(s) à vérifier.` });
+      } else {
+        toast({ title: "Erreur d'Analyse", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const updateDraw = (index: number, changes: Partial<EditableDraw>) => {
+    setDraws(prev => prev.map((draw, i) => i === index ? { ...draw, ...changes } : draw));
+  };
+
+  const handlePreview = () => {
+    const reviewed = draws.filter(draw => draw.included).map(draw => ({
+      index: draw.review.index,
+      draw_name: draw.draw_name,
+      date: draw.date,
+      gagnants: parseNumbers(draw.gagnants),
+      machine: parseNumbers(draw.machine),
+    }));
+    startPreviewTransition(async () => {
+      const result = await previewImageExtractionAction(reviewed);
+      if (result.success) {
+        onPreview(result.preview || []);
+        toast({ title: "Aperçu de l'Importation", description: result.message });
+      } else {
+        toast({ title: "Erreur d'Importation", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const includedCount = draws.filter(draw => draw.included).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center"><ImageUp className="mr-2 h-5 w-5" /> Importer depuis une Image</CardTitle>
+        <CardDescription>
+          Les tirages lus sur l'image sont affichés avec la zone correspondante et les avertissements de l'analyse.
+          Corrigez-les si besoin avant de passer à l'aperçu de l'importation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="resultImageFile">Image des résultats (PNG, JPEG, WebP)</Label>
+            <Input id="resultImageFile" type="file" accept="image/png,image/jpeg,image/webp" onChange={handleFileChange} disabled={!canImport} />
+          </div>
+          <div>
+            <Label htmlFor="imageFilterDrawName">Catégorie à garder</Label>
+            <Select value={filterDrawName} onValueChange={setFilterDrawName} disabled={!canImport}>
+              <SelectTrigger id="imageFilterDrawName"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les catégories</SelectItem>
+                {drawNames.map(name => <SelectItem key={`image-filter-${name}`} value={name}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleAnalyze} disabled={!canImport || !selectedFile || isAnalyzing}>
+            {isAnalyzing ? <Loader2 className="animate-spin mr-2 h-4 w-4" /> : <ScanSearch className="mr-2 h-4 w-4" />} Analyser l'image
+          </Button>
+        </div>
+
+        {summary && <p className="text-sm text-muted-foreground">{summary}</p>}
+
+        {imageUrl && draws.map((draw, index) => (
+          <div key={draw.review.index} className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`include-draw-${draw.review.index}`}
+                checked={draw.included}
+                onCheckedChange={checked => updateDraw(index, { included: checked === true })}
+              />
+              <Label htmlFor={`include-draw-${draw.review.index}`}>Tirage n°{draw.review.index + 1}</Label>
+            </div>
+            <ImageRegionPreview src={imageUrl} region={draw.review.region} />
+            {draw.review.messages.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {draw.review.messages.map((message, i) => (
+                  <li key={i} className={`flex items-center ${message.level === 'error' ? 'text-destructive' : 'text-amber-600'}`}>
+                    {message.level === 'error' ? <XCircle className="mr-2 h-4 w-4 shrink-0" /> : <AlertTriangle className="mr-2 h-4 w-4 shrink-0" />}
+                    {message.text}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <Label htmlFor={`draw-name-${draw.review.index}`} className="text-xs">Tirage</Label>
+                <Select value={drawNames.includes(draw.draw_name) ? draw.draw_name : undefined} onValueChange={value => updateDraw(index, { draw_name: value })}>
+                  <SelectTrigger id={`draw-name-${draw.review.index}`}><SelectValue placeholder={`"${draw.draw_name}" inconnu`} /></SelectTrigger>
+                  <SelectContent>{drawNames.map(name => <SelectItem key={`draw-${draw.review.index}-${name}`} value={name}>{name}</SelectItem>)}</SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor={`draw-date-${draw.review.index}`} className="text-xs">Date</Label>
+                <Input id={`draw-date-${draw.review.index}`} type="date" value={draw.date} onChange={e => updateDraw(index, { date: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor={`draw-gagnants-${draw.review.index}`} className="text-xs">Numéros gagnants</Label>
+                <Input id={`draw-gagnants-${draw.review.index}`} value={draw.gagnants} onChange={e => updateDraw(index, { gagnants: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor={`draw-machine-${draw.review.index}`} className="text-xs">Numéros machine (optionnel)</Label>
+                <Input id={`draw-machine-${draw.review.index}`} value={draw.machine} onChange={e => updateDraw(index, { machine: e.target.value })} />
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+      {draws.length > 0 && (
+        <CardFooter className="justify-end">
+          <Button onClick={handlePreview} disabled={!canImport || includedCount === 0 || isPreviewing}>
+            {isPreviewing ? <Loader2 className="animate-spin mr-2 h-4 w-4" /> : <ScanSearch className="mr-2 h-4 w-4" />} Vérifier {includedCount} tirage(s)
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+// src/components/admin/import-preview-panel.tsx
+'use client';
+
+import { useMemo, useState, useTransition } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, GitCompare, Loader2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { applyImportDecisionsAction } from "@/app/admin/actions";
+import type { ImportPreviewRow, ImportResolution, ImportRowStatus } from "@/lib/import-preview";
+import type { AuditSource } from "@/lib/audit-log";
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'Nouveau',
+  identical: 'Identique',
+  conflict: 'Conflit',
+  invalid: 'Invalide',
+};
+
+const STATUS_VARIANTS: Record<ImportRowStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  new: 'default',
+  identical: 'secondary',
+  conflict: 'destructive',
+  invalid: 'outline',
+};
+
+const RESOLUTION_LABELS: Record<ImportResolution, string> = {
+  import: 'Importer',
+  skip: 'Ignorer',
+  keep: 'Conserver l\'existant',
+  overwrite: 'Écraser',
+};
+
+function defaultResolution(status: ImportRowStatus): ImportResolution | null {
+  if (status === 'new') return 'import';
+  if (status === 'conflict') return 'keep'; // Never overwrite stored numbers without an explicit choice
+  return null;
+}
+
+// Numbers are compared position by position: the draw order matters
+function NumberDiff({ numbers, other }: { numbers: number[] | undefined; other: number[] | undefined }) {
+  if (!numbers || numbers.length === 0) return <span className="text-muted-foreground">N/A</span>;
+  return (
+    <span>
+      {numbers.map((n, i) => (
+        <span key={i} className={other && other[i] !== n ? 'font-bold text-destructive' : undefined}>
+          {n}{i < numbers.length - 1 ? ', ' : ''}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+interface ImportPreviewPanelProps {
+  rows: ImportPreviewRow[];
+  source: AuditSource;
+  onApplied: () => void;
+  onCancel: () => void;
+}
+
+export default function ImportPreviewPanel({ rows, source, onApplied, onCancel }: ImportPreviewPanelProps) {
+  const { toast } = useToast();
+  const [isApplying, startApplyTransition] = useTransition();
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [resolutions, setResolutions] = useState<Record<number, ImportResolution>>(() => {
+    const initial: Record<number, ImportResolution> = {};
+    rows.forEach(row => {
+      const resolution = defaultResolution(row.status);
+      if (resolution) initial[row.line] = resolution;
+    });
+    return initial;
+  });
+
+  const counts = useMemo(() => {
+    const byStatus: Record<ImportRowStatus, number> = { new: 0, identical: 0, conflict: 0, invalid: 0 };
+    rows.forEach(row => { byStatus[row.status]++; });
+    return byStatus;
+  }, [rows]);
+
+  const visibleRows = statusFilter === "all" ? rows : rows.filter(row => row.status === statusFilter);
+
+  const setResolutionForStatus = (status: ImportRowStatus, resolution: ImportResolution) => {
+    setResolutions(prev => {
+      const next = { ...prev };
+      rows.filter(row => row.status === status).forEach(row => { next[row.line] = resolution; });
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    const decisions = rows
+      .filter(row => row.incoming && resolutions[row.line])
+      .map(row => ({ incoming: row.incoming!, resolution: resolutions[row.line] }));
+    startApplyTransition(async () => {
+      const result = await applyImportDecisionsAction(decisions, source);
+      if (result.success) {
+        toast({ title: "Importation appliquée", description: result.message });
+        onApplied();
+      } else {
+        toast({ title: "Erreur d'Importation", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center"><GitCompare className="mr-2 h-5 w-5" /> Aperçu de l'Importation</CardTitle>
+        <CardDescription>
+          {counts.new} nouveau(x), {counts.identical} identique(s), {counts.conflict} en conflit, {counts.invalid} invalide(s).
+          Les conflits conservent les résultats existants tant qu'aucune autre résolution n'est choisie.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" disabled={counts.new === 0} onClick={() => setResolutionForStatus('new', 'import')}>Importer tous les nouveaux</Button>
+          <Button variant="outline" size="sm" disabled={counts.new === 0} onClick={() => setResolutionForStatus('new', 'skip')}>Ignorer tous les nouveaux</Button>
+          <Button variant="outline" size="sm" disabled={counts.conflict === 0} onClick={() => setResolutionForStatus('conflict', 'keep')}>Conserver tous les existants</Button>
+          <Button variant="outline" size="sm" disabled={counts.conflict === 0} onClick={() => setResolutionForStatus('conflict', 'overwrite')}>Écraser tous les conflits</Button>
+        </div>
+        <div className="max-w-xs">
+          <Label htmlFor="importPreviewStatus">Afficher</Label>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger id="importPreviewStatus"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Toutes les lignes ({rows.length})</SelectItem>
+              {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{STATUS_LABELS[status]} ({counts[status]})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="overflow-x-auto rounded-md border max-h-[500px]">
+          <Table>
+            <TableHeader className="sticky top-0 bg-card z-10">
+              <TableRow>
+                <TableHead>Ligne</TableHead>
+                <TableHead>Statut</TableHead>
+                <TableHead>Tirage</TableHead>
+                <TableHead>Existant (gagnants / machine)</TableHead>
+                <TableHead>Importé (gagnants / machine)</TableHead>
+                <TableHead>Résolution</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map(row => (
+                <TableRow key={row.line}>
+                  <TableCell>{row.line}</TableCell>
+                  <TableCell><Badge variant={STATUS_VARIANTS[row.status]}>{STATUS_LABELS[row.status]}</Badge></TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {row.incoming ? <>{row.incoming.draw_name}<div className="text-xs text-muted-foreground">{format(parseISO(row.incoming.date), 'dd/MM/yyyy')}</div></> : '—'}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {row.existing ? <><NumberDiff numbers={row.existing.gagnants} other={row.incoming?.gagnants} /><br /><NumberDiff numbers={row.existing.machine} other={row.incoming?.machine} /></> : '—'}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {row.status === 'invalid' ? (
+                      <div className="space-y-1">
+                        <code className="block break-all text-muted-foreground">{JSON.stringify(row.raw)}</code>
+                        {row.errors?.map((error, i) => <p key={i} className="text-destructive">{error}</p>)}
+                      </div>
+                    ) : row.incoming ? (
+                      <><NumberDiff numbers={row.incoming.gagnants} other={row.existing?.gagnants} /><br /><NumberDiff numbers={row.incoming.machine} other={row.existing?.machine} /></>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {row.status === 'new' || row.status === 'conflict' ? (
+                      <Select value={resolutions[row.line]} onValueChange={value => setResolutions(prev => ({ ...prev, [row.line]: value as ImportResolution }))}>
+                        <SelectTrigger className="w-[180px]" aria-label={`Résolution de la ligne ${row.line}`}><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {(row.status === 'new' ? ['import', 'skip'] as const : ['keep', 'overwrite'] as const).map(resolution => (
+                            <SelectItem key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : <span className="text-muted-foreground text-sm">{row.status === 'identical' ? 'Déjà enregistré' : 'Non importable'}</span>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+      <CardFooter className="flex gap-2 justify-end">
+        <Button variant="outline" onClick={onCancel} disabled={isApplying}><X className="mr-2 h-4 w-4" /> Annuler</Button>
+        <Button onClick={handleApply} disabled={isApplying || (counts.new === 0 && counts.conflict === 0)}>
+          {isApplying ? <Loader2 className="animate-spin mr-2 h-4 w-4" /> : <CheckCircle2 className="mr-2 h-4 w-4" />} Appliquer l'importation
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,264 @@
+// src/components/admin/spreadsheet-transfer-card.tsx
+'use client';
+
+import { useState, useTransition } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DownloadCloud, FileSpreadsheet, Loader2, UploadCloud } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { exportLotteryDataToSpreadsheet, importLotteryDataFromSpreadsheet } from "@/app/admin/actions";
+import type { ColumnMapping, CsvDelimiter, SpreadsheetDateFormat, SpreadsheetFormat } from "@/lib/spreadsheet-results";
+import type { ImportPreviewRow } from "@/lib/import-preview";
+import type { LotteryResult } from "@/types/lottery";
+import { getGameFormats } from "@/config/draw-schedule";
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ';': 'Point-virgule (;)',
+  ',': 'Virgule (,)',
+  'tab': 'Tabulation',
+};
+
+// Radix Select values cannot contain a tab character
+const toDelimiter = (value: string): CsvDelimiter => value === 'tab' ? '\t' : value as CsvDelimiter;
+
+type NumbersMode = 'none' | 'single' | 'columns';
+
+// One column per number offers as many columns as the scheduled game drawing the most numbers
+const COLUMN_COUNTS: Record<'gagnants' | 'machine', number> = {
+  gagnants: Math.max(...getGameFormats().map(({ format }) => format.numbersDrawn)),
+  machine: Math.max(...getGameFormats().map(({ format }) => format.machineNumbers)),
+};
+
+function numbersMode(columns: string[]): NumbersMode {
+  if (columns.length === 0) return 'none';
+  return columns.length === 1 ? 'single' : 'columns';
+}
+
+function columnsForMode(mode: NumbersMode, field: 'gagnants' | 'machine'): string[] {
+  if (mode === 'none') return [];
+  return mode === 'single' ? [''] : new Array<string>(COLUMN_COUNTS[field]).fill('');
+}
+
+interface ColumnSelectProps {
+  id: string;
+  label: string;
+  headers: string[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const ColumnSelect: React.FC<ColumnSelectProps> = ({ id, label, headers, value, onChange }) => (
+  <div>
+    <Label htmlFor={id} className="text-xs">{label}</Label>
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger id={id}><SelectValue placeholder="Choisir une colonne" /></SelectTrigger>
+      <SelectContent>{headers.map(header => <SelectItem key={`${id}-${header}`} value={header}>{header}</SelectItem>)}</SelectContent>
+    </Select>
+  </div>
+);
+
+interface SpreadsheetTransferCardProps {
+  drawNames: string[];
+  results: LotteryResult[];
+  canImport: boolean;
+  onPreview: (rows: ImportPreviewRow[]) => void;
+}
+
+export default function SpreadsheetTransferCard({ drawNames, results, canImport, onPreview }: SpreadsheetTransferCardProps) {
+  const { toast } = useToast();
+  const [isImporting, startImportTransition] = useTransition();
+  const [isExporting, startExportTransition] = useTransition();
+
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [importDelimiter, setImportDelimiter] = useState(';');
+  const [importFilterDrawName, setImportFilterDrawName] = useState("all");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  const [exportFormat, setExportFormat] = useState<SpreadsheetFormat>('xlsx');
+  const [exportDelimiter, setExportDelimiter] = useState(';');
+  const [exportDateFormat, setExportDateFormat] = useState<SpreadsheetDateFormat>('dd/MM/yyyy');
+  const [exportFilterDrawName, setExportFilterDrawName] = useState("all");
+
+  const isCsvFile = selectedFile?.name.toLowerCase().endsWith('.csv') ?? false;
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setSelectedFile(event.target.files?.[0] || null);
+    // A new file gets its mapping detected again
+    setHeaders([]);
+    setMapping(null);
+  };
+
+  const runPreview = (mappingToUse: ColumnMapping | null) => {
+    if (!selectedFile) return;
+    const formData = new FormData();
+    formData.append("spreadsheetFile", selectedFile);
+    startImportTransition(async () => {
+      const result = await importLotteryDataFromSpreadsheet(
+        formData,
+        { delimiter: toDelimiter(importDelimiter), mapping: mappingToUse || undefined },
+        importFilterDrawName === "all" ? null : importFilterDrawName
+      );
+      if (result.success) {
+        setHeaders(result.headers || []);
+        setMapping(result.mapping || null);
+        onPreview(result.preview || []);
+        toast({ title: "Aperçu de l'Importation", description: result.message });
+      } else {
+        toast({ title: "Erreur d'Importation", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const updateNumbersColumn = (field: 'gagnants' | 'machine', index: number, value: string) => {
+    setMapping(prev => prev && { ...prev, [field]: prev[field].map((column, i) => i === index ? value : column) });
+  };
+
+  const handleExport = () => {
+    startExportTransition(async () => {
+      const result = await exportLotteryDataToSpreadsheet(
+        results,
+        exportFilterDrawName === "all" ? null : exportFilterDrawName,
+        { format: exportFormat, delimiter: toDelimiter(exportDelimiter), dateFormat: exportDateFormat }
+      );
+      if (result.success && result.fileBase64) {
+        const bytes = Uint8Array.from(atob(result.fileBase64), c => c.charCodeAt(0));
+        const blob = new Blob([bytes], { type: result.mimeType });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = result.fileName || `LotoBonheurInsights_export_admin.${exportFormat}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+        toast({ title: "Exportation Réussie", description: `Fichier ${exportFormat.toUpperCase()} téléchargé.` });
+      } else {
+        toast({ title: "Erreur d'Exportation", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  const renderNumbersMapping = (field: 'gagnants' | 'machine', label: string, allowNone: boolean) => {
+    if (!mapping) return null;
+    const mode = numbersMode(mapping[field]);
+    return (
+      <div className="space-y-2">
+        <Label htmlFor={`mapping-${field}-mode`}>{label}</Label>
+        <Select value={mode} onValueChange={value => setMapping(prev => prev && { ...prev, [field]: columnsForMode(value as NumbersMode, field) })}>
+          <SelectTrigger id={`mapping-${field}-mode`}><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {allowNone && <SelectItem value="none">Aucune colonne</SelectItem>}
+            <SelectItem value="single">Une colonne (ex: 12-34-56-78-90)</SelectItem>
+            <SelectItem value="columns">Une colonne par numéro</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+          {mapping[field].map((column, i) => (
+            <ColumnSelect key={`${field}-${i}`} id={`mapping-${field}-${i}`} label={mode === 'single' ? 'Colonne' : `N° ${i + 1}`} headers={headers} value={column} onChange={value => updateNumbersColumn(field, i, value)} />
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader><CardTitle className="flex items-center"><FileSpreadsheet className="mr-2" />Importer/Exporter (CSV / Excel)</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="spreadsheetFile">Importer un fichier CSV ou Excel (.xlsx)</Label>
+          <Input id="spreadsheetFile" type="file" accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" onChange={handleFileChange} className="mt-1" />
+          <p className="text-xs text-muted-foreground mt-1">
+            La première ligne doit contenir les en-têtes (ex: Tirage; Date; Gagnant 1 … Gagnant 5; Machine 1 … Machine 5).
+            Les dates au format JJ/MM/AAAA sont acceptées, ainsi que les nombres écrits avec une virgule décimale (ex: 12,0).
+            Pour Excel, seule la première feuille est lue.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="importDelimiter">Séparateur CSV</Label>
+            <Select value={importDelimiter} onValueChange={setImportDelimiter} disabled={!isCsvFile}>
+              <SelectTrigger id="importDelimiter"><SelectValue /></SelectTrigger>
+              <SelectContent>{Object.entries(DELIMITER_LABELS).map(([value, label]) => <SelectItem key={`import-${value}`} value={value}>{label}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="importFilterDrawNameSpreadsheet">Filtrer par catégorie (Optionnel)</Label>
+            <Select value={importFilterDrawName} onValueChange={setImportFilterDrawName}>
+              <SelectTrigger id="importFilterDrawNameSpreadsheet"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les catégories du fichier</SelectItem>
+                {drawNames.map(name => <SelectItem key={`import-sheet-${name}`} value={name}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button onClick={() => runPreview(null)} disabled={isImporting || !selectedFile || !canImport} className="w-full">
+          {isImporting ? <Loader2 className="animate-spin mr-2" /> : <UploadCloud className="mr-2" />} Prévisualiser l'importation
+        </Button>
+
+        {mapping && headers.length > 0 && (
+          <div className="space-y-4 rounded-md border p-4">
+            <p className="text-sm font-medium">Correspondance des colonnes</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <ColumnSelect id="mapping-draw_name" label="Nom du tirage" headers={headers} value={mapping.draw_name} onChange={value => setMapping(prev => prev && { ...prev, draw_name: value })} />
+              <ColumnSelect id="mapping-date" label="Date" headers={headers} value={mapping.date} onChange={value => setMapping(prev => prev && { ...prev, date: value })} />
+            </div>
+            {renderNumbersMapping('gagnants', 'Numéros gagnants', false)}
+            {renderNumbersMapping('machine', 'Numéros machine', true)}
+            <Button variant="outline" onClick={() => runPreview(mapping)} disabled={isImporting || !canImport}>
+              {isImporting ? <Loader2 className="animate-spin mr-2 h-4 w-4" /> : <UploadCloud className="mr-2 h-4 w-4" />} Prévisualiser avec cette correspondance
+            </Button>
+          </div>
+        )}
+
+        <hr className="my-4" />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="exportFormat">Format</Label>
+            <Select value={exportFormat} onValueChange={value => setExportFormat(value as SpreadsheetFormat)}>
+              <SelectTrigger id="exportFormat"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="exportFilterDrawNameSpreadsheet">Exporter par catégorie (Optionnel)</Label>
+            <Select value={exportFilterDrawName} onValueChange={setExportFilterDrawName}>
+              <SelectTrigger id="exportFilterDrawNameSpreadsheet"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les catégories</SelectItem>
+                {drawNames.map(name => <SelectItem key={`export-sheet-${name}`} value={name}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="exportDelimiter">Séparateur CSV</Label>
+            <Select value={exportDelimiter} onValueChange={setExportDelimiter} disabled={exportFormat !== 'csv'}>
+              <SelectTrigger id="exportDelimiter"><SelectValue /></SelectTrigger>
+              <SelectContent>{Object.entries(DELIMITER_LABELS).map(([value, label]) => <SelectItem key={`export-${value}`} value={value}>{label}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="exportDateFormat">Format de date</Label>
+            <Select value={exportDateFormat} onValueChange={value => setExportDateFormat(value as SpreadsheetDateFormat)}>
+              <SelectTrigger id="exportDateFormat"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dd/MM/yyyy">JJ/MM/AAAA</SelectItem>
+                <SelectItem value="yyyy-MM-dd">AAAA-MM-JJ</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button onClick={handleExport} disabled={isExporting || results.length === 0} className="w-full">
+          {isExporting ? <Loader2 className="animate-spin mr-2" /> : <DownloadCloud className="mr-2" />} Exporter {exportFormat === 'csv' ? 'CSV' : 'Excel'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import type { LotteryResult, PaginatedResults } from '@/types/lottery';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarClock, CalendarDays, History, RefreshCw, Timer } from 'lucide-react';
+import LoadingSpinner from '@/components/loading-spinner';
+import ErrorMessage from '@/components/error-message';
+import { getBallColorClass } from '@/components/lottery-result-card';
+import { getNextDraw, getScheduleOn, getScheduledDraws, slugifyDrawName, SPECIAL_DRAWS } from '@/config/draw-schedule';
+import { formatDrawDate, shiftDrawDate, toDrawDate } from '@/lib/draw-time';
+
+// Every category is drawn weekly, so two weeks of results hold the latest one of each
+const RECENT_DAYS = 14;
+
+function formatDay(date: string): string {
+  return formatDrawDate(date, { weekday: 'long', day: 'numeric', month: 'long' });
+}
+
+// "2 j 03:15:42" or "03:15:42"
+function formatCountdown(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86_400);
+  const clock = [Math.floor(totalSeconds / 3600) % 24, Math.floor(totalSeconds / 60) % 60, totalSeconds % 60]
+    .map(n => String(n).padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days} j ${clock}` : clock;
+}
+
+function Balls({ numbers }: { numbers: number[] }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {numbers.map((num, index) => (
+        <Badge key={`ball-${index}`} className={`px-2 py-0.5 rounded-md ${getBallColorClass(num)}`}>{num}</Badge>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Home page dashboard: countdown to the next draw, today's draws with the results published so
+ * far, and the latest result of each category of the current schedule.
+ */
+export default function HomeDashboard() {
+  // Null until mounted: the countdown depends on the visitor's clock, not the server's
+  const [now, setNow] = useState<Date | null>(null);
+  const [results, setResults] = useState<LotteryResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const fetchRecentResults = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const from = shiftDrawDate(toDrawDate(new Date()), -(RECENT_DAYS - 1));
+      const response = await fetch(`/api/results?from=${from}`);
+      if (!response.ok) {
+        let errorMsg = `Erreur HTTP: ${response.status} ${response.statusText}`;
+        try {
+          const errorData = await response.json();
+          errorMsg = errorData.error || errorMsg;
+        } catch (e) { /* Keep the HTTP status */ }
+        throw new Error(errorMsg);
+      }
+      const data: PaginatedResults = await response.json();
+      setResults(data.items);
+    } catch (err: any) {
+      setError(err.message || 'Impossible de récupérer les derniers résultats.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecentResults();
+  }, [fetchRecentResults]);
+
+  const today = now ? toDrawDate(now) : null;
+  const nextDraw = useMemo(() => (now ? getNextDraw(now) : undefined), [now]);
+  const todaysDraws = useMemo(() => (today ? getScheduledDraws(today) : []), [today]);
+
+  // Categories of the schedule in effect today, with their newest result (results come newest first)
+  const latestByCategory = useMemo(() => {
+    if (!today) return [];
+    const categories = new Set<string>();
+    Object.values(getScheduleOn(today)).forEach(day => Object.values(day).forEach(name => categories.add(name)));
+    SPECIAL_DRAWS.filter(draw => draw.date === today).forEach(draw => categories.add(draw.name));
+    return Array.from(categories)
+      .sort()
+      .map(name => ({ name, result: results.find(r => r.draw_name === name) }));
+  }, [today, results]);
+
+  if (!now || !today) {
+    return <LoadingSpinner message="Chargement du programme des tirages..." />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-primary text-primary-foreground">
+        <CardHeader>
+          <CardTitle className="flex items-center text-2xl"><Timer className="mr-2 h-6 w-6" /> Prochain tirage</CardTitle>
+          <CardDescription className="text-primary-foreground/80">Heure d'Abidjan (GMT)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {nextDraw ? (
+            <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+              <div>
+                <p className="text-3xl font-bold">{nextDraw.name}</p>
+                <p className="capitalize">{formatDay(nextDraw.date)} à {nextDraw.time}{nextDraw.special ? ' (tirage spécial)' : ''}</p>
+              </div>
+              <p className="text-4xl font-mono font-bold tabular-nums" aria-live="off">
+                {formatCountdown(nextDraw.startsAt.getTime() - now.getTime())}
+              </p>
+            </div>
+          ) : (
+            <p>Aucun tirage programmé dans les sept prochains jours.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && <ErrorMessage title="Erreur de chargement des résultats" message={error} />}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center"><CalendarDays className="mr-2 h-5 w-5" /> Au programme aujourd'hui</CardTitle>
+            <CardDescription className="capitalize">{formatDay(today)}</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchRecentResults} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} /> Actualiser
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {todaysDraws.length === 0 ? (
+            <p className="text-center py-6 text-muted-foreground">Aucun tirage aujourd'hui.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Heure</TableHead>
+                    <TableHead>Tirage</TableHead>
+                    <TableHead>Numéros gagnants</TableHead>
+                    <TableHead>Numéros machine</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {todaysDraws.map(draw => {
+                    const result = results.find(r => r.draw_name === draw.name && r.date === today);
+                    const hasStarted = draw.startsAt <= now;
+                    return (
+                      <TableRow key={`${draw.time}-${draw.name}`}>
+                        <TableCell className="font-medium whitespace-nowrap">{draw.time}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          <Link href={`/draw/${slugifyDrawName(draw.name)}/donnees`} className="hover:underline">{draw.name}</Link>
+                          {draw.special && <Badge variant="outline" className="ml-2">Spécial</Badge>}
+                        </TableCell>
+                        {result ? (
+                          <>
+                            <TableCell><Balls numbers={result.gagnants} /></TableCell>
+                            <TableCell>{result.machine.length > 0 ? <Balls numbers={result.machine} /> : <span className="text-muted-foreground">N/A</span>}</TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={2} className="text-muted-foreground">
+                            {hasStarted ? (isLoading ? 'Chargement...' : 'En attente des résultats') : 'À venir'}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center"><History className="mr-2 h-5 w-5" /> Derniers résultats par catégorie</CardTitle>
+          <CardDescription>Le résultat le plus récent de chaque tirage des {RECENT_DAYS} derniers jours.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && results.length === 0 ? <LoadingSpinner /> : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {latestByCategory.map(({ name, result }) => (
+                <Link key={name} href={`/draw/${slugifyDrawName(name)}/donnees`} className="rounded-md border p-3 space-y-2 hover:bg-muted/50 transition-colors">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-primary">{name}</span>
+                    {result && (
+                      <span className="flex items-center text-xs text-muted-foreground whitespace-nowrap">
+                        <CalendarClock className="mr-1 h-3 w-3" />
+                        {formatDrawDate(result.date, { day: '2-digit', month: '2-digit' })}
+                      </span>
+                    )}
+                  </div>
+                  {result ? <Balls numbers={result.gagnants} /> : <p className="text-sm text-muted-foreground">Aucun résultat récent.</p>}
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import type { LucideIcon } from 'lucide-react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useEffect, useState, useCallback } from 'react'; 
-import { BarChart3, Home, Layers, Lightbulb, ShieldCheck, Settings, CalendarDays, FileText } from 'lucide-react';
+import { BarChart3, Home, Layers, Lightbulb, ShieldCheck, Settings, CalendarDays, FileText, FlaskConical, ClipboardCheck } from 'lucide-react';
 
 import { DRAW_SCHEDULE, slugifyDrawName } from '@/config/draw-schedule'; 
 import { cn } from '@/lib/utils';
@@ -42,6 +42,8 @@ const drawSubNavItems: SubNavItem[] = [
   { label: 'Statistiques', hrefPart: 'statistiques', icon: BarChart3 },
   { label: 'Stats Détaillées', hrefPart: 'statistiques-detaillees', icon: FileText },
   { label: 'Prédiction', hrefPart: 'prediction', icon: ShieldCheck },
+  { label: 'Backtest', hrefPart: 'backtest', icon: FlaskConical },
+  { label: 'Suivi Prédictions', hrefPart: 'suivi-predictions', icon: ClipboardCheck },
 ];
 
 const orderedDays = [
@@ -5,12 +5,14 @@ import type { LotteryResult } from '@/types/lottery';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { CalendarDays, Ticket, Cog, Award } from 'lucide-react'; 
+import { formatDrawDate } from '@/lib/draw-time';
 
 interface LotteryResultCardProps {
   result: LotteryResult;
 }
 
-const getBallColorClass = (number: number): string => {
+// Ball colour by tens
+export const getBallColorClass = (number: number): string => {
   if (number >= 1 && number <= 9) { // Blanc
     return 'bg-white text-black';
   } else if (number >= 10 && number <= 19) { // Bleu clair
@@ -34,18 +36,6 @@ const getBallColorClass = (number: number): string => {
 };
 
 export default function LotteryResultCard({ result }: LotteryResultCardProps) {
-  const formatDate = (dateString: string) => {
-    try {
-      return new Date(dateString).toLocaleDateString('fr-FR', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-      });
-    } catch (error) {
-      return dateString; 
-    }
-  };
-
   const hasMachineNumbers = result.machine && result.machine.length > 0;
 
   return (
@@ -57,7 +47,7 @@ export default function LotteryResultCard({ result }: LotteryResultCardProps) {
         </CardTitle>
         <CardDescription className="flex items-center text-sm">
           <CalendarDays className="mr-2 h-4 w-4" />
-          {formatDate(result.date)}
+          {formatDrawDate(result.date)}
         </CardDescription>
       </CardHeader>
       <CardContent className="flex-grow space-y-4">
@@ -0,0 +1,23 @@
+'use client';
+
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { NUMBER_SOURCES, NUMBER_SOURCE_LABELS, type NumberSource } from '@/lib/number-source';
+
+interface NumberSourceToggleProps {
+  value: NumberSource;
+  onChange: (source: NumberSource) => void;
+  disabled?: boolean;
+}
+
+// Switches an analysis between winning numbers, machine numbers or both
+export default function NumberSourceToggle({ value, onChange, disabled }: NumberSourceToggleProps) {
+  return (
+    <Tabs value={value} onValueChange={v => onChange(v as NumberSource)}>
+      <TabsList>
+        {NUMBER_SOURCES.map(source => (
+          <TabsTrigger key={source} value={source} disabled={disabled}>{NUMBER_SOURCE_LABELS[source]}</TabsTrigger>
+        ))}
+      </TabsList>
+    </Tabs>
+  );
+}
@@ -1,3 +1,5 @@
+import { parseDrawTime, shiftDrawDate, toDrawDate, toDrawInstant } from '@/lib/draw-time';
+
 export interface DrawTimeDetails {
   [time: string]: string; // e.g., '10H': 'Reveil'
 }
@@ -6,6 +8,21 @@ export interface DrawSchedule {
   [day: string]: DrawTimeDetails; // e.g., 'Lundi': { '10H': 'Reveil', ... }
 }
 
+/** A weekly schedule and the days it applied to. Both bounds are inclusive, YYYY-MM-DD. */
+export interface ScheduleVersion {
+  effectiveFrom?: string; // Absent for the first known schedule
+  effectiveUntil?: string; // Absent while it is in effect
+  days: DrawSchedule;
+}
+
+/** A one-off draw outside the weekly schedule, e.g. a holiday draw. */
+export interface SpecialDraw {
+  date: string; // YYYY-MM-DD
+  time: string; // e.g. '20H'
+  name: string;
+}
+
+// The latest weekly schedule
 export const DRAW_SCHEDULE: DrawSchedule = {
   Lundi: { '10H': 'Reveil', '13H': 'Etoile', '16H': 'Akwaba', '18H15': 'Monday Special' },
   Mardi: { '10H': 'La Matinale', '13H': 'Emergence', '16H': 'Sika', '18H15': 'Lucky Tuesday' },
@@ -16,12 +33,57 @@ export const DRAW_SCHEDULE: DrawSchedule = {
   Dimanche: { '10H': 'Benediction', '13H': 'Prestige', '16H': 'Awale', '18H15': 'Espoir' },
 };
 
-// Function to get a flat list of unique draw names (categories)
+// Oldest first. When the operator renames or reschedules draws, close the current version with
+// `effectiveUntil` and append the new schedule: draws of the older versions stay valid categories.
+export const SCHEDULE_VERSIONS: ScheduleVersion[] = [
+  { days: DRAW_SCHEDULE },
+];
+
+export const SPECIAL_DRAWS: SpecialDraw[] = [];
+
+// Other names a draw is published under (renamed draws, spellings seen on result sheets), mapped to
+// the category they belong to. Case, accents and spacing are ignored: "REVEIL" already finds "Reveil".
+export const DRAW_NAME_ALIASES: Record<string, string> = {};
+
+/** How a game draws its numbers. Numbers run from 1 to `maxNumber`. */
+export interface GameFormat {
+  id: string; // e.g. '5/90'
+  numbersDrawn: number; // Winning numbers per draw, also the size of a prediction
+  maxNumber: number;
+  machineNumbers: number; // Machine numbers per draw when they are published, 0 if the game has none
+}
+
+export const LOTO_BONHEUR_FORMAT: GameFormat = { id: '5/90', numbersDrawn: 5, maxNumber: 90, machineNumbers: 5 };
+
+// Categories playing another game, e.g. { 'Super Six': { id: '6/49', numbersDrawn: 6, maxNumber: 49, machineNumbers: 0 } };
+// every other scheduled draw is a Loto Bonheur 5/90 draw
+const DRAW_GAME_FORMATS: Record<string, GameFormat> = {};
+
+export function getGameFormat(drawName: string): GameFormat {
+  return DRAW_GAME_FORMATS[drawName] ?? LOTO_BONHEUR_FORMAT;
+}
+
+// Distinct formats of the scheduled draws, each with the categories playing it
+export function getGameFormats(): { format: GameFormat; drawNames: string[] }[] {
+  const byId = new Map<string, { format: GameFormat; drawNames: string[] }>();
+  getUniqueDrawNames().forEach(drawName => {
+    const format = getGameFormat(drawName);
+    const entry = byId.get(format.id) ?? { format, drawNames: [] };
+    entry.drawNames.push(drawName);
+    byId.set(format.id, entry);
+  });
+  return Array.from(byId.values());
+}
+
+// Function to get a flat list of unique draw names (categories): every schedule version and special draw
 export function getUniqueDrawNames(): string[] {
   const drawNames = new Set<string>();
-  Object.values(DRAW_SCHEDULE).forEach(daySchedule => {
-    Object.values(daySchedule).forEach(name => drawNames.add(name));
+  SCHEDULE_VERSIONS.forEach(version => {
+    Object.values(version.days).forEach(daySchedule => {
+      Object.values(daySchedule).forEach(name => drawNames.add(name));
+    });
   });
+  SPECIAL_DRAWS.forEach(draw => drawNames.add(draw.name));
   return Array.from(drawNames).sort();
 }
 
@@ -30,8 +92,120 @@ export function slugifyDrawName(name: string): string {
   return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
 }
 
-// Function to find a draw name by its slug
+// Function to find a draw name by its slug; the slug of an alias leads to its category
 export function getDrawNameBySlug(slug: string): string | undefined {
   const allDrawNames = getUniqueDrawNames();
-  return allDrawNames.find(name => slugifyDrawName(name) === slug);
+  return allDrawNames.find(name => slugifyDrawName(name) === slug)
+    ?? Object.entries(DRAW_NAME_ALIASES).find(([alias]) => slugifyDrawName(alias) === slug)?.[1];
+}
+
+function normalizeDrawName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * The category a published draw name belongs to, ignoring case, accents and spacing, through the
+ * configured aliases and `extraAliases` (e.g. the ones mapped by an admin). Undefined when unknown.
+ */
+export function resolveDrawName(rawName: string, extraAliases: Record<string, string> = {}): string | undefined {
+  const normalized = normalizeDrawName(rawName);
+  if (!normalized) return undefined;
+  const drawNames = getUniqueDrawNames();
+  const direct = drawNames.find(name => normalizeDrawName(name) === normalized);
+  if (direct) return direct;
+  const alias = Object.entries({ ...DRAW_NAME_ALIASES, ...extraAliases }).find(([name]) => normalizeDrawName(name) === normalized);
+  return alias && drawNames.includes(alias[1]) ? alias[1] : undefined;
+}
+
+const WEEKDAY_NAMES = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi']; // By Date.getUTCDay()
+
+// Weekly schedule in effect on a date (YYYY-MM-DD); empty when no version covers it
+export function getScheduleOn(date: string): DrawSchedule {
+  const version = SCHEDULE_VERSIONS.find(v => (!v.effectiveFrom || v.effectiveFrom <= date) && (!v.effectiveUntil || date <= v.effectiveUntil));
+  return version?.days ?? {};
+}
+
+/** Draws held on a date (YYYY-MM-DD): its weekday's slots in the schedule of the day, then special draws. */
+export function getDrawsOn(date: string): { time: string; name: string; special: boolean }[] {
+  const weekday = WEEKDAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  return [
+    ...Object.entries(getScheduleOn(date)[weekday] ?? {}).map(([time, name]) => ({ time, name, special: false })),
+    ...SPECIAL_DRAWS.filter(d => d.date === date).map(d => ({ time: d.time, name: d.name, special: true })),
+  ];
+}
+
+// Slot time of a category's draw on a date. A stored draw may fall outside the schedule (a moved or
+// extra draw): the category's usual time in the schedule of that day is used then.
+export function getDrawTime(drawName: string, date: string): string | undefined {
+  const slot = getDrawsOn(date).find(d => d.name === drawName);
+  if (slot) return slot.time;
+  for (const times of Object.values(getScheduleOn(date))) {
+    const usual = Object.entries(times).find(([, name]) => name === drawName);
+    if (usual) return usual[0];
+  }
+  return undefined;
+}
+
+// When a category's draw on a date starts; Abidjan midnight when its time is unknown
+export function getDrawInstant(drawName: string, date: string): Date {
+  return toDrawInstant(date, getDrawTime(drawName, date));
+}
+
+/**
+ * Chronological order of draws: by date, then by slot within the day (10H, 13H, 16H, 18H15), then
+ * by name. Draws whose time is unknown come last in their day.
+ */
+export function compareDraws(a: { draw_name: string; date: string }, b: { draw_name: string; date: string }): number {
+  const dateComparison = a.date.localeCompare(b.date);
+  if (dateComparison !== 0) return dateComparison;
+  const minutes = (draw: { draw_name: string; date: string }) => {
+    const time = getDrawTime(draw.draw_name, draw.date);
+    return (time ? parseDrawTime(time) : undefined) ?? Number.MAX_SAFE_INTEGER;
+  };
+  return minutes(a) - minutes(b) || a.draw_name.localeCompare(b.draw_name);
+}
+
+/** A draw on a given day, with its start time. */
+export interface ScheduledDraw {
+  date: string; // YYYY-MM-DD
+  time: string; // e.g. '18H15'
+  name: string;
+  special: boolean;
+  startsAt: Date;
+}
+
+// Draws held on a date in the order they start; slots with an unreadable time are left out
+export function getScheduledDraws(date: string): ScheduledDraw[] {
+  return getDrawsOn(date)
+    .filter(draw => parseDrawTime(draw.time) !== undefined)
+    .map(draw => ({ ...draw, date, startsAt: toDrawInstant(date, draw.time) }))
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+// First draw of any category starting after `now`, within a week
+export function getNextDraw(now: Date = new Date()): ScheduledDraw | undefined {
+  const today = toDrawDate(now);
+  for (let offset = 0; offset <= 7; offset++) {
+    const next = getScheduledDraws(shiftDrawDate(today, offset)).find(draw => draw.startsAt > now);
+    if (next) return next;
+  }
+  return undefined;
+}
+
+// Next draw of a category after `now`, as YYYY-MM-DD, within a week for weekly draws
+export function getNextDrawDate(drawName: string, now: Date = new Date()): string | undefined {
+  const today = toDrawDate(now);
+  const isAfterNow = (date: string, time: string) => parseDrawTime(time) !== undefined && toDrawInstant(date, time) > now;
+
+  const special = SPECIAL_DRAWS
+    .filter(d => d.name === drawName && isAfterNow(d.date, d.time))
+    .map(d => d.date)
+    .sort()[0];
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = shiftDrawDate(today, offset);
+    if (special && special <= date) return special;
+    const slot = getDrawsOn(date).find(d => !d.special && d.name === drawName);
+    if (slot && isAfterNow(date, slot.time)) return date;
+  }
+  return special;
 }
@@ -0,0 +1,100 @@
+// src/lib/audit-log.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { LotteryResult } from '@/types/lottery';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditSource = 'manual' | 'json-import' | 'spreadsheet-import' | 'image-analysis' | 'scraper-sync';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // ISO
+  actor: string; // Admin username, or "system" for scheduled syncs
+  action: AuditAction;
+  source: AuditSource;
+  drawName: string;
+  date: string; // Draw date, YYYY-MM-DD
+  before: LotteryResult | null; // null for a create
+  after: LotteryResult | null; // null for a delete
+  batchId?: string; // Shared by the entries of one import, category reset or sync run
+  revertOf?: string; // Id of the entry this change reverted
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'timestamp' | 'drawName' | 'date'>;
+
+export interface AuditLogFilter {
+  drawName?: string;
+  date?: string;
+  actor?: string;
+  action?: AuditAction;
+  source?: AuditSource;
+  from?: string; // Inclusive, compared with the entry timestamp (YYYY-MM-DD or ISO)
+  to?: string; // Inclusive
+  limit?: number;
+}
+
+const DEFAULT_AUDIT_LOG_PATH = path.join(process.cwd(), 'data', 'audit-log.jsonl');
+
+function auditLogPath(): string {
+  return process.env.AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG_PATH;
+}
+
+export function newAuditBatchId(): string {
+  return randomUUID();
+}
+
+let appendQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Appends entries to the audit log, one JSON object per line. Existing lines are never
+ * rewritten; a revert is recorded as a new entry pointing at the reverted one.
+ */
+export function appendAuditEntries(entries: NewAuditEntry[]): Promise<AuditEntry[]> {
+  const timestamp = new Date().toISOString();
+  const stored: AuditEntry[] = entries.map(entry => {
+    const row = (entry.after || entry.before)!;
+    return { id: randomUUID(), timestamp, drawName: row.draw_name, date: row.date, ...entry };
+  });
+  if (stored.length === 0) return Promise.resolve(stored);
+
+  const run = appendQueue.then(async () => {
+    const filePath = auditLogPath();
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, stored.map(e => JSON.stringify(e)).join('\n') + '\n', 'utf-8');
+    return stored;
+  });
+  appendQueue = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+async function readAllEntries(): Promise<AuditEntry[]> {
+  try {
+    const content = await fs.readFile(auditLogPath(), 'utf-8');
+    return content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as AuditEntry);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Matching entries, newest first.
+export async function readAuditLog(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+  // Date-only bounds cover the whole day
+  const to = filter.to && filter.to.length === 10 ? `${filter.to}T23:59:59.999Z` : filter.to;
+  const entries = (await readAllEntries()).filter(e =>
+    (!filter.drawName || e.drawName === filter.drawName) &&
+    (!filter.date || e.date === filter.date) &&
+    (!filter.actor || e.actor === filter.actor) &&
+    (!filter.action || e.action === filter.action) &&
+    (!filter.source || e.source === filter.source) &&
+    (!filter.from || e.timestamp >= filter.from) &&
+    (!to || e.timestamp <= to)
+  ).reverse();
+  return filter.limit ? entries.slice(0, filter.limit) : entries;
+}
+
+export async function getAuditEntry(id: string): Promise<AuditEntry | undefined> {
+  return (await readAllEntries()).find(e => e.id === id);
+}
@@ -0,0 +1,51 @@
+// src/lib/audit-revert.ts
+import { appendAuditEntries, type AuditEntry } from '@/lib/audit-log';
+import { getResultsRepository, type ResultsRepository } from '@/lib/results-repository';
+import type { LotteryResult } from '@/types/lottery';
+
+// Thrown when the stored row no longer matches what the audited change left behind.
+export class AuditRevertError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditRevertError';
+  }
+}
+
+function sameResult(a: LotteryResult | undefined | null, b: LotteryResult | undefined | null): boolean {
+  if (!a || !b) return !a && !b;
+  return a.draw_name === b.draw_name &&
+    a.date === b.date &&
+    a.gagnants.join(',') === b.gagnants.join(',') &&
+    (a.machine || []).join(',') === (b.machine || []).join(',');
+}
+
+/**
+ * Undoes a single audited change and records the undo as a new audit entry.
+ * A change is only reverted while the row is still exactly as that change left it;
+ * otherwise later changes would be silently overwritten.
+ */
+export async function revertAuditEntry(
+  entry: AuditEntry,
+  actor: string,
+  repository: ResultsRepository = getResultsRepository()
+): Promise<AuditEntry> {
+  const leftBehind = entry.after;
+  const key = leftBehind ?? entry.before;
+  if (!key) {
+    throw new AuditRevertError(`L'entrée ${entry.id} ne contient aucun résultat à restaurer.`);
+  }
+
+  // The check and the write happen in one repository step: a concurrent edit cannot slip in between
+  const { before, after } = await repository.replace(key, current => {
+    if (!sameResult(current, leftBehind)) {
+      throw new AuditRevertError(
+        `Le résultat ${entry.drawName} du ${entry.date} a été modifié depuis ce changement. Annulez d'abord les changements plus récents.`
+      );
+    }
+    return entry.before;
+  });
+  const action: AuditEntry['action'] = entry.action === 'create' ? 'delete' : entry.action === 'delete' ? 'create' : 'update';
+
+  const [revertEntry] = await appendAuditEntries([{ action, before, after, actor, source: 'manual', revertOf: entry.id }]);
+  return revertEntry;
+}
@@ -0,0 +1,32 @@
+// src/lib/auth/server.ts
+import { cookies } from 'next/headers';
+import { getAuthSecret, hasRole, verifySessionToken, SESSION_COOKIE_NAME, type Role, type Session } from '@/lib/auth/session';
+
+const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'lecteur',
+  editor: 'éditeur',
+  admin: 'administrateur',
+};
+
+// Session of the current request (server components, route handlers and server actions).
+export async function getCurrentSession(): Promise<Session | null> {
+  const secret = getAuthSecret();
+  if (!secret) return null;
+  const cookieStore = await cookies();
+  return verifySessionToken(cookieStore.get(SESSION_COOKIE_NAME)?.value, secret);
+}
+
+/**
+ * Guard for server actions. The middleware only protects page navigation, while server actions
+ * can be invoked directly, so every action checks the role again.
+ */
+export async function authorizeAction(required: Role): Promise<{ success: true; session: Session } | { success: false; error: string }> {
+  const session = await getCurrentSession();
+  if (!session) {
+    return { success: false, error: 'Session expirée ou absente. Veuillez vous reconnecter.' };
+  }
+  if (!hasRole(session.role, required)) {
+    return { success: false, error: `Action réservée au rôle ${ROLE_LABELS[required]} (votre rôle: ${ROLE_LABELS[session.role]}).` };
+  }
+  return { success: true, session };
+}
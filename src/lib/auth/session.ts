@@ -0,0 +1,89 @@
+// src/lib/auth/session.ts
+// Signed session tokens. Only Web Crypto is used so the middleware (Edge runtime) can verify them too.
+
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+export const SESSION_COOKIE_NAME = 'lbi_session';
+export const SESSION_DURATION_SECONDS = 8 * 60 * 60;
+
+export interface Session {
+  username: string;
+  role: Role;
+  expiresAt: number; // Unix time, seconds
+}
+
+// viewer < editor < admin: each role can do everything the previous one can
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+// Sessions cannot be signed or verified without AUTH_SECRET; callers treat that as "not logged in".
+export function getAuthSecret(): string | null {
+  const secret = process.env.AUTH_SECRET;
+  return secret && secret.length >= 32 ? secret : null;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+// Compares in constant time so the signature cannot be guessed byte by byte
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/** Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the payload part). */
+export async function createSessionToken(username: string, role: Role, secret: string): Promise<string> {
+  const session: Session = {
+    username,
+    role,
+    expiresAt: Math.floor(Date.now() / 1000) + SESSION_DURATION_SECONDS,
+  };
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(session)));
+  return `${payload}.${await sign(payload, secret)}`;
+}
+
+// Resolves to null for a missing, tampered, malformed or expired token.
+export async function verifySessionToken(token: string | undefined, secret: string): Promise<Session | null> {
+  if (!token) return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !safeEqual(signature, await sign(payload, secret))) {
+    return null;
+  }
+  try {
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (typeof session.username !== 'string' || !isRole(session.role) || typeof session.expiresAt !== 'number') {
+      return null;
+    }
+    if (session.expiresAt <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return { username: session.username, role: session.role, expiresAt: session.expiresAt };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,72 @@
+// src/lib/auth/users.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { Role } from '@/lib/auth/session';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export interface AdminUser {
+  username: string;
+  passwordHash: string; // "scrypt$<salt hex>$<key hex>"
+  role: Role;
+}
+
+interface UsersFile {
+  version: 1;
+  users: AdminUser[];
+}
+
+const DEFAULT_USERS_PATH = path.join(process.cwd(), 'data', 'admin-users.json');
+
+function usersPath(): string {
+  return process.env.ADMIN_USERS_PATH || DEFAULT_USERS_PATH;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [algorithm, saltHex, keyHex] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !saltHex || !keyHex) return false;
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export async function readAdminUsers(): Promise<AdminUser[]> {
+  try {
+    const content = await fs.readFile(usersPath(), 'utf-8');
+    return (JSON.parse(content) as UsersFile).users || [];
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Creates the user, or replaces the password and role of an existing one.
+export async function upsertAdminUser(username: string, password: string, role: Role): Promise<void> {
+  const users = (await readAdminUsers()).filter(u => u.username !== username);
+  users.push({ username, passwordHash: await hashPassword(password), role });
+  const data: UsersFile = { version: 1, users };
+  const filePath = usersPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+// Resolves to the user when the credentials match, null otherwise.
+export async function authenticateAdminUser(username: string, password: string): Promise<AdminUser | null> {
+  const user = (await readAdminUsers()).find(u => u.username === username);
+  if (!user) {
+    // Hash anyway so unknown usernames take as long as wrong passwords
+    await hashPassword(password);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
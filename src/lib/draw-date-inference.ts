@@ -0,0 +1,95 @@
+// src/lib/draw-date-inference.ts
+import { format, differenceInCalendarDays } from 'date-fns';
+import { fr } from 'date-fns/locale';
+
+export interface InferredDrawDate {
+  date: string; // YYYY-MM-DD
+  weekdayMismatch: boolean; // True when the weekday in the source string disagrees with the computed date
+  sourceWeekday?: string;
+  computedWeekday: string;
+}
+
+function normalizeWeekday(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  // Rejects impossible days such as 31/02 instead of letting Date roll them over
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+interface DateParts {
+  day: number;
+  month: number;
+  year?: number;
+  index: number; // Position of the date in the raw string (anything before it is the weekday)
+}
+
+// Accepts "dd/MM", "dd/MM/yy", "dd/MM/yyyy" and ISO "yyyy-MM-dd" (archives, manual dumps). Spaces
+// around the slashes are allowed, as OCR reads "06 / 05" in screenshots.
+function parseDateParts(rawDate: string): DateParts | null {
+  const isoMatch = rawDate.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (isoMatch) {
+    return { day: parseInt(isoMatch[3], 10), month: parseInt(isoMatch[2], 10), year: parseInt(isoMatch[1], 10), index: isoMatch.index ?? 0 };
+  }
+  const match = rawDate.match(/(\d{1,2})\s*\/\s*(\d{1,2})(?:\s*\/\s*(\d{4}|\d{2}))?/);
+  if (!match) return null;
+  let year: number | undefined = undefined;
+  if (match[3]) {
+    year = parseInt(match[3], 10);
+    if (match[3].length === 2) year += 2000;
+  }
+  return { day: parseInt(match[1], 10), month: parseInt(match[2], 10), year, index: match.index ?? 0 };
+}
+
+/**
+ * Creates a stateful parser for the "dimanche 04/05" dates of the lotobonheur.ci API.
+ *
+ * The strings carry no year, so dates must be fed in page order: each date gets the year that
+ * places it closest to the previously inferred one (the reference date for the first call).
+ * Walking back from early January into December therefore decrements the year, and
+ * multi-year histories keep their real years instead of collapsing into the current one.
+ * A year that would put the draw after the reference date is never chosen: results are not
+ * published ahead of their draw.
+ * The French weekday, when present, is cross-checked against the computed date.
+ */
+export function createDrawDateInferrer(referenceDate: Date = new Date()) {
+  let anchor = referenceDate;
+
+  return (rawDate: string): InferredDrawDate | null => {
+    const parts = parseDateParts(rawDate);
+    if (!parts) return null;
+    const { day, month } = parts;
+
+    const weekdayMatch = rawDate.slice(0, parts.index).match(/[a-zA-ZÀ-ÿ]+/);
+    const sourceWeekday = weekdayMatch ? normalizeWeekday(weekdayMatch[0]) : undefined;
+
+    let inferred: Date | null = null;
+    if (parts.year !== undefined) {
+      inferred = buildDate(parts.year, month, day);
+    } else {
+      const anchorYear = anchor.getFullYear();
+      for (const year of [anchorYear - 1, anchorYear, anchorYear + 1]) {
+        const candidate = buildDate(year, month, day);
+        if (!candidate || differenceInCalendarDays(candidate, referenceDate) > 0) continue;
+        if (!inferred || Math.abs(differenceInCalendarDays(candidate, anchor)) < Math.abs(differenceInCalendarDays(inferred, anchor))) {
+          inferred = candidate;
+        }
+      }
+    }
+    if (!inferred) return null;
+
+    anchor = inferred;
+    const computedWeekday = normalizeWeekday(format(inferred, 'EEEE', { locale: fr }));
+    return {
+      date: format(inferred, 'yyyy-MM-dd'),
+      weekdayMismatch: sourceWeekday !== undefined && sourceWeekday !== computedWeekday,
+      sourceWeekday,
+      computedWeekday,
+    };
+  };
+}
@@ -0,0 +1,124 @@
+// src/lib/draw-quarantine.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/** A scraped draw whose name matched no category, kept until an admin maps or discards the name. */
+export interface QuarantinedDraw {
+  rawName: string; // As published
+  date: string; // YYYY-MM-DD
+  gagnants: number[]; // As parsed: checked against a game format once the name is mapped
+  machine: number[];
+  source: string; // Name of the ResultSource it was scraped from
+  firstSeenAt: string; // ISO
+  lastSeenAt: string; // ISO
+}
+
+/** The quarantined draws sharing a published name. */
+export interface QuarantinedName {
+  rawName: string;
+  draws: QuarantinedDraw[]; // Newest first
+}
+
+interface DrawQuarantineFile {
+  version: 1;
+  draws: QuarantinedDraw[];
+  aliases: Record<string, string>; // Published name -> category, as mapped by an admin
+}
+
+// Oldest draws are dropped past this size; a name nobody maps should not grow the file forever
+const MAX_QUARANTINED_DRAWS = 2000;
+
+const DEFAULT_QUARANTINE_PATH = path.join(process.cwd(), 'data', 'draw-quarantine.json');
+
+function quarantinePath(): string {
+  return process.env.DRAW_QUARANTINE_PATH || DEFAULT_QUARANTINE_PATH;
+}
+
+async function readFile(): Promise<DrawQuarantineFile> {
+  try {
+    const content = await fs.readFile(quarantinePath(), 'utf-8');
+    const data = JSON.parse(content) as DrawQuarantineFile;
+    return { version: 1, draws: data.draws || [], aliases: data.aliases || {} };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return { version: 1, draws: [], aliases: {} };
+    throw error;
+  }
+}
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Serialized read-modify-write; the file is replaced atomically (temp file + rename)
+function mutate<T>(fn: (data: DrawQuarantineFile) => { data: DrawQuarantineFile; outcome: T }): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const { data, outcome } = fn(await readFile());
+    const filePath = quarantinePath();
+    const kept = [...data.draws].sort((a, b) => a.lastSeenAt.localeCompare(b.lastSeenAt)).slice(-MAX_QUARANTINED_DRAWS);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify({ ...data, draws: kept }, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+    return outcome;
+  });
+  writeQueue = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+const sameDraw = (a: { rawName: string; date: string }, b: { rawName: string; date: string }) => a.rawName === b.rawName && a.date === b.date;
+
+/**
+ * Records draws with an unknown name. A draw seen again (same name and date) is refreshed rather
+ * than duplicated. Resolves to the number of draws not quarantined before.
+ */
+export function quarantineDraws(draws: Omit<QuarantinedDraw, 'firstSeenAt' | 'lastSeenAt'>[]): Promise<number> {
+  if (draws.length === 0) return Promise.resolve(0);
+  const now = new Date().toISOString();
+  return mutate(data => {
+    let added = 0;
+    const updated = [...data.draws];
+    draws.forEach(draw => {
+      const index = updated.findIndex(existing => sameDraw(existing, draw));
+      if (index >= 0) {
+        updated[index] = { ...updated[index], ...draw, lastSeenAt: now };
+      } else {
+        updated.push({ ...draw, firstSeenAt: now, lastSeenAt: now });
+        added++;
+      }
+    });
+    return { data: { ...data, draws: updated }, outcome: added };
+  });
+}
+
+// Quarantined draws grouped by published name, most recently seen names first
+export async function readDrawQuarantine(): Promise<QuarantinedName[]> {
+  const { draws } = await readFile();
+  const byName = new Map<string, QuarantinedDraw[]>();
+  draws.forEach(draw => byName.set(draw.rawName, [...(byName.get(draw.rawName) || []), draw]));
+  const lastSeen = (group: QuarantinedDraw[]) => group.reduce((latest, d) => (d.lastSeenAt > latest ? d.lastSeenAt : latest), '');
+  return Array.from(byName.entries())
+    .map(([rawName, group]) => ({ rawName, draws: group.sort((a, b) => b.date.localeCompare(a.date)) }))
+    .sort((a, b) => lastSeen(b.draws).localeCompare(lastSeen(a.draws)));
+}
+
+// Names mapped by an admin, for resolveDrawName
+export async function readLearnedAliases(): Promise<Record<string, string>> {
+  return (await readFile()).aliases;
+}
+
+/**
+ * Maps a published name to a category: later scrapes resolve it directly, and its quarantined
+ * draws are released (removed and returned) for the caller to store.
+ */
+export function mapQuarantinedName(rawName: string, drawName: string): Promise<QuarantinedDraw[]> {
+  return mutate(data => ({
+    data: { ...data, draws: data.draws.filter(d => d.rawName !== rawName), aliases: { ...data.aliases, [rawName]: drawName } },
+    outcome: data.draws.filter(d => d.rawName === rawName),
+  }));
+}
+
+// Drops the quarantined draws of a name; it will be quarantined again if it is published again
+export function discardQuarantinedName(rawName: string): Promise<number> {
+  return mutate(data => ({
+    data: { ...data, draws: data.draws.filter(d => d.rawName !== rawName) },
+    outcome: data.draws.filter(d => d.rawName === rawName).length,
+  }));
+}
@@ -0,0 +1,232 @@
+// src/lib/draw-report.ts
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import type { LotteryStatisticsOutput } from '@/ai/flows/statistics-types';
+import type { LotteryPredictionOutput } from '@/ai/flows/prediction-flow';
+import type { LotteryResult } from '@/types/lottery';
+import { getGameFormat, type GameFormat } from '@/config/draw-schedule';
+
+export interface DrawReportInput {
+  drawName: string;
+  stats: LotteryStatisticsOutput;
+  recentResults: LotteryResult[]; // Newest first, already limited to the last N draws
+  predictions: LotteryPredictionOutput;
+  generatedAt?: Date;
+}
+
+const PAGE_MARGIN = 14;
+const PRIMARY_COLOR: [number, number, number] = [41, 98, 255];
+const MUTED_COLOR: [number, number, number] = [110, 110, 110];
+
+interface ChartBar {
+  label: string;
+  value: number;
+}
+
+function formatDrawDate(date: string): string {
+  return format(parseISO(date), 'dd/MM/yyyy');
+}
+
+function formatNumbers(numbers: number[] | undefined): string {
+  return numbers && numbers.length > 0 ? numbers.join(' - ') : 'N/A';
+}
+
+// Top of the free space below the last table (or below `fallbackY` when none was drawn on this page)
+function afterLastTable(doc: jsPDF, fallbackY: number): number {
+  return (doc.lastAutoTable?.finalY ?? fallbackY) + 10;
+}
+
+function sectionTitle(doc: jsPDF, title: string, y: number): number {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.setTextColor(0, 0, 0);
+  doc.text(title, PAGE_MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  return y + 6;
+}
+
+/**
+ * Vertical bar chart drawn with plain rectangles (jsPDF has no chart support).
+ * Labels are thinned out when there are too many bars to print them all.
+ */
+function drawBarChart(doc: jsPDF, bars: ChartBar[], x: number, y: number, width: number, height: number): number {
+  const maxValue = Math.max(1, ...bars.map(b => b.value));
+  const slot = width / Math.max(1, bars.length);
+  const barWidth = Math.max(0.5, slot * 0.7);
+  const labelEvery = Math.ceil(bars.length / 30);
+
+  doc.setDrawColor(...MUTED_COLOR);
+  doc.line(x, y + height, x + width, y + height);
+  doc.setFontSize(6);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(String(maxValue), x - 1, y + 2, { align: 'right' });
+  doc.text('0', x - 1, y + height, { align: 'right' });
+
+  bars.forEach((bar, i) => {
+    const barHeight = (bar.value / maxValue) * height;
+    const barX = x + i * slot + (slot - barWidth) / 2;
+    doc.setFillColor(...PRIMARY_COLOR);
+    if (barHeight > 0) doc.rect(barX, y + height - barHeight, barWidth, barHeight, 'F');
+    if (i % labelEvery === 0) {
+      doc.text(bar.label, barX + barWidth / 2, y + height + 3.5, { align: 'center' });
+    }
+  });
+  doc.setTextColor(0, 0, 0);
+  return y + height + 8;
+}
+
+function frequencyBars(frequencies: Record<string, number>, maxNumber: number): ChartBar[] {
+  return Array.from({ length: maxNumber }, (_, i) => ({ label: String(i + 1), value: frequencies[String(i + 1)] || 0 }));
+}
+
+const SUM_CHART_BARS = 17;
+
+// Sums run from the smallest to the largest numbers drawn (15 to 440 in 5/90); they are grouped in
+// about SUM_CHART_BARS buckets, a multiple of 5 wide, to keep the chart readable
+function sumBars(sumFrequencies: Record<string, number>, { numbersDrawn, maxNumber }: GameFormat): ChartBar[] {
+  const minSum = (numbersDrawn * (numbersDrawn + 1)) / 2;
+  const maxSum = (numbersDrawn * (2 * maxNumber - numbersDrawn + 1)) / 2;
+  const bucketSize = Math.max(1, Math.round((maxSum - minSum + 1) / SUM_CHART_BARS / 5) * 5);
+  const buckets = new Map<number, number>();
+  Object.entries(sumFrequencies).forEach(([sum, count]) => {
+    const bucket = Math.floor(Number(sum) / bucketSize) * bucketSize;
+    buckets.set(bucket, (buckets.get(bucket) || 0) + count);
+  });
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, value]) => ({ label: `${bucket}-${bucket + bucketSize - 1}`, value }));
+}
+
+function addFooters(doc: jsPDF, drawName: string, generatedAt: Date) {
+  const pageCount = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(`LotoBonheur Insights - ${drawName} - ${format(generatedAt, 'dd/MM/yyyy HH:mm')}`, PAGE_MARGIN, pageHeight - 8);
+    doc.text(`Page ${page} / ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 8, { align: 'right' });
+  }
+}
+
+/** Builds the printable report of a draw category: summary and predictions, frequencies, pairs, odd/even and sums, recent results. */
+export function buildDrawReportPdf({ drawName, stats, recentResults, predictions, generatedAt = new Date() }: DrawReportInput): ArrayBuffer {
+  const gameFormat = getGameFormat(drawName);
+  const { numbersDrawn, maxNumber } = gameFormat;
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - 2 * PAGE_MARGIN;
+  const tableDefaults = {
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    headStyles: { fillColor: PRIMARY_COLOR },
+    styles: { fontSize: 9 },
+  };
+
+  // Page 1: summary and predictions
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(`Rapport - ${drawName}`, PAGE_MARGIN, 22);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(`Généré le ${format(generatedAt, "EEEE d MMMM yyyy 'à' HH:mm", { locale: fr })}`, PAGE_MARGIN, 29);
+  doc.setTextColor(0, 0, 0);
+
+  let y = sectionTitle(doc, 'Résumé', 40);
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: y,
+    theme: 'plain',
+    body: [
+      ['Tirages analysés', String(stats.totalDrawsAnalyzed)],
+      ['Dernier tirage', recentResults[0] ? `${formatDrawDate(recentResults[0].date)} : ${formatNumbers(recentResults[0].gagnants)}` : 'Aucun'],
+      ['Numéros les plus fréquents', formatNumbers(stats.mostFrequentWinning)],
+      ['Numéros les moins fréquents', formatNumbers(stats.leastFrequentWinning)],
+      ['Moyenne impairs / pairs', `${stats.oddEvenWinningStats.averageOdds.toFixed(2)} / ${stats.oddEvenWinningStats.averageEvens.toFixed(2)}`],
+      ['Somme moyenne des gagnants', stats.winningSumStats.averageSum.toFixed(1)],
+    ],
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 70 } },
+  });
+
+  y = sectionTitle(doc, 'Prédictions actuelles', afterLastTable(doc, y));
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: y,
+    head: [['Méthode', 'Numéros', 'Confiance', 'Explication']],
+    body: predictions.allPredictions.map(p => [
+      p.methodName === predictions.recommendedPrediction.methodName ? `${p.methodName} (recommandée)` : p.methodName,
+      formatNumbers(p.predictedNumbers),
+      `${p.confidence} (${(100 * p.confidenceScore).toFixed(1)} %)`,
+      `${p.explanation} ${p.confidenceExplanation}`,
+    ]),
+    columnStyles: { 0: { cellWidth: 40 }, 1: { cellWidth: 32 }, 2: { cellWidth: 20 }, 3: { fontSize: 7 } },
+  });
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text('Les prédictions sont indicatives : chaque tirage reste un événement aléatoire.', PAGE_MARGIN, afterLastTable(doc, y) - 4);
+  doc.setTextColor(0, 0, 0);
+
+  // Page 2: frequencies and hot/cold numbers
+  doc.addPage();
+  y = sectionTitle(doc, `Fréquence des numéros gagnants (1 à ${maxNumber})`, 20);
+  y = drawBarChart(doc, frequencyBars(stats.winningNumberFrequencies, maxNumber), PAGE_MARGIN + 6, y + 2, contentWidth - 6, 55);
+
+  y = sectionTitle(doc, 'Numéros chauds et froids', y + 4);
+  const hotColdRow = (numbers: number[], frequencies: Record<string, number>) =>
+    numbers.length > 0 ? numbers.map(n => `${n} (${frequencies[String(n)] || 0}x)`).join(', ') : 'N/A';
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: y,
+    head: [['', 'Gagnants', 'Machine']],
+    body: [
+      ['Plus fréquents', hotColdRow(stats.mostFrequentWinning, stats.winningNumberFrequencies), hotColdRow(stats.mostFrequentMachine, stats.machineNumberFrequencies)],
+      ['Moins fréquents', hotColdRow(stats.leastFrequentWinning, stats.winningNumberFrequencies), hotColdRow(stats.leastFrequentMachine, stats.machineNumberFrequencies)],
+    ],
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 32 } },
+  });
+
+  if (Object.keys(stats.machineNumberFrequencies).length > 0) {
+    y = sectionTitle(doc, `Fréquence des numéros machine (1 à ${maxNumber})`, afterLastTable(doc, y));
+    drawBarChart(doc, frequencyBars(stats.machineNumberFrequencies, maxNumber), PAGE_MARGIN + 6, y + 2, contentWidth - 6, 45);
+  }
+
+  // Page 3: pairs, odd/even and sums
+  doc.addPage();
+  y = sectionTitle(doc, 'Paires de numéros gagnants les plus fréquentes', 20);
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: y,
+    head: [['Rang', 'Paire', 'Apparitions']],
+    body: stats.mostFrequentWinningPairs.map((pair, i) => [String(i + 1), pair.replace('-', ' & '), String(stats.winningPairFrequencies[pair] || 0)]),
+    tableWidth: contentWidth / 2,
+  });
+
+  y = sectionTitle(doc, 'Répartition impairs / pairs des numéros gagnants', afterLastTable(doc, y));
+  const oddBars = Array.from({ length: numbersDrawn + 1 }, (_, odds) => ({
+    label: `${odds} imp. / ${numbersDrawn - odds} p.`,
+    value: stats.oddEvenWinningStats.drawsWithXOdds[String(odds)] || 0,
+  }));
+  y = drawBarChart(doc, oddBars, PAGE_MARGIN + 6, y + 2, contentWidth / 2, 40);
+
+  y = sectionTitle(doc, 'Somme des numéros gagnants', y + 4);
+  doc.setFontSize(9);
+  const { averageSum, minSum, maxSum } = stats.winningSumStats;
+  doc.text(`Moyenne : ${averageSum.toFixed(1)}   Minimum : ${minSum ?? 'N/A'}   Maximum : ${maxSum ?? 'N/A'}`, PAGE_MARGIN, y + 2);
+  drawBarChart(doc, sumBars(stats.winningSumStats.sumFrequencies, gameFormat), PAGE_MARGIN + 6, y + 6, contentWidth - 6, 40);
+
+  // Page 4+: recent results
+  doc.addPage();
+  y = sectionTitle(doc, `${recentResults.length} derniers résultats`, 20);
+  autoTable(doc, {
+    ...tableDefaults,
+    startY: y,
+    head: [['Date', 'Numéros gagnants', 'Numéros machine']],
+    body: recentResults.map(r => [formatDrawDate(r.date), formatNumbers(r.gagnants), formatNumbers(r.machine)]),
+  });
+
+  addFooters(doc, drawName, generatedAt);
+  return doc.output('arraybuffer');
+}
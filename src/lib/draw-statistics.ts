@@ -0,0 +1,107 @@
+// src/lib/draw-statistics.ts
+import { getDrawNameBySlug } from '@/config/draw-schedule';
+import { computeLotteryStatistics } from '@/lib/lottery-statistics';
+import { getResultsRepository } from '@/lib/results-repository';
+import type { LotteryStatisticsOutput } from '@/ai/flows/statistics-types';
+import type { LotteryResult } from '@/types/lottery';
+
+export interface DrawStatistics {
+  drawName: string;
+  latestDrawDate?: string;
+  results: LotteryResult[]; // Newest first
+  stats: LotteryStatisticsOutput;
+  cacheHit: boolean;
+}
+
+interface CacheEntry {
+  key: string;
+  results: LotteryResult[];
+  stats: LotteryStatisticsOutput;
+}
+
+const statisticsCache = new Map<string, CacheEntry>();
+
+// A category's statistics only change when a newer draw is stored (or rows are added/removed).
+function cacheKey(latestDrawDate: string | undefined, count: number): string {
+  return `${latestDrawDate ?? 'none'}|${count}`;
+}
+
+// Drops cached statistics after stored rows were edited in place.
+export function invalidateDrawStatistics(drawName?: string): void {
+  if (drawName) {
+    statisticsCache.delete(drawName);
+  } else {
+    statisticsCache.clear();
+  }
+}
+
+/**
+ * Statistics of a draw category computed from the stored results, cached per category
+ * until its latest draw date changes. Resolves to null for an unknown slug.
+ */
+export async function getDrawStatistics(drawSlug: string): Promise<DrawStatistics | null> {
+  const drawName = getDrawNameBySlug(drawSlug);
+  if (!drawName) return null;
+
+  const repository = getResultsRepository();
+  const latestDrawDate = await repository.latestDate(drawName);
+  const key = cacheKey(latestDrawDate, await repository.count(drawName));
+  const cached = statisticsCache.get(drawName);
+  if (cached && cached.key === key) {
+    return { drawName, latestDrawDate, results: cached.results, stats: cached.stats, cacheHit: true };
+  }
+
+  const results = await repository.list({ drawName });
+  const stats = computeLotteryStatistics({ results, drawName });
+  statisticsCache.set(drawName, { key, results, stats });
+  return { drawName, latestDrawDate, results, stats, cacheHit: false };
+}
+
+export interface PairFrequency {
+  pair: string; // "a-b" with a < b, as in winningPairFrequencies
+  numbers: [number, number];
+  count: number;
+}
+
+// Winning pairs sorted by frequency, optionally only those containing `withNumber`.
+export function getPairFrequencies(stats: LotteryStatisticsOutput, withNumber?: number): PairFrequency[] {
+  return Object.entries(stats.winningPairFrequencies)
+    .map(([pair, count]) => {
+      const [a, b] = pair.split('-').map(Number);
+      return { pair, numbers: [a, b] as [number, number], count };
+    })
+    .filter(p => withNumber === undefined || p.numbers.includes(withNumber))
+    .sort((a, b) => b.count - a.count || a.numbers[0] - b.numbers[0] || a.numbers[1] - b.numbers[1]);
+}
+
+export interface NumberStatistics {
+  drawName: string;
+  number: number;
+  totalDrawsAnalyzed: number;
+  winningFrequency: number;
+  machineFrequency: number;
+  lastSeenWinning: string | null; // YYYY-MM-DD
+  lastSeenMachine: string | null;
+  drawsSinceLastWinning: number | null; // 0 when it came out in the latest draw; null if never seen
+  topPartners: { number: number; count: number }[]; // Winning numbers most often drawn alongside it
+}
+
+export function getNumberStatistics({ drawName, results, stats }: DrawStatistics, number: number): NumberStatistics {
+  const lastWinningIndex = results.findIndex(r => r.gagnants.includes(number));
+  const lastMachine = results.find(r => r.machine.includes(number));
+  const topPartners = getPairFrequencies(stats, number)
+    .slice(0, 10)
+    .map(p => ({ number: p.numbers[0] === number ? p.numbers[1] : p.numbers[0], count: p.count }));
+
+  return {
+    drawName,
+    number,
+    totalDrawsAnalyzed: stats.totalDrawsAnalyzed,
+    winningFrequency: stats.winningNumberFrequencies[number.toString()] || 0,
+    machineFrequency: stats.machineNumberFrequencies[number.toString()] || 0,
+    lastSeenWinning: lastWinningIndex >= 0 ? results[lastWinningIndex].date : null,
+    lastSeenMachine: lastMachine ? lastMachine.date : null,
+    drawsSinceLastWinning: lastWinningIndex >= 0 ? lastWinningIndex : null,
+    topPartners,
+  };
+}
@@ -0,0 +1,77 @@
+// src/lib/draw-time.ts
+
+/**
+ * Dates and times of draws. A draw date is a bare 'YYYY-MM-DD' calendar day and a slot time like
+ * '10H' or '18H15' is a wall-clock time, both in Abidjan: they only become an instant in that time
+ * zone, never in the viewer's or the server's.
+ */
+export const DRAW_TIME_ZONE = 'Africa/Abidjan';
+
+const DAY_MS = 86_400_000;
+
+const zoneFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: DRAW_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+// Abidjan wall-clock fields of an instant
+function zoneParts(instant: Date): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts = Object.fromEntries(zoneFormatter.formatToParts(instant).map(part => [part.type, Number(part.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+// How far Abidjan wall-clock time is ahead of UTC at an instant
+function zoneOffsetMs(instant: Date): number {
+  const p = zoneParts(instant);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+function utcMidnight(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+// Minutes after midnight of a '18H15' style slot time; undefined when it cannot be read
+export function parseDrawTime(time: string): number | undefined {
+  const match = time.trim().toUpperCase().match(/^(\d{1,2})H(\d{2})?$/);
+  if (!match) return undefined;
+  const minutes = Number(match[1]) * 60 + Number(match[2] || 0);
+  return minutes < 24 * 60 ? minutes : undefined;
+}
+
+/** The instant a draw held on `date` at `time` starts; Abidjan midnight of that day when there is no readable time. */
+export function toDrawInstant(date: string, time?: string): Date {
+  const wallClock = utcMidnight(date) + (time ? parseDrawTime(time) ?? 0 : 0) * 60_000;
+  return new Date(wallClock - zoneOffsetMs(new Date(wallClock)));
+}
+
+// Calendar day in Abidjan of an instant, as YYYY-MM-DD
+export function toDrawDate(instant: Date): string {
+  const { year, month, day } = zoneParts(instant);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// The draw date `days` calendar days after `date` (before when negative)
+export function shiftDrawDate(date: string, days: number): string {
+  return new Date(utcMidnight(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Calendar days from one draw date to another, negative when `to` is earlier
+export function daysBetweenDrawDates(from: string, to: string): number {
+  return Math.round((utcMidnight(to) - utcMidnight(from)) / DAY_MS);
+}
+
+/** Formats a draw date in French, e.g. "19 octobre 2026", whatever the viewer's time zone. */
+export function formatDrawDate(
+  date: string,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  return toDrawInstant(date).toLocaleDateString('fr-FR', { ...options, timeZone: DRAW_TIME_ZONE });
+}
@@ -0,0 +1,80 @@
+// src/lib/game-format.ts
+import { z } from 'zod';
+import { getGameFormat, getGameFormats, type GameFormat } from '@/config/draw-schedule';
+
+interface DrawNumbers {
+  draw_name: string;
+  gagnants: number[];
+  machine?: number[];
+}
+
+// Every number of the game, ascending
+export function gameNumbers(format: GameFormat): number[] {
+  return Array.from({ length: format.maxNumber }, (_, i) => i + 1);
+}
+
+// Machine numbers published as all zeros mean that none were drawn
+export function normalizeMachineNumbers(machine: number[] | undefined, format: GameFormat): number[] {
+  const machineNumbers = Array.isArray(machine) ? machine : [];
+  return machineNumbers.length > 0 && machineNumbers.length === format.machineNumbers && machineNumbers.every(n => n === 0) ? [] : machineNumbers;
+}
+
+/**
+ * What is wrong with the numbers of a draw under its category's game format, in French; empty
+ * when they are valid. Machine numbers may be absent, or all zeros.
+ */
+export function gameFormatIssues(draw: DrawNumbers): { path: 'gagnants' | 'machine'; message: string }[] {
+  const format = getGameFormat(draw.draw_name);
+  const inRange = (n: number) => Number.isInteger(n) && n >= 1 && n <= format.maxNumber;
+  const issues: { path: 'gagnants' | 'machine'; message: string }[] = [];
+
+  if (draw.gagnants.length !== format.numbersDrawn) {
+    issues.push({ path: 'gagnants', message: `${format.numbersDrawn} numéros gagnants sont requis (jeu ${format.id}).` });
+  }
+  if (!draw.gagnants.every(inRange)) {
+    issues.push({ path: 'gagnants', message: `Les numéros gagnants doivent être compris entre 1 et ${format.maxNumber}.` });
+  }
+
+  const machine = normalizeMachineNumbers(draw.machine, format);
+  if (machine.length > 0 && (machine.length !== format.machineNumbers || !machine.every(inRange))) {
+    issues.push({
+      path: 'machine',
+      message: format.machineNumbers > 0
+        ? `Numéros machine: optionnel. Si fourni, doit être vide, ou ${format.machineNumbers} zéros, ou ${format.machineNumbers} numéros (1-${format.maxNumber}).`
+        : `Le jeu ${format.id} n'a pas de numéros machine.`,
+    });
+  }
+  return issues;
+}
+
+// superRefine callback for schemas of a single draw
+export function refineDrawToGameFormat(draw: DrawNumbers, ctx: z.RefinementCtx): void {
+  gameFormatIssues(draw).forEach(({ path, message }) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message }));
+}
+
+/**
+ * superRefine callback for the analysis flows' inputs: machine numbers, when present, must be as
+ * many as the category's game draws. Winning numbers are not checked, stored rows already were.
+ */
+export function refineMachineCounts(input: { drawName: string; results: { machine?: number[] }[] }, ctx: z.RefinementCtx): void {
+  const format = getGameFormat(input.drawName);
+  input.results.forEach((result, i) => {
+    const count = result.machine?.length ?? 0;
+    if (count !== 0 && count !== format.machineNumbers) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['results', i, 'machine'],
+        message: `Les numéros machine doivent être soit 0 (aucun) soit ${format.machineNumbers} numéros.`,
+      });
+    }
+  });
+}
+
+// "5 numéros gagnants entre 1 et 90, et optionnellement 5 numéros machine", per game when several are scheduled
+export function describeGameFormats(): string {
+  const describe = (format: GameFormat) => `${format.numbersDrawn} numéros gagnants entre 1 et ${format.maxNumber}`
+    + (format.machineNumbers > 0 ? `, et optionnellement ${format.machineNumbers} numéros machine` : ', sans numéros machine');
+  const formats = getGameFormats();
+  if (formats.length === 1) return describe(formats[0].format);
+  return formats.map(({ format, drawNames }) => `${drawNames.join(', ')}: ${describe(format)}`).join('; ');
+}
@@ -0,0 +1,70 @@
+// src/lib/import-preview.ts
+import { resultKey, type ResultsRepository } from '@/lib/results-repository';
+import type { LotteryResult } from '@/types/lottery';
+
+export type ImportRowStatus = 'new' | 'identical' | 'conflict' | 'invalid';
+
+// 'import' / 'skip' apply to new rows, 'keep' / 'overwrite' to conflicting ones.
+export type ImportResolution = 'import' | 'skip' | 'keep' | 'overwrite';
+
+export interface ImportDecision {
+  incoming: LotteryResult;
+  resolution: ImportResolution;
+}
+
+export interface ImportPreviewRow {
+  line: number; // 1-based position in the imported file
+  status: ImportRowStatus;
+  incoming?: LotteryResult; // Normalized row; missing when the row is invalid
+  existing?: LotteryResult; // Stored row with the same (draw_name, date), if any
+  errors?: string[]; // Only for invalid rows
+  raw?: unknown; // Original value of an invalid row, shown as-is in the preview
+}
+
+// A row of the imported file after validation: either a normalized result or the validation errors.
+export type ParsedImportRow =
+  | { line: number; result: LotteryResult }
+  | { line: number; errors: string[]; raw: unknown };
+
+function sameNumbers(a: number[] | undefined, b: number[] | undefined): boolean {
+  return (a || []).join(',') === (b || []).join(',');
+}
+
+/**
+ * Classifies imported rows against the stored results:
+ * - new: no stored row for the same (draw_name, date)
+ * - identical: a stored row with the same gagnants and machine numbers
+ * - conflict: a stored row with different numbers
+ * - invalid: failed validation, or repeats a (draw_name, date) seen earlier in the same file
+ */
+export async function buildImportPreview(rows: ParsedImportRow[], repository: ResultsRepository): Promise<ImportPreviewRow[]> {
+  const seenInFile = new Map<string, number>();
+  const preview: ImportPreviewRow[] = [];
+
+  for (const row of rows) {
+    if ('errors' in row) {
+      preview.push({ line: row.line, status: 'invalid', errors: row.errors, raw: row.raw });
+      continue;
+    }
+
+    const incoming = row.result;
+    const key = resultKey(incoming.draw_name, incoming.date);
+    const firstLine = seenInFile.get(key);
+    if (firstLine !== undefined) {
+      preview.push({ line: row.line, status: 'invalid', incoming, errors: [`Doublon de la ligne ${firstLine} du fichier (même tirage et même date).`], raw: incoming });
+      continue;
+    }
+    seenInFile.set(key, row.line);
+
+    const existing = await repository.get(incoming.draw_name, incoming.date);
+    if (!existing) {
+      preview.push({ line: row.line, status: 'new', incoming });
+    } else if (sameNumbers(existing.gagnants, incoming.gagnants) && sameNumbers(existing.machine, incoming.machine)) {
+      preview.push({ line: row.line, status: 'identical', incoming, existing });
+    } else {
+      preview.push({ line: row.line, status: 'conflict', incoming, existing });
+    }
+  }
+
+  return preview;
+}
@@ -0,0 +1,123 @@
+// src/lib/lottery-prediction.ts
+import { getGameFormat } from '@/config/draw-schedule';
+import { type LotteryPredictionInput, type LotteryPredictionOutput, type SinglePrediction } from '@/ai/flows/prediction-types';
+import {
+  generateRandomUniqueNumbers,
+  predictByAssociation,
+  predictByDelay,
+  predictByDistribution,
+  predictByFrequency,
+  predictByMachineTransition,
+  predictNextMachineNumbers,
+  predictWithModel,
+} from '@/lib/prediction-methods';
+import { predictNumberProbabilities, trainPredictionModel, type PredictionModel } from '@/lib/prediction-model';
+import { getMethodTrackRecords } from '@/lib/method-track-record';
+import { scoreConfidence } from '@/lib/prediction-confidence';
+import { createSeededRandom, generateSeed } from '@/lib/seeded-random';
+
+/**
+ * Every method's pick for the next draw of a category, each with a confidence measured on that
+ * category's past draws. Without a stored model (e.g. outside the server flow), one is trained in
+ * memory on the given results.
+ */
+export function computeLotteryPrediction(input: LotteryPredictionInput, model?: PredictionModel | null): LotteryPredictionOutput {
+  const { results, drawName } = input;
+  const seed = input.seed ?? generateSeed();
+  const random = createSeededRandom(seed);
+  const format = getGameFormat(drawName);
+
+  const dataSummary = {
+    totalDrawsAnalyzed: results.length,
+    latestDrawDate: results.reduce<string | undefined>((latest, r) => (!latest || r.date > latest ? r.date : latest), undefined),
+  };
+
+  if (results.length === 0) {
+    const randomNumbers = generateRandomUniqueNumbers(format.numbersDrawn, 1, format.maxNumber, [], random);
+    const randomPrediction: SinglePrediction = {
+      methodName: "Aléatoire (Manque de données)",
+      predictedNumbers: randomNumbers,
+      explanation: "Aucune donnée historique pour ce tirage. Généré aléatoirement.",
+      ...scoreConfidence(undefined, `sur ${drawName}`, format),
+    };
+    return {
+      drawName,
+      allPredictions: [randomPrediction],
+      recommendedPrediction: randomPrediction,
+      numberProbabilities: Array.from({ length: format.maxNumber }, (_, i) => ({
+        number: i + 1,
+        probability: format.numbersDrawn / format.maxNumber,
+      })),
+      dataSummary,
+      seed,
+    };
+  }
+  
+  const gagnantsResults = results.map(r => ({...r, gagnants: r.gagnants.slice(0, format.numbersDrawn), machine: r.machine ? r.machine : [] }));
+
+
+  const frequencyPrediction = predictByFrequency(gagnantsResults, format, random);
+  const delayPrediction = predictByDelay(gagnantsResults, format, new Date(), random);
+  const associationPrediction = predictByAssociation(gagnantsResults, format, random);
+  const distributionPrediction = predictByDistribution(gagnantsResults, format, random);
+  // The machine-based methods only run on categories whose results carry machine numbers
+  const hasMachineNumbers = gagnantsResults.some(r => r.machine.length > 0);
+  const machineTransitionPrediction = hasMachineNumbers ? predictByMachineTransition(gagnantsResults, format, random) : null;
+  const nextMachinePrediction = hasMachineNumbers ? predictNextMachineNumbers(gagnantsResults, format, random) : null;
+
+  // Each method is trusted as much as it did on this category's past draws
+  const trackRecords = getMethodTrackRecords(drawName, gagnantsResults);
+  const allStatisticalPredictions: SinglePrediction[] = [
+    frequencyPrediction,
+    delayPrediction,
+    associationPrediction,
+    distributionPrediction,
+    ...(machineTransitionPrediction ? [machineTransitionPrediction] : []),
+  ].map(prediction => ({
+    ...prediction,
+    ...scoreConfidence(trackRecords[prediction.methodName], `en backtest sur les derniers tirages de ${drawName}`, format),
+  }));
+
+  const trainedModel = model ?? trainPredictionModel(drawName, gagnantsResults);
+  const probabilities = predictNumberProbabilities(trainedModel, gagnantsResults);
+  const modelPrediction: SinglePrediction = {
+    ...predictWithModel(trainedModel, probabilities, format.numbersDrawn),
+    ...scoreConfidence(
+      trainedModel.evaluation.heldOutDraws > 0 ? trainedModel.evaluation : undefined,
+      `sur les derniers tirages de ${drawName} tenus à l'écart de son entraînement`,
+      format
+    ),
+  };
+  
+  const finalPredictions = [...allStatisticalPredictions, modelPrediction]
+    .filter((value, index, self) => 
+        index === self.findIndex((t) => t.methodName === value.methodName)
+    )
+    .sort((a,b) => (a.methodName === modelPrediction.methodName ? -1 : b.methodName === modelPrediction.methodName ? 1 : a.methodName.localeCompare(b.methodName)));
+
+  const machinePrediction: SinglePrediction | undefined = nextMachinePrediction ? {
+    ...nextMachinePrediction,
+    ...scoreConfidence(trackRecords[nextMachinePrediction.methodName], `en backtest sur les numéros machine des derniers tirages de ${drawName}`, format),
+  } : undefined;
+
+  const { evaluation } = trainedModel;
+  return {
+    drawName,
+    allPredictions: finalPredictions,
+    recommendedPrediction: modelPrediction, // The trained model is the recommended one
+    machinePrediction,
+    numberProbabilities: probabilities.map((probability, i) => ({ number: i + 1, probability })),
+    model: {
+      trainedAt: trainedModel.trainedAt,
+      trainingDraws: trainedModel.trainingDraws,
+      latestTrainingDate: trainedModel.latestTrainingDate,
+      heldOutDraws: evaluation.heldOutDraws,
+      meanHits: evaluation.meanHits,
+      baselineMeanHits: evaluation.baselineMeanHits,
+      zScore: evaluation.zScore,
+      beatsBaseline: evaluation.verdict === 'better',
+    },
+    dataSummary,
+    seed,
+  };
+}
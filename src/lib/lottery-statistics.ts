@@ -0,0 +1,167 @@
+// src/lib/lottery-statistics.ts
+import type { LotteryStatisticsInput, LotteryStatisticsOutput } from '@/ai/flows/statistics-types';
+import { numbersOf } from '@/lib/number-source';
+import { getGameFormat, type GameFormat } from '@/config/draw-schedule';
+
+function getTopN(frequencies: Record<string, number>, n: number, ascending: boolean): number[] {
+  const sorted = Object.entries(frequencies)
+    .map(([numStr, freq]) => ({ num: parseInt(numStr), freq }))
+    .sort((a, b) => (ascending ? a.freq - b.freq : b.freq - a.freq));
+  
+  if (sorted.length === 0) return [];
+
+  // If n is larger than available numbers, return all available sorted numbers
+  if (n >= sorted.length) {
+    return sorted.map(item => item.num);
+  }
+  
+  const limit = Math.min(n, sorted.length);
+  if (limit === 0) return [];
+  
+  // Get the frequency of the Nth item
+  const thresholdFreq = sorted[limit-1].freq;
+  
+  // Return all items with frequency >= thresholdFreq (for most frequent)
+  // or <= thresholdFreq (for least frequent), then slice to N
+  return sorted
+    .filter(item => (ascending ? item.freq <= thresholdFreq : item.freq >= thresholdFreq))
+    .map(item => item.num)
+    .slice(0, n); 
+}
+
+function getTopNPairs(frequencies: Record<string, number>, n: number): string[] {
+    return Object.entries(frequencies)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, n)
+      .map(([pair]) => pair);
+}
+
+// Mean numbers of a draw's machine (resp. winning) set found in the next draw's winning (resp. machine)
+// set, over consecutive draws that both have machine numbers
+function machineCarryOver(results: LotteryStatisticsInput['results'], format: GameFormat): LotteryStatisticsOutput['machineCarryOver'] {
+  const sorted = [...results].sort((a, b) => a.date.localeCompare(b.date));
+  let comparedDraws = 0;
+  let machineToNextWinning = 0;
+  let winningToNextMachine = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const next = sorted[i];
+    if (previous.machine.length === 0 || next.machine.length === 0) continue;
+    comparedDraws++;
+    machineToNextWinning += previous.machine.filter(n => next.gagnants.includes(n)).length;
+    winningToNextMachine += previous.gagnants.filter(n => next.machine.includes(n)).length;
+  }
+  return {
+    comparedDraws,
+    machineToNextWinning: comparedDraws > 0 ? parseFloat((machineToNextWinning / comparedDraws).toFixed(3)) : 0,
+    winningToNextMachine: comparedDraws > 0 ? parseFloat((winningToNextMachine / comparedDraws).toFixed(3)) : 0,
+    // Each of the numbers of one set is among the other, drawn independently, with probability size / maxNumber
+    expectedByChance: parseFloat(((format.numbersDrawn * format.machineNumbers) / format.maxNumber).toFixed(3)),
+  };
+}
+
+/**
+ * Frequencies of winning/machine numbers (apart and combined), machine carry-over between draws, pair frequencies, odd/even distribution and sum stats
+ * for one draw category. Pure and synchronous: shared by the Genkit flow and the /api/draws routes.
+ */
+export function computeLotteryStatistics(input: LotteryStatisticsInput): LotteryStatisticsOutput {
+  const format = getGameFormat(input.drawName);
+  const winningFrequencies: Record<string, number> = {};
+  const machineFrequencies: Record<string, number> = {};
+  const combinedFrequencies: Record<string, number> = {};
+  const winningPairFrequencies: Record<string, number> = {};
+  
+  let totalOddsCount = 0;
+  let totalEvensCount = 0;
+  const drawsWithXOdds: Record<string, number> = Object.fromEntries(Array.from({ length: format.numbersDrawn + 1 }, (_, k) => [k.toString(), 0]));
+  
+  let totalSumOfWinningNumbers = 0;
+  let minSum: number | undefined = undefined;
+  let maxSum: number | undefined = undefined;
+  const sumFrequencies: Record<string, number> = {};
+
+  const totalDraws = input.results.length;
+
+  input.results.forEach(result => {
+    result.gagnants.forEach(num => {
+      winningFrequencies[num.toString()] = (winningFrequencies[num.toString()] || 0) + 1;
+    });
+
+    // Handle optional machine numbers
+    if (result.machine && result.machine.length > 0) {
+      result.machine.forEach(num => {
+        machineFrequencies[num.toString()] = (machineFrequencies[num.toString()] || 0) + 1;
+      });
+    }
+
+    numbersOf(result, 'both').forEach(num => {
+      combinedFrequencies[num.toString()] = (combinedFrequencies[num.toString()] || 0) + 1;
+    });
+
+    const sortedGagnants = [...result.gagnants].sort((a, b) => a - b);
+    for (let i = 0; i < sortedGagnants.length; i++) {
+      for (let j = i + 1; j < sortedGagnants.length; j++) {
+        const pairKey = `${sortedGagnants[i]}-${sortedGagnants[j]}`;
+        winningPairFrequencies[pairKey] = (winningPairFrequencies[pairKey] || 0) + 1;
+      }
+    }
+
+    let currentDrawOdds = 0;
+    let currentDrawEvens = 0;
+    result.gagnants.forEach(num => {
+      if (num % 2 === 0) {
+        currentDrawEvens++;
+      } else {
+        currentDrawOdds++;
+      }
+    });
+    totalOddsCount += currentDrawOdds;
+    totalEvensCount += currentDrawEvens;
+    drawsWithXOdds[currentDrawOdds.toString()] = (drawsWithXOdds[currentDrawOdds.toString()] || 0) + 1;
+  
+    const currentSum = result.gagnants.reduce((acc, curr) => acc + curr, 0);
+    totalSumOfWinningNumbers += currentSum;
+    if (minSum === undefined || currentSum < minSum) {
+      minSum = currentSum;
+    }
+    if (maxSum === undefined || currentSum > maxSum) {
+      maxSum = currentSum;
+    }
+    sumFrequencies[currentSum.toString()] = (sumFrequencies[currentSum.toString()] || 0) + 1;
+  });
+  
+  const topNBasic = 5;
+  const topNPairsCount = 10;
+
+  const averageOdds = totalDraws > 0 ? totalOddsCount / totalDraws : 0;
+  const averageEvens = totalDraws > 0 ? totalEvensCount / totalDraws : 0;
+  const averageSum = totalDraws > 0 ? totalSumOfWinningNumbers / totalDraws : 0;
+
+  return {
+    drawName: input.drawName,
+    totalDrawsAnalyzed: totalDraws,
+    winningNumberFrequencies: winningFrequencies,
+    machineNumberFrequencies: machineFrequencies,
+    mostFrequentWinning: getTopN(winningFrequencies, topNBasic, false),
+    leastFrequentWinning: getTopN(winningFrequencies, topNBasic, true),
+    mostFrequentMachine: getTopN(machineFrequencies, topNBasic, false),
+    leastFrequentMachine: getTopN(machineFrequencies, topNBasic, true),
+    combinedNumberFrequencies: combinedFrequencies,
+    mostFrequentCombined: getTopN(combinedFrequencies, topNBasic, false),
+    leastFrequentCombined: getTopN(combinedFrequencies, topNBasic, true),
+    machineCarryOver: machineCarryOver(input.results, format),
+    winningPairFrequencies: winningPairFrequencies,
+    mostFrequentWinningPairs: getTopNPairs(winningPairFrequencies, topNPairsCount),
+    oddEvenWinningStats: {
+      averageOdds: parseFloat(averageOdds.toFixed(2)),
+      averageEvens: parseFloat(averageEvens.toFixed(2)),
+      drawsWithXOdds: drawsWithXOdds,
+    },
+    winningSumStats: {
+      averageSum: parseFloat(averageSum.toFixed(2)),
+      minSum: minSum,
+      maxSum: maxSum,
+      sumFrequencies: sumFrequencies,
+    },
+  };
+}
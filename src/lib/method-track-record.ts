@@ -0,0 +1,33 @@
+// src/lib/method-track-record.ts
+import type { LotteryResult } from '@/types/lottery';
+import { runPredictionBacktest } from '@/lib/prediction-backtest';
+import type { HitSummary } from '@/lib/random-baseline';
+
+// A fixed seed keeps confidence scores identical between two predictions on the same data
+const TRACK_RECORD_SEED = 1;
+const TRACK_RECORD_EVALUATIONS = 200;
+
+export type MethodTrackRecords = Record<string, HitSummary>; // By method name
+
+const trackRecordCache = new Map<string, { key: string; records: MethodTrackRecords }>();
+
+/**
+ * How each statistical method fared on the latest draws of a category, from a backtest cached
+ * until the category's results change. The neural network is measured when it is trained instead.
+ */
+export function getMethodTrackRecords(drawName: string, results: LotteryResult[]): MethodTrackRecords {
+  const categoryResults = results.filter(r => r.draw_name === drawName);
+  // The whole history is the key: edits in place must invalidate it as much as new draws
+  const key = categoryResults.map(r => `${r.date}:${r.gagnants.join(',')}:${r.machine.join(',')}`).sort().join('|');
+  const cached = trackRecordCache.get(drawName);
+  if (cached && cached.key === key) return cached.records;
+
+  const report = runPredictionBacktest(drawName, categoryResults, {
+    maxEvaluations: TRACK_RECORD_EVALUATIONS,
+    seed: TRACK_RECORD_SEED,
+    includeModel: false,
+  });
+  const records = Object.fromEntries(report.methods.map(({ methodName, ...summary }) => [methodName, summary]));
+  trackRecordCache.set(drawName, { key, records });
+  return records;
+}
@@ -0,0 +1,19 @@
+// src/lib/number-source.ts
+import type { LotteryResult } from '@/types/lottery';
+
+// Which numbers of a draw an analysis looks at
+export const NUMBER_SOURCES = ['gagnants', 'machine', 'both'] as const;
+export type NumberSource = typeof NUMBER_SOURCES[number];
+
+export const NUMBER_SOURCE_LABELS: Record<NumberSource, string> = {
+  gagnants: 'Gagnants',
+  machine: 'Machine',
+  both: 'Les deux',
+};
+
+// With 'both', a number drawn as winning and machine in the same draw counts once
+export function numbersOf(result: Pick<LotteryResult, 'gagnants' | 'machine'>, source: NumberSource): number[] {
+  if (source === 'gagnants') return result.gagnants;
+  if (source === 'machine') return result.machine ?? [];
+  return Array.from(new Set([...result.gagnants, ...(result.machine ?? [])]));
+}
@@ -0,0 +1,131 @@
+// src/lib/prediction-backtest.ts
+import type { LotteryResult } from '@/types/lottery';
+import { getDrawInstant, getGameFormat, type GameFormat } from '@/config/draw-schedule';
+import {
+  NEXT_MACHINE_METHOD_NAME,
+  generateRandomUniqueNumbers,
+  predictByAssociation,
+  predictByDelay,
+  predictByDistribution,
+  predictByFrequency,
+  predictByMachineTransition,
+  predictNextMachineNumbers,
+  type MethodPrediction,
+} from '@/lib/prediction-methods';
+import { MODEL_METHOD_NAME, createFeatureTracker, scoreNumbers, topNumbers, trainPredictionModel } from '@/lib/prediction-model';
+import { countHits, randomBaseline, summarizeHits, type BaselineVerdict, type HitSummary, type RandomBaseline } from '@/lib/random-baseline';
+import { createSeededRandom, generateSeed, type RandomSource } from '@/lib/seeded-random';
+
+export const RANDOM_BASELINE_METHOD = 'Aléatoire (référence)';
+
+// Most draws a report may evaluate: each one runs every statistical method on the draws before it
+export const MAX_BACKTEST_EVALUATIONS = 300;
+
+export interface BacktestOptions {
+  minTrainingDraws?: number; // Draws a method sees before its first evaluation (default 20)
+  maxEvaluations?: number; // Only the latest draws are evaluated (default 200)
+  seed?: number; // Replays a previous report exactly; drawn at random when omitted
+  includeModel?: boolean; // Evaluates the neural network too (default true); training it is by far the slowest step
+}
+
+export type BacktestVerdict = BaselineVerdict;
+
+export interface MethodBacktest extends HitSummary {
+  methodName: string;
+}
+
+export interface BacktestDraw {
+  date: string;
+  gagnants: number[];
+  machine: number[];
+  hits: Record<string, number>; // By method name; machine-based methods are absent from draws they cannot be scored on
+}
+
+export interface BacktestReport {
+  drawName: string;
+  totalDraws: number;
+  minTrainingDraws: number;
+  evaluatedDraws: number;
+  seed: number;
+  modelTrainedUntil?: string; // Latest draw the neural network was fitted on; it stays frozen over the evaluated draws
+  baseline: RandomBaseline;
+  methods: MethodBacktest[];
+  draws: BacktestDraw[]; // Newest first
+}
+
+function predictAll(training: LotteryResult[], format: GameFormat, asOf: Date, random: RandomSource): MethodPrediction[] {
+  const predictions = [
+    predictByFrequency(training, format, random),
+    predictByDelay(training, format, asOf, random),
+    predictByAssociation(training, format, random),
+    predictByDistribution(training, format, random),
+    {
+      methodName: RANDOM_BASELINE_METHOD,
+      predictedNumbers: generateRandomUniqueNumbers(format.numbersDrawn, 1, format.maxNumber, [], random),
+      explanation: 'Tirage uniforme, sert de témoin.',
+    },
+  ];
+  // Without machine numbers in the latest training draw it would only be another random pick
+  const latest = training[training.length - 1];
+  if (latest && latest.machine.length > 0) predictions.push(predictByMachineTransition(training, format, random));
+  return predictions;
+}
+
+/**
+ * Walk-forward evaluation: each evaluated draw is predicted by every method from the draws before
+ * it only (the neural network from weights fitted before the first evaluated draw), and the matches
+ * with its winning numbers are counted (with its machine numbers for "Gagnants → Machine"). Methods are then compared
+ * with the exact expectation of a random pick; a method whose mean stays within the random
+ * range has shown no skill on this category.
+ */
+export function runPredictionBacktest(drawName: string, results: LotteryResult[], options: BacktestOptions = {}): BacktestReport {
+  const minTrainingDraws = Math.max(1, options.minTrainingDraws ?? 20);
+  const maxEvaluations = options.maxEvaluations ?? 200;
+  const seed = options.seed ?? generateSeed();
+  const random = createSeededRandom(seed);
+  const format = getGameFormat(drawName);
+  const history = results
+    .filter(r => r.draw_name === drawName && r.gagnants.length === format.numbersDrawn)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const firstEvaluated = Math.max(minTrainingDraws, history.length - maxEvaluations);
+  // Retraining the network before every draw would be far too slow: it is trained once on the
+  // draws preceding the evaluated ones, then only its input features move forward
+  const model = options.includeModel === false ? null : trainPredictionModel(drawName, history.slice(0, firstEvaluated), { seed, evaluationDraws: 0 });
+  const tracker = createFeatureTracker(format);
+  const draws: BacktestDraw[] = [];
+  for (let i = 0; i < history.length; i++) {
+    const target = history[i];
+    if (i >= firstEvaluated) {
+      const hits: Record<string, number> = {};
+      const training = history.slice(0, i);
+      predictAll(training, format, getDrawInstant(target.draw_name, target.date), random).forEach(prediction => {
+        hits[prediction.methodName] = countHits(prediction.predictedNumbers, target.gagnants);
+      });
+      if (target.machine.length > 0 && training.some(r => r.machine.length > 0)) {
+        hits[NEXT_MACHINE_METHOD_NAME] = countHits(predictNextMachineNumbers(training, format, random).predictedNumbers, target.machine);
+      }
+      if (model) hits[MODEL_METHOD_NAME] = countHits(topNumbers(scoreNumbers(model, tracker.features()), format.numbersDrawn), target.gagnants);
+      draws.push({ date: target.date, gagnants: target.gagnants, machine: target.machine, hits });
+    }
+    tracker.push(target.gagnants);
+  }
+
+  const methodNames = Array.from(new Set(draws.flatMap(d => Object.keys(d.hits))));
+  const methods = methodNames.map((methodName): MethodBacktest => ({
+    methodName,
+    ...summarizeHits(draws.map(d => d.hits[methodName]).filter((h): h is number => h !== undefined), format),
+  }));
+
+  return {
+    drawName,
+    totalDraws: history.length,
+    minTrainingDraws,
+    evaluatedDraws: draws.length,
+    seed,
+    modelTrainedUntil: model?.latestTrainingDate,
+    baseline: randomBaseline(draws.length, format),
+    methods,
+    draws: draws.reverse(),
+  };
+}
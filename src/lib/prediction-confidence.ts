@@ -0,0 +1,50 @@
+// src/lib/prediction-confidence.ts
+import type { GameFormat } from '@/config/draw-schedule';
+import { conservativeMeanHits, type HitSummary } from '@/lib/random-baseline';
+
+export interface PredictionConfidence {
+  confidence: string;
+  confidenceScore: number; // 0-1
+  confidenceExplanation: string;
+}
+
+const percent = (value: number) => `${(100 * value).toFixed(1)} %`;
+
+// Labels compare the score with what a random pick achieves, `baseRate` being the chance that any suggested number is drawn
+function labelFor(score: number, baseRate: number): string {
+  if (score <= baseRate) return 'Très faible';
+  if (score < 1.5 * baseRate) return 'Faible';
+  if (score < 2 * baseRate) return 'Moyenne';
+  return 'Élevée';
+}
+
+/**
+ * Confidence of a method on a category from its measured track record. The score is the share of
+ * suggested numbers the method can be expected to get right, taken at the low end of its 95%
+ * interval so that short or lucky track records stay modest. `measuredOn` says which draws were
+ * used, e.g. "sur les 200 derniers tirages de Reveil".
+ */
+export function scoreConfidence(record: HitSummary | undefined, measuredOn: string, format: GameFormat): PredictionConfidence {
+  if (!record || record.evaluations === 0) {
+    return {
+      confidence: 'Très faible',
+      confidenceScore: 0,
+      confidenceExplanation: `Méthode pas encore mesurée ${measuredOn}: trop peu de tirages passés pour la comparer au hasard.`,
+    };
+  }
+
+  const { numbersDrawn } = format;
+  const baseRate = numbersDrawn / format.maxNumber;
+  const score = conservativeMeanHits(record, format) / numbersDrawn;
+  const verdict = score > baseRate
+    ? `soit ${(score / baseRate).toFixed(1)} fois le hasard.`
+    : "ce qui n'est pas mieux que le hasard.";
+  return {
+    confidence: labelFor(score, baseRate),
+    confidenceScore: score,
+    confidenceExplanation:
+      `Mesurée ${measuredOn} (${record.evaluations} tirages): ${record.meanHits.toFixed(2)} bon(s) numéro(s) sur ${numbersDrawn} en moyenne, ` +
+      `soit ${percent(record.meanHits / numbersDrawn)} par numéro proposé contre ${percent(baseRate)} au hasard. ` +
+      `Le score retient la borne basse de l'intervalle de confiance à 95 %, ${percent(score)}, ${verdict}`,
+  };
+}
@@ -0,0 +1,239 @@
+// src/lib/prediction-ledger.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { LotteryResult } from '@/types/lottery';
+import type { LotteryPredictionOutput } from '@/ai/flows/prediction-types';
+import type { GameFormat } from '@/config/draw-schedule';
+import { countHits } from '@/lib/random-baseline';
+
+export interface LedgerPrediction {
+  methodName: string;
+  predictedNumbers: number[];
+  numbers?: 'machine'; // Scored against the machine numbers of the target draw; winning numbers when absent
+  confidence: string;
+  confidenceScore: number;
+}
+
+export interface LedgerScore {
+  scoredAt: string; // ISO
+  gagnants: number[]; // Winning numbers of the target draw
+  machine?: number[]; // Machine numbers of the target draw
+  hits: Record<string, number>; // By method name; machine predictions are left out when the draw has no machine numbers
+}
+
+export interface PredictionLedgerEntry {
+  id: string;
+  createdAt: string; // ISO
+  drawName: string;
+  targetDate: string; // Scheduled date of the predicted draw, YYYY-MM-DD
+  seed: number;
+  latestDrawDate?: string; // Latest result the prediction was computed from
+  modelTrainedAt?: string; // Training time of the model behind the recommended pick, to replay the run
+  recommendedMethod: string;
+  predictions: LedgerPrediction[];
+  score?: LedgerScore; // Set once the target draw's result is stored
+}
+
+export interface PredictionLedgerFilter {
+  drawName?: string;
+  limit?: number;
+}
+
+export interface LedgerMethodSummary {
+  methodName: string;
+  scoredPredictions: number;
+  meanHits: number;
+  hitDistribution: number[]; // hitDistribution[k] = scored predictions with k hits, up to the larger of winning and machine numbers per draw
+}
+
+export interface LedgerTimelinePoint {
+  targetDate: string;
+  predictions: number; // Ledger entries scored for that draw
+  gagnants: number[];
+  meanHits: Record<string, number>; // By method name, averaged over the entries of the draw
+}
+
+// Served by /api/draws/[slug]/predictions
+export interface PredictionLedgerReport {
+  drawName: string;
+  baselineMeanHits: number; // Expected hits of a random pick
+  pendingPredictions: number;
+  scoredPredictions: number;
+  methods: LedgerMethodSummary[];
+  timeline: LedgerTimelinePoint[];
+  entries: PredictionLedgerEntry[]; // Most recent first
+}
+
+interface PredictionLedgerFile {
+  version: 1;
+  entries: PredictionLedgerEntry[];
+}
+
+// Oldest entries of a category are dropped past this size so the file stays small enough to rewrite on
+// every change; the cap is per category so that one busy category cannot push out the others' history
+const MAX_ENTRIES_PER_CATEGORY = 500;
+
+// Predictions recorded for the same draw beyond this are not stored: refreshing the page should not
+// let one visitor outweigh the rest of the track record
+const MAX_ENTRIES_PER_DRAW = 20;
+
+const DEFAULT_LEDGER_PATH = path.join(process.cwd(), 'data', 'prediction-ledger.json');
+
+function ledgerPath(): string {
+  return process.env.PREDICTION_LEDGER_PATH || DEFAULT_LEDGER_PATH;
+}
+
+async function readEntries(): Promise<PredictionLedgerEntry[]> {
+  try {
+    const content = await fs.readFile(ledgerPath(), 'utf-8');
+    return (JSON.parse(content) as PredictionLedgerFile).entries || [];
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Keeps the newest MAX_ENTRIES_PER_CATEGORY entries of each category, in their original order
+function keepLatestPerCategory(entries: PredictionLedgerEntry[]): PredictionLedgerEntry[] {
+  const kept = new Map<string, number>();
+  return entries
+    .slice()
+    .reverse()
+    .filter(entry => {
+      const count = kept.get(entry.drawName) ?? 0;
+      kept.set(entry.drawName, count + 1);
+      return count < MAX_ENTRIES_PER_CATEGORY;
+    })
+    .reverse();
+}
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Serialized read-modify-write; the file is replaced atomically (temp file + rename), and left
+// untouched when `fn` returns no entries
+function mutate<T>(fn: (entries: PredictionLedgerEntry[]) => { entries?: PredictionLedgerEntry[]; outcome: T }): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const { entries, outcome } = fn(await readEntries());
+    if (!entries) return outcome;
+    const filePath = ledgerPath();
+    const data: PredictionLedgerFile = { version: 1, entries: keepLatestPerCategory(entries) };
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+    return outcome;
+  });
+  writeQueue = run.then(() => undefined, () => undefined);
+  return run;
+}
+
+/**
+ * Stores a generated prediction until the result of its target draw arrives. A run already recorded
+ * (same category, target draw and seed) is not stored twice, and past MAX_ENTRIES_PER_DRAW entries
+ * for the target draw nothing is stored: resolves to null then.
+ */
+export function recordPrediction(output: LotteryPredictionOutput, targetDate: string, modelTrainedAt?: string): Promise<PredictionLedgerEntry | null> {
+  const entry: PredictionLedgerEntry = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    drawName: output.drawName,
+    targetDate,
+    seed: output.seed,
+    latestDrawDate: output.dataSummary.latestDrawDate,
+    modelTrainedAt,
+    recommendedMethod: output.recommendedPrediction.methodName,
+    predictions: [
+      ...output.allPredictions.map(p => ({
+        methodName: p.methodName,
+        predictedNumbers: p.predictedNumbers,
+        confidence: p.confidence,
+        confidenceScore: p.confidenceScore,
+      })),
+      ...(output.machinePrediction ? [{
+        methodName: output.machinePrediction.methodName,
+        predictedNumbers: output.machinePrediction.predictedNumbers,
+        numbers: 'machine' as const,
+        confidence: output.machinePrediction.confidence,
+        confidenceScore: output.machinePrediction.confidenceScore,
+      }] : []),
+    ],
+  };
+  return mutate(entries => {
+    const sameDraw = entries.filter(e => e.drawName === entry.drawName && e.targetDate === targetDate);
+    if (sameDraw.length >= MAX_ENTRIES_PER_DRAW) return { outcome: null };
+    const recorded = sameDraw.find(e => e.seed === entry.seed);
+    if (recorded) return { outcome: recorded };
+    return { entries: [...entries, entry], outcome: entry };
+  });
+}
+
+/**
+ * Scores the entries whose target draw is among `results`. Entries already scored are scored again
+ * when the stored numbers changed, so a corrected result corrects the ledger too. Resolves to the
+ * entries that changed.
+ */
+export function scorePredictions(results: LotteryResult[]): Promise<PredictionLedgerEntry[]> {
+  const byDraw = new Map(results.map(r => [`${r.draw_name}|${r.date}`, r]));
+  if (byDraw.size === 0) return Promise.resolve([]);
+
+  return mutate(entries => {
+    const scoredAt = new Date().toISOString();
+    const changed: PredictionLedgerEntry[] = [];
+    const updated = entries.map(entry => {
+      const result = byDraw.get(`${entry.drawName}|${entry.targetDate}`);
+      const machine = result?.machine ?? [];
+      if (!result || (entry.score && entry.score.gagnants.join(',') === result.gagnants.join(',') && (entry.score.machine ?? []).join(',') === machine.join(','))) {
+        return entry;
+      }
+      const hits = Object.fromEntries(entry.predictions
+        .filter(p => p.numbers !== 'machine' || machine.length > 0)
+        .map(p => [p.methodName, countHits(p.predictedNumbers, p.numbers === 'machine' ? machine : result.gagnants)]));
+      const scored = { ...entry, score: { scoredAt, gagnants: [...result.gagnants], machine: [...machine], hits } };
+      changed.push(scored);
+      return scored;
+    });
+    return changed.length > 0 ? { entries: updated, outcome: changed } : { outcome: changed };
+  });
+}
+
+// Matching entries, newest first.
+export async function readPredictionLedger(filter: PredictionLedgerFilter = {}): Promise<PredictionLedgerEntry[]> {
+  const entries = (await readEntries())
+    .filter(e => !filter.drawName || e.drawName === filter.drawName)
+    .reverse();
+  return filter.limit ? entries.slice(0, filter.limit) : entries;
+}
+
+/** Hits per method over the scored entries of a category: overall, and per target draw (oldest first). */
+export function summarizePredictionLedger(entries: PredictionLedgerEntry[], format: GameFormat): { methods: LedgerMethodSummary[]; timeline: LedgerTimelinePoint[] } {
+  const scored = entries.filter(e => e.score);
+  const hitsByMethod = new Map<string, number[]>();
+  const byTarget = new Map<string, PredictionLedgerEntry[]>();
+  scored.forEach(entry => {
+    Object.entries(entry.score!.hits).forEach(([methodName, hits]) => {
+      hitsByMethod.set(methodName, [...(hitsByMethod.get(methodName) || []), hits]);
+    });
+    byTarget.set(entry.targetDate, [...(byTarget.get(entry.targetDate) || []), entry]);
+  });
+
+  const methods = Array.from(hitsByMethod.entries()).map(([methodName, hits]) => ({
+    methodName,
+    scoredPredictions: hits.length,
+    meanHits: hits.reduce((sum, h) => sum + h, 0) / hits.length,
+    hitDistribution: Array.from({ length: Math.max(format.numbersDrawn, format.machineNumbers) + 1 }, (_, k) => hits.filter(h => h === k).length),
+  })).sort((a, b) => a.methodName.localeCompare(b.methodName));
+
+  const timeline = Array.from(byTarget.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([targetDate, targetEntries]) => {
+      const meanHits: Record<string, number> = {};
+      methods.forEach(({ methodName }) => {
+        const hits = targetEntries.map(e => e.score!.hits[methodName]).filter((h): h is number => h !== undefined);
+        if (hits.length > 0) meanHits[methodName] = hits.reduce((sum, h) => sum + h, 0) / hits.length;
+      });
+      return { targetDate, predictions: targetEntries.length, gagnants: targetEntries[0].score!.gagnants, meanHits };
+    });
+
+  return { methods, timeline };
+}
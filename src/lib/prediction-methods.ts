@@ -0,0 +1,286 @@
+// src/lib/prediction-methods.ts
+import type { LotteryResult } from '@/types/lottery';
+import type { SinglePrediction } from '@/ai/flows/prediction-types';
+import type { GameFormat } from '@/config/draw-schedule';
+import type { RandomSource } from '@/lib/seeded-random';
+import { daysBetweenDrawDates, toDrawDate } from '@/lib/draw-time';
+import { MODEL_METHOD_NAME, topNumbers, type PredictionModel } from '@/lib/prediction-model';
+
+export const MACHINE_TRANSITION_METHOD_NAME = "Machine → Gagnants";
+// Predicts machine numbers, so it is scored against the machine numbers of the next draw
+export const NEXT_MACHINE_METHOD_NAME = "Gagnants → Machine";
+
+// Pseudo-draws pulling a rarely seen number's follow-up rates toward the uniform rate
+const TRANSITION_PRIOR_DRAWS = 18;
+
+// --- Helper Functions ---
+
+// Every method draws from `random`, so a seeded source makes the whole prediction replayable
+export function generateRandomUniqueNumbers(count: number, min: number, max: number, existingNumbers: number[] = [], random: RandomSource = Math.random): number[] {
+  const numbers = new Set<number>(existingNumbers);
+  while (numbers.size < count) {
+    const randomNum = Math.floor(random() * (max - min + 1)) + min;
+    if (!numbers.has(randomNum)) {
+      numbers.add(randomNum);
+    }
+  }
+  // Ensure sorted output
+  return Array.from(numbers).slice(0, count).sort((a,b) => a - b);
+}
+
+// A pick of the game's size: `preferred` first, completed at random
+function completePick(format: GameFormat, preferred: number[], random: RandomSource): number[] {
+  return generateRandomUniqueNumbers(format.numbersDrawn, 1, format.maxNumber, preferred, random);
+}
+
+type NumberSet = 'gagnants' | 'machine';
+
+/**
+ * For each number, the summed rate at which it came out in the `to` numbers of the draw following
+ * one where a `from` number of the latest draw came out. Null when the history holds no such pair.
+ */
+function transitionScores(results: LotteryResult[], from: NumberSet, to: NumberSet, format: GameFormat): number[] | null {
+  const sorted = [...results].sort((a, b) => a.date.localeCompare(b.date));
+  const latest = sorted[sorted.length - 1];
+  if (!latest || latest[from].length === 0) return null;
+
+  const sources = new Set(latest[from]);
+  const occurrences = new Map<number, number>(); // Draws, followed by a usable one, where the source number came out
+  const followers = new Map<number, number[]>(); // followers.get(m)[n - 1] = times n came out next
+  for (let i = 0; i + 1 < sorted.length; i++) {
+    const next = sorted[i + 1][to];
+    if (next.length === 0) continue;
+    sorted[i][from].filter(m => sources.has(m)).forEach(m => {
+      occurrences.set(m, (occurrences.get(m) || 0) + 1);
+      const counts = followers.get(m) ?? new Array(format.maxNumber).fill(0);
+      next.forEach(n => counts[n - 1]++);
+      followers.set(m, counts);
+    });
+  }
+  if (occurrences.size === 0) return null;
+
+  const uniformRate = (to === 'machine' ? format.machineNumbers : format.numbersDrawn) / format.maxNumber;
+  return Array.from({ length: format.maxNumber }, (_, i) =>
+    Array.from(sources).reduce((score, m) => {
+      const seen = occurrences.get(m) || 0;
+      const followed = followers.get(m)?.[i] || 0;
+      return score + (followed + TRANSITION_PRIOR_DRAWS * uniformRate) / (seen + TRANSITION_PRIOR_DRAWS);
+    }, 0)
+  );
+}
+
+// Highest scores first; equal scores are ordered at random
+function topScoredNumbers(scores: number[], count: number, random: RandomSource): number[] {
+  return scores
+    .map((score, i) => ({ num: i + 1, score, tieBreak: random() }))
+    .sort((a, b) => b.score - a.score || a.tieBreak - b.tieBreak)
+    .slice(0, count)
+    .map(item => item.num)
+    .sort((a, b) => a - b);
+}
+
+// A method's pick before its confidence is attached from its track record on the category
+export type MethodPrediction = Omit<SinglePrediction, 'confidence' | 'confidenceScore' | 'confidenceExplanation'>;
+
+// --- Prediction Methods ---
+
+export function predictByFrequency(results: LotteryResult[], format: GameFormat, random: RandomSource = Math.random): MethodPrediction {
+  const count = format.numbersDrawn;
+  const frequencies: Record<string, number> = {};
+  results.forEach(result => {
+    result.gagnants.forEach(num => {
+      frequencies[num.toString()] = (frequencies[num.toString()] || 0) + 1;
+    });
+  });
+
+  const sortedNumbers = Object.entries(frequencies)
+    .map(([num, freq]) => ({ num: parseInt(num), freq }))
+    .sort((a, b) => b.freq - a.freq);
+
+  let predictedNumbers: number[];
+  if (sortedNumbers.length < count) {
+    predictedNumbers = completePick(format, sortedNumbers.map(s => s.num), random);
+  } else {
+    const topN = Math.min(sortedNumbers.length, Math.max(count * 2, 10));
+    const candidatePool = sortedNumbers.slice(0, topN).map(item => item.num);
+    
+    // Select from pool, but ensure variety and fill if pool is too small
+    const initialSelection = new Set<number>();
+    while(initialSelection.size < count && candidatePool.length > 0) {
+        const randomIndex = Math.floor(random() * candidatePool.length);
+        initialSelection.add(candidatePool[randomIndex]);
+        candidatePool.splice(randomIndex, 1); // Avoid re-picking the same index immediately
+    }
+    predictedNumbers = completePick(format, Array.from(initialSelection), random);
+  }
+
+  return {
+    methodName: "Fréquence",
+    predictedNumbers,
+    explanation: "Basé sur les numéros gagnants les plus fréquemment tirés. Favorise les numéros à haute fréquence tout en incluant quelques numéros moins fréquents pour l'équilibre.",
+  };
+}
+
+// Delays are counted in Abidjan calendar days up to `asOf` (now for live predictions, the evaluated draw in backtests)
+export function predictByDelay(results: LotteryResult[], format: GameFormat, asOf: Date = new Date(), random: RandomSource = Math.random): MethodPrediction {
+  if (results.length === 0) {
+    return {
+      methodName: "Retards",
+      predictedNumbers: completePick(format, [], random),
+      explanation: "Généré aléatoirement en raison de l'absence de données historiques.",
+    };
+  }
+  const lastSeen: Record<string, string> = {}; 
+  const allPossibleNumbers = Array.from({ length: format.maxNumber }, (_, i) => i + 1);
+
+  results.forEach(result => {
+    result.gagnants.forEach(num => {
+      if (!lastSeen[num.toString()] || result.date > lastSeen[num.toString()]) {
+        lastSeen[num.toString()] = result.date;
+      }
+    });
+  });
+  
+  const asOfDate = toDrawDate(asOf);
+  const numberDelays = allPossibleNumbers.map(num => {
+    const lastDate = lastSeen[num.toString()];
+    const delay = lastDate ? daysBetweenDrawDates(lastDate, asOfDate) : format.maxNumber * 100; // Arbitrary large delay for unseen
+    return { num, delay };
+  }).sort((a, b) => b.delay - a.delay); 
+
+  let predictedNumbers = numberDelays.slice(0, format.numbersDrawn).map(item => item.num);
+  predictedNumbers = completePick(format, predictedNumbers, random);
+  
+  return {
+    methodName: "Retards",
+    predictedNumbers,
+    explanation: "Basé sur les numéros qui ne sont pas apparus récemment (les plus 'en retard'). Se base sur le principe que les numéros en retard ont plus de chances d'apparaître.",
+  };
+}
+
+
+export function predictByAssociation(results: LotteryResult[], format: GameFormat, random: RandomSource = Math.random): MethodPrediction {
+   if (results.length < 5) { 
+    return {
+      methodName: "Associations",
+      predictedNumbers: completePick(format, [], random),
+      explanation: "Données historiques insuffisantes. Généré aléatoirement. Analyse les paires de numéros qui apparaissent souvent ensemble.",
+    };
+  }
+
+  const pairFrequencies: Record<string, number> = {};
+  results.forEach(result => {
+    const sortedGagnants = [...result.gagnants].sort((a, b) => a - b);
+    for (let i = 0; i < sortedGagnants.length; i++) {
+      for (let j = i + 1; j < sortedGagnants.length; j++) {
+        const pairKey = `${sortedGagnants[i]}-${sortedGagnants[j]}`;
+        pairFrequencies[pairKey] = (pairFrequencies[pairKey] || 0) + 1;
+      }
+    }
+  });
+
+  const topPairs = Object.entries(pairFrequencies)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, Math.max(format.numbersDrawn * 2, 15)) // Consider a larger pool of top pairs
+    .map(([pairKey]) => pairKey.split('-').map(Number));
+
+  const associatedNumbersPool = new Set<number>();
+  topPairs.forEach(pair => {
+    associatedNumbersPool.add(pair[0]);
+    associatedNumbersPool.add(pair[1]);
+  });
+  
+  let predictedNumbers = completePick(format, Array.from(associatedNumbersPool), random);
+
+  return {
+    methodName: "Associations",
+    predictedNumbers,
+    explanation: "Basé sur les numéros qui apparaissent fréquemment ensemble en paires. Identifie les relations entre les numéros.",
+  };
+}
+
+
+export function predictByDistribution(results: LotteryResult[], format: GameFormat, random: RandomSource = Math.random): MethodPrediction {
+  if (results.length === 0) {
+     return {
+      methodName: "Distribution",
+      predictedNumbers: completePick(format, [], random),
+      explanation: "Généré aléatoirement. Tente de correspondre à la distribution historique des numéros par plages (dizaines).",
+    };
+  }
+  const ranges = Array.from({ length: Math.ceil(format.maxNumber / 10) }, (_, i) => ({
+    min: i * 10 + 1,
+    max: Math.min((i + 1) * 10, format.maxNumber),
+    count: 0,
+  }));
+
+  results.forEach(result => {
+    result.gagnants.forEach(num => {
+      const rangeIndex = Math.floor((num - 1) / 10);
+      if (ranges[rangeIndex]) {
+        ranges[rangeIndex].count++;
+      }
+    });
+  });
+
+  const avgNumbersPerRange = ranges.map(r => ({ ...r, avg: r.count / results.length }));
+  avgNumbersPerRange.sort((a,b) => b.avg - a.avg); 
+
+  const candidatePool: number[] = [];
+  for (const range of avgNumbersPerRange) {
+      const numToPickFromRange = Math.max(1, Math.round(range.avg));
+      for(let i=0; i < numToPickFromRange && candidatePool.length < format.numbersDrawn * 3; ++i){ 
+          candidatePool.push(Math.floor(random() * (range.max - range.min + 1)) + range.min);
+      }
+  }
+  
+  const predictedNumbers = completePick(format, candidatePool, random);
+
+  return {
+    methodName: "Distribution",
+    predictedNumbers,
+    explanation: "Tente de correspondre à la distribution historique des numéros par plages (dizaines). Génère des prédictions qui respectent cette distribution.",
+  };
+}
+
+export function predictWithModel(model: PredictionModel, probabilities: number[], count: number): MethodPrediction {
+  return {
+    methodName: MODEL_METHOD_NAME,
+    predictedNumbers: topNumbers(probabilities, count),
+    explanation: `Les ${count} numéros jugés les plus probables par un réseau de neurones entraîné sur ${model.trainingDraws} tirages de cette catégorie (fréquences récentes, retard, affinités avec le dernier tirage, dizaines).`,
+  };
+}
+
+// Winning numbers that most often followed, at the next draw, the machine numbers of the latest draw
+export function predictByMachineTransition(results: LotteryResult[], format: GameFormat, random: RandomSource = Math.random): MethodPrediction {
+  const scores = transitionScores(results, 'machine', 'gagnants', format);
+  if (!scores) {
+    return {
+      methodName: MACHINE_TRANSITION_METHOD_NAME,
+      predictedNumbers: completePick(format, [], random),
+      explanation: "Le dernier tirage n'a pas de numéros machine, ou l'historique n'en contient pas assez. Généré aléatoirement.",
+    };
+  }
+  return {
+    methodName: MACHINE_TRANSITION_METHOD_NAME,
+    predictedNumbers: topScoredNumbers(scores, format.numbersDrawn, random),
+    explanation: "Les numéros gagnants qui sont le plus souvent sortis au tirage suivant une apparition des numéros machine du dernier tirage.",
+  };
+}
+
+// Machine numbers that most often followed, at the next draw, the winning numbers of the latest draw
+export function predictNextMachineNumbers(results: LotteryResult[], format: GameFormat, random: RandomSource = Math.random): MethodPrediction {
+  const scores = transitionScores(results, 'gagnants', 'machine', format);
+  if (!scores) {
+    return {
+      methodName: NEXT_MACHINE_METHOD_NAME,
+      predictedNumbers: generateRandomUniqueNumbers(format.machineNumbers, 1, format.maxNumber, [], random),
+      explanation: "L'historique ne contient pas assez de numéros machine. Généré aléatoirement.",
+    };
+  }
+  return {
+    methodName: NEXT_MACHINE_METHOD_NAME,
+    predictedNumbers: topScoredNumbers(scores, format.machineNumbers, random),
+    explanation: "Les numéros machine qui sont le plus souvent sortis au tirage suivant une apparition des numéros gagnants du dernier tirage.",
+  };
+}
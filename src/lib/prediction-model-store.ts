@@ -0,0 +1,56 @@
+// src/lib/prediction-model-store.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getGameFormat, slugifyDrawName } from '@/config/draw-schedule';
+import { MODEL_FORMAT_VERSION, trainPredictionModel, type PredictionModel, type TrainingOptions } from '@/lib/prediction-model';
+import { getResultsRepository } from '@/lib/results-repository';
+
+const DEFAULT_MODELS_DIR = path.join(process.cwd(), 'data', 'prediction-models');
+
+function modelPath(drawName: string): string {
+  return path.join(process.env.PREDICTION_MODELS_DIR || DEFAULT_MODELS_DIR, `${slugifyDrawName(drawName)}.json`);
+}
+
+// Resolves to null when the category was never trained, was trained by an older format or for another game
+export async function readPredictionModel(drawName: string): Promise<PredictionModel | null> {
+  try {
+    const content = await fs.readFile(modelPath(drawName), 'utf-8');
+    const model = JSON.parse(content) as PredictionModel;
+    return model.version === MODEL_FORMAT_VERSION && model.gameFormat === getGameFormat(drawName).id ? model : null;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Replaced atomically (temp file + rename): a concurrent read never sees a half-written model
+export async function writePredictionModel(model: PredictionModel): Promise<void> {
+  const filePath = modelPath(model.drawName);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(model, null, 2), 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
+
+const trainingInProgress = new Map<string, Promise<PredictionModel>>();
+
+// The stored model of a category, trained and saved first when there is none. Concurrent callers
+// share a single training instead of each fitting and writing their own.
+export async function getOrTrainPredictionModel(drawName: string): Promise<PredictionModel> {
+  const stored = await readPredictionModel(drawName);
+  if (stored) return stored;
+  let training = trainingInProgress.get(drawName);
+  if (!training) {
+    training = retrainPredictionModel(drawName).finally(() => trainingInProgress.delete(drawName));
+    trainingInProgress.set(drawName, training);
+  }
+  return training;
+}
+
+/** Retrains a category on its stored results and saves the new weights in place of the old ones. */
+export async function retrainPredictionModel(drawName: string, options: TrainingOptions = {}): Promise<PredictionModel> {
+  const results = await getResultsRepository().list({ drawName, order: 'asc' });
+  const model = trainPredictionModel(drawName, results, options);
+  await writePredictionModel(model);
+  return model;
+}
@@ -0,0 +1,316 @@
+// src/lib/prediction-model.ts
+import type { LotteryResult } from '@/types/lottery';
+import { getGameFormat, type GameFormat } from '@/config/draw-schedule';
+import { createSeededRandom, type RandomSource } from '@/lib/seeded-random';
+import { countHits, randomBaseline, summarizeHits, type HitSummary } from '@/lib/random-baseline';
+
+export const MODEL_FORMAT_VERSION = 2;
+export const MODEL_METHOD_NAME = 'Réseau de neurones (MLP)';
+
+const MAX_RATIO = 4; // Ratios to chance are capped, then scaled to [0, 1]
+
+const HIDDEN_UNITS = 12;
+const LEARNING_RATE = 0.01;
+const MIN_TRAINING_SAMPLES = 20; // Below this, a holdout evaluation would mean nothing
+export const DEFAULT_TRAINING_SEED = 1;
+
+// Every number gets the same features, computed from the draws before the one being predicted
+export const FEATURE_NAMES = [
+  'Fréquence (10 derniers tirages)',
+  'Fréquence (30 derniers tirages)',
+  'Fréquence (100 derniers tirages)',
+  'Fréquence (historique complet)',
+  'Retard',
+  'Sorti au dernier tirage',
+  'Affinité avec le dernier tirage',
+  'Fréquence de sa dizaine (30 derniers tirages)',
+];
+
+export interface MlpWeights {
+  hidden: number[][]; // [HIDDEN_UNITS][FEATURE_NAMES.length]
+  hiddenBias: number[];
+  output: number[];
+  outputBias: number;
+}
+
+export interface ModelEvaluation extends HitSummary {
+  heldOutDraws: number; // Latest draws kept out of training to measure the model
+  baselineMeanHits: number;
+  logLoss: number; // Mean binary cross-entropy of the per-number probabilities on the held-out draws
+  baselineLogLoss: number; // Same, when every number gets the base rate
+}
+
+/** A trained model of one draw category, as serialized to disk. */
+export interface PredictionModel {
+  version: typeof MODEL_FORMAT_VERSION;
+  drawName: string;
+  gameFormat: string; // Id of the game format it was trained on; the weights mean nothing for another one
+  trainedAt: string; // ISO timestamp
+  trainingDraws: number;
+  latestTrainingDate?: string; // YYYY-MM-DD
+  seed: number;
+  epochs: number;
+  featureNames: string[];
+  weights: MlpWeights;
+  evaluation: ModelEvaluation;
+}
+
+export interface TrainingOptions {
+  seed?: number; // Weight initialization and sample order (default DEFAULT_TRAINING_SEED)
+  epochs?: number; // Passes over the history (default 15)
+  evaluationDraws?: number; // Latest draws held out for the evaluation, at most a quarter of the history (default 100, 0 to skip)
+  now?: Date;
+}
+
+// --- Features ---
+
+export interface FeatureTracker {
+  push(gagnants: number[]): void;
+  features(): number[][]; // One row per number, index n - 1
+}
+
+// Chance that a given number is drawn, and that a given pair is
+function chanceRates({ numbersDrawn, maxNumber }: GameFormat): { base: number; pair: number } {
+  return {
+    base: numbersDrawn / maxNumber,
+    pair: (numbersDrawn * (numbersDrawn - 1)) / (maxNumber * (maxNumber - 1)),
+  };
+}
+
+function scaledRatio(observed: number, expected: number): number {
+  return expected > 0 ? Math.min(observed / expected, MAX_RATIO) / MAX_RATIO : 1 / MAX_RATIO;
+}
+
+/** Follows a category draw by draw (oldest first) and describes every number before the next draw. */
+export function createFeatureTracker(format: GameFormat): FeatureTracker {
+  const poolSize = format.maxNumber;
+  const { base: baseRate, pair: pairRate } = chanceRates(format);
+  const draws: number[][] = [];
+  const totals = new Array<number>(poolSize + 1).fill(0);
+  const lastSeen = new Array<number>(poolSize + 1).fill(-1);
+  const pairs = new Float64Array((poolSize + 1) * (poolSize + 1));
+
+  const countInLast = (window: number): number[] => {
+    const counts = new Array<number>(poolSize + 1).fill(0);
+    draws.slice(-window).forEach(draw => draw.forEach(n => counts[n]++));
+    return counts;
+  };
+
+  return {
+    push(gagnants) {
+      const numbers = gagnants.filter(n => n >= 1 && n <= poolSize);
+      numbers.forEach(n => {
+        totals[n]++;
+        lastSeen[n] = draws.length;
+        numbers.forEach(m => { if (m !== n) pairs[n * (poolSize + 1) + m]++; });
+      });
+      draws.push(numbers);
+    },
+
+    features() {
+      const t = draws.length;
+      const windows = [10, 30, 100].map(window => ({ size: Math.min(window, t), counts: countInLast(window) }));
+      const last = t > 0 ? draws[t - 1] : [];
+      const decadeCounts = new Array<number>(Math.ceil(poolSize / 10)).fill(0);
+      windows[1].counts.forEach((count, n) => { if (n > 0) decadeCounts[Math.floor((n - 1) / 10)] += count; });
+
+      return Array.from({ length: poolSize }, (_, i) => {
+        const n = i + 1;
+        const partners = last.filter(m => m !== n);
+        const pairCount = partners.reduce((sum, m) => sum + pairs[n * (poolSize + 1) + m], 0);
+        const decade = Math.floor((n - 1) / 10);
+        const decadeSize = Math.min(poolSize, (decade + 1) * 10) - decade * 10;
+        return [
+          ...windows.map(w => scaledRatio(w.counts[n], w.size * baseRate)),
+          scaledRatio(totals[n], t * baseRate),
+          lastSeen[n] < 0 ? 1 : Math.min(t - 1 - lastSeen[n], poolSize) / poolSize,
+          last.includes(n) ? 1 : 0,
+          scaledRatio(pairCount, t * pairRate * partners.length),
+          scaledRatio(decadeCounts[decade], windows[1].size * format.numbersDrawn * (decadeSize / poolSize)),
+        ];
+      });
+    },
+  };
+}
+
+// --- Network ---
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+function initialWeights(random: RandomSource, format: GameFormat): MlpWeights {
+  const baseRate = chanceRates(format).base;
+  const inputs = FEATURE_NAMES.length;
+  const scale = (fanIn: number) => Math.sqrt(1 / fanIn); // Xavier initialization, suited to tanh
+  const uniform = (limit: number) => (random() * 2 - 1) * limit * Math.sqrt(3);
+  return {
+    hidden: Array.from({ length: HIDDEN_UNITS }, () => Array.from({ length: inputs }, () => uniform(scale(inputs)))),
+    hiddenBias: new Array<number>(HIDDEN_UNITS).fill(0),
+    output: Array.from({ length: HIDDEN_UNITS }, () => uniform(scale(HIDDEN_UNITS))),
+    outputBias: Math.log(baseRate / (1 - baseRate)), // Starts by predicting the base rate
+  };
+}
+
+// Plain loops: this runs for every number of every draw of every epoch
+function forward(weights: MlpWeights, x: number[]): { hidden: number[]; probability: number } {
+  const hidden = new Array<number>(HIDDEN_UNITS);
+  let z = weights.outputBias;
+  for (let j = 0; j < HIDDEN_UNITS; j++) {
+    const row = weights.hidden[j];
+    let sum = weights.hiddenBias[j];
+    for (let k = 0; k < row.length; k++) sum += row[k] * x[k];
+    hidden[j] = Math.tanh(sum);
+    z += hidden[j] * weights.output[j];
+  }
+  return { hidden, probability: sigmoid(z) };
+}
+
+/** Probability of each number (index n - 1) being among the winning numbers of the next draw. */
+export function scoreNumbers(model: PredictionModel, features: number[][]): number[] {
+  return features.map(x => forward(model.weights, x).probability);
+}
+
+/** The `count` most probable numbers, sorted ascending. */
+export function topNumbers(probabilities: number[], count: number): number[] {
+  return probabilities
+    .map((probability, i) => ({ number: i + 1, probability }))
+    .sort((a, b) => b.probability - a.probability || a.number - b.number)
+    .slice(0, count)
+    .map(item => item.number)
+    .sort((a, b) => a - b);
+}
+
+interface TrainingSample {
+  features: number[][];
+  gagnants: number[];
+}
+
+// Adam over one draw (all its numbers) per step, with binary cross-entropy on "drawn / not drawn"
+function fit(samples: TrainingSample[], epochs: number, random: RandomSource, format: GameFormat): MlpWeights {
+  const weights = initialWeights(random, format);
+  const params = [...weights.hidden.flat(), ...weights.hiddenBias, ...weights.output, weights.outputBias];
+  const m = new Float64Array(params.length);
+  const v = new Float64Array(params.length);
+  const inputs = FEATURE_NAMES.length;
+  const [beta1, beta2, epsilon] = [0.9, 0.999, 1e-8];
+  let step = 0;
+
+  const order = samples.map((_, i) => i);
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    for (const index of order) {
+      const { features, gagnants } = samples[index];
+      const grad = new Float64Array(params.length);
+      features.forEach((x, i) => {
+        const { hidden, probability } = forward(weights, x);
+        const delta = (probability - (gagnants.includes(i + 1) ? 1 : 0)) / features.length;
+        const outputOffset = HIDDEN_UNITS * inputs + HIDDEN_UNITS;
+        hidden.forEach((h, j) => {
+          grad[outputOffset + j] += delta * h;
+          const hiddenDelta = delta * weights.output[j] * (1 - h * h);
+          for (let k = 0; k < inputs; k++) grad[j * inputs + k] += hiddenDelta * x[k];
+          grad[HIDDEN_UNITS * inputs + j] += hiddenDelta;
+        });
+        grad[params.length - 1] += delta;
+      });
+
+      step++;
+      for (let p = 0; p < params.length; p++) {
+        m[p] = beta1 * m[p] + (1 - beta1) * grad[p];
+        v[p] = beta2 * v[p] + (1 - beta2) * grad[p] * grad[p];
+        const mHat = m[p] / (1 - beta1 ** step);
+        const vHat = v[p] / (1 - beta2 ** step);
+        params[p] -= (LEARNING_RATE * mHat) / (Math.sqrt(vHat) + epsilon);
+      }
+      unflatten(params, weights);
+    }
+  }
+  return weights;
+}
+
+function unflatten(params: number[], weights: MlpWeights): void {
+  const inputs = FEATURE_NAMES.length;
+  weights.hidden.forEach((row, j) => row.forEach((_, k) => { row[k] = params[j * inputs + k]; }));
+  weights.hiddenBias.forEach((_, j) => { weights.hiddenBias[j] = params[HIDDEN_UNITS * inputs + j]; });
+  weights.output.forEach((_, j) => { weights.output[j] = params[HIDDEN_UNITS * inputs + HIDDEN_UNITS + j]; });
+  weights.outputBias = params[params.length - 1];
+}
+
+function evaluate(weights: MlpWeights, heldOut: TrainingSample[], format: GameFormat): ModelEvaluation {
+  const baseRate = chanceRates(format).base;
+  const clamp = (p: number) => Math.min(1 - 1e-12, Math.max(1e-12, p));
+  const crossEntropy = (p: number, drawn: boolean) => -Math.log(drawn ? clamp(p) : 1 - clamp(p));
+  const hits: number[] = [];
+  let logLoss = 0;
+  let baselineLogLoss = 0;
+  heldOut.forEach(({ features, gagnants }) => {
+    const probabilities = features.map(x => forward(weights, x).probability);
+    hits.push(countHits(topNumbers(probabilities, format.numbersDrawn), gagnants));
+    probabilities.forEach((p, i) => {
+      logLoss += crossEntropy(p, gagnants.includes(i + 1));
+      baselineLogLoss += crossEntropy(baseRate, gagnants.includes(i + 1));
+    });
+  });
+  const predictions = heldOut.length * format.maxNumber;
+  return {
+    ...summarizeHits(hits, format),
+    heldOutDraws: heldOut.length,
+    baselineMeanHits: randomBaseline(heldOut.length, format).meanHits,
+    logLoss: predictions > 0 ? logLoss / predictions : 0,
+    baselineLogLoss: predictions > 0 ? baselineLogLoss / predictions : 0,
+  };
+}
+
+function categoryHistory(drawName: string, results: LotteryResult[]): LotteryResult[] {
+  const format = getGameFormat(drawName);
+  return results
+    .filter(r => r.draw_name === drawName && r.gagnants.length === format.numbersDrawn)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Trains the model of a category on its stored history. The latest draws are first held out to
+ * measure the model against a random pick, then the returned weights are fitted on everything.
+ */
+export function trainPredictionModel(drawName: string, results: LotteryResult[], options: TrainingOptions = {}): PredictionModel {
+  const seed = options.seed ?? DEFAULT_TRAINING_SEED;
+  const epochs = options.epochs ?? 15;
+  const format = getGameFormat(drawName);
+  const history = categoryHistory(drawName, results);
+
+  const tracker = createFeatureTracker(format);
+  const samples: TrainingSample[] = history.map(result => {
+    const sample = { features: tracker.features(), gagnants: result.gagnants };
+    tracker.push(result.gagnants);
+    return sample;
+  });
+
+  const heldOutDraws = Math.min(options.evaluationDraws ?? 100, Math.floor(samples.length / 4));
+  const evaluation = heldOutDraws > 0 && samples.length - heldOutDraws >= MIN_TRAINING_SAMPLES
+    ? evaluate(fit(samples.slice(0, -heldOutDraws), epochs, createSeededRandom(seed), format), samples.slice(-heldOutDraws), format)
+    : evaluate(initialWeights(createSeededRandom(seed), format), [], format);
+
+  return {
+    version: MODEL_FORMAT_VERSION,
+    drawName,
+    gameFormat: format.id,
+    trainedAt: (options.now ?? new Date()).toISOString(),
+    trainingDraws: history.length,
+    latestTrainingDate: history.length > 0 ? history[history.length - 1].date : undefined,
+    seed,
+    epochs,
+    featureNames: FEATURE_NAMES,
+    weights: fit(samples, epochs, createSeededRandom(seed), format),
+    evaluation,
+  };
+}
+
+/** Per-number probabilities for the next draw of the model's category, given its results. */
+export function predictNumberProbabilities(model: PredictionModel, results: LotteryResult[]): number[] {
+  const tracker = createFeatureTracker(getGameFormat(model.drawName));
+  categoryHistory(model.drawName, results).forEach(result => tracker.push(result.gagnants));
+  return scoreNumbers(model, tracker.features());
+}
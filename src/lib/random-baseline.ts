@@ -0,0 +1,88 @@
+// src/lib/random-baseline.ts
+import type { GameFormat } from '@/config/draw-schedule';
+
+const Z_95 = 1.96;
+
+// Whether a mean number of hits differs from chance at the 95% level
+export type BaselineVerdict = 'better' | 'worse' | 'chance';
+
+export interface HitSummary {
+  evaluations: number;
+  hitDistribution: number[]; // hitDistribution[k] = draws where k winning numbers were matched (k = 0..numbersDrawn)
+  meanHits: number;
+  confidenceInterval: [number, number]; // 95% interval of the mean hits
+  zScore: number; // Distance from the random expectation, in standard errors under the "no better than chance" hypothesis
+  verdict: BaselineVerdict;
+}
+
+export interface RandomBaseline {
+  meanHits: number; // Expected matches of a uniformly random pick
+  hitProbabilities: number[]; // Exact probability of k matches
+  confidenceInterval: [number, number]; // Range a random picker's mean stays in over the evaluated draws, 95% of the time
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+  return result;
+}
+
+// Matches between a random pick and the draw follow a hypergeometric distribution
+function randomHitProbabilities({ numbersDrawn, maxNumber }: GameFormat): number[] {
+  const total = binomial(maxNumber, numbersDrawn);
+  return Array.from({ length: numbersDrawn + 1 }, (_, k) =>
+    (binomial(numbersDrawn, k) * binomial(maxNumber - numbersDrawn, numbersDrawn - k)) / total
+  );
+}
+
+function randomMoments(format: GameFormat): { mean: number; variance: number; hitProbabilities: number[] } {
+  const hitProbabilities = randomHitProbabilities(format);
+  const mean = hitProbabilities.reduce((sum, p, k) => sum + p * k, 0);
+  const variance = hitProbabilities.reduce((sum, p, k) => sum + p * (k - mean) ** 2, 0);
+  return { mean, variance, hitProbabilities };
+}
+
+export function countHits(predicted: number[], gagnants: number[]): number {
+  return predicted.filter(n => gagnants.includes(n)).length;
+}
+
+// A random pick of the game's size, matched against its winning numbers
+export function randomBaseline(evaluations: number, format: GameFormat): RandomBaseline {
+  const { mean, variance, hitProbabilities } = randomMoments(format);
+  const margin = evaluations > 0 ? Z_95 * Math.sqrt(variance / evaluations) : 0;
+  return { meanHits: mean, hitProbabilities, confidenceInterval: [Math.max(0, mean - margin), mean + margin] };
+}
+
+/** Compares the hits of a method, one entry per evaluated draw, with the exact expectation of a random pick. */
+export function summarizeHits(hits: number[], format: GameFormat): HitSummary {
+  const { mean, variance } = randomMoments(format);
+  const hitDistribution = Array.from({ length: format.numbersDrawn + 1 }, (_, k) => hits.filter(h => h === k).length);
+  if (hits.length === 0) {
+    return { evaluations: 0, hitDistribution, meanHits: 0, confidenceInterval: [0, 0], zScore: 0, verdict: 'chance' };
+  }
+  const meanHits = hits.reduce((sum, h) => sum + h, 0) / hits.length;
+  const sampleVariance = hits.length > 1 ? hits.reduce((sum, h) => sum + (h - meanHits) ** 2, 0) / (hits.length - 1) : 0;
+  const margin = Z_95 * Math.sqrt(sampleVariance / hits.length);
+  const zScore = (meanHits - mean) / Math.sqrt(variance / hits.length);
+  return {
+    evaluations: hits.length,
+    hitDistribution,
+    meanHits,
+    confidenceInterval: [Math.max(0, meanHits - margin), meanHits + margin],
+    zScore,
+    verdict: zScore > Z_95 ? 'better' : zScore < -Z_95 ? 'worse' : 'chance',
+  };
+}
+
+/**
+ * Lower 95% bound of a method's mean hits. The spread used is at least that of a random pick, so a
+ * handful of lucky draws (whose sample spread can be zero) never reads as a reliable method.
+ */
+export function conservativeMeanHits(summary: HitSummary, format: GameFormat): number {
+  if (summary.evaluations === 0) return 0;
+  const { variance } = randomMoments(format);
+  const sampleVariance = summary.evaluations > 1
+    ? summary.hitDistribution.reduce((sum, count, k) => sum + count * (k - summary.meanHits) ** 2, 0) / (summary.evaluations - 1)
+    : 0;
+  return Math.max(0, summary.meanHits - Z_95 * Math.sqrt(Math.max(sampleVariance, variance) / summary.evaluations));
+}
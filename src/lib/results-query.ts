@@ -0,0 +1,87 @@
+// src/lib/results-query.ts
+import { z } from 'zod';
+import { getDrawNameBySlug, getUniqueDrawNames } from '@/config/draw-schedule';
+import type { ResultsQuery } from '@/lib/results-repository';
+import type { LotteryResult, PaginatedResults } from '@/types/lottery';
+
+const RESULT_FIELDS = ['draw_name', 'date', 'gagnants', 'machine'] as const;
+type ResultField = typeof RESULT_FIELDS[number];
+
+const MAX_LIMIT = 1000;
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date au format YYYY-MM-DD attendue.');
+
+// Query parameters of GET /api/results. Every parameter is optional; without `limit` all matches are returned.
+export const ResultsQueryParamsSchema = z.object({
+  draw: z.string().optional().transform((value, ctx) => {
+    if (!value) return undefined;
+    // Accept either the draw name ("Monday Special") or its slug ("monday-special")
+    const drawName = getUniqueDrawNames().find(name => name === value) || getDrawNameBySlug(value);
+    if (!drawName) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Tirage inconnu: "${value}".` });
+      return z.NEVER;
+    }
+    return drawName;
+  }),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LIMIT).optional(),
+  cursor: z.string().optional(),
+  sort: z.enum(['date', '-date']).default('-date'), // '-date' = newest first
+  fields: z.string().optional().transform((value, ctx) => {
+    if (!value) return undefined;
+    const fields = value.split(',').map(f => f.trim()).filter(Boolean);
+    const unknown = fields.filter(f => !(RESULT_FIELDS as readonly string[]).includes(f));
+    if (unknown.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Champs inconnus: ${unknown.join(', ')}. Champs disponibles: ${RESULT_FIELDS.join(', ')}.` });
+      return z.NEVER;
+    }
+    return fields as ResultField[];
+  }),
+});
+export type ResultsQueryParams = z.infer<typeof ResultsQueryParamsSchema>;
+
+export function toRepositoryQuery(params: ResultsQueryParams): ResultsQuery {
+  return {
+    drawName: params.draw,
+    from: params.from,
+    to: params.to,
+    order: params.sort === 'date' ? 'asc' : 'desc',
+  };
+}
+
+// Cursors are opaque to clients; they carry the offset of the next page.
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return Number.isInteger(o) && o >= 0 ? o : null;
+  } catch {
+    return null;
+  }
+}
+
+function pickFields(result: LotteryResult, fields: ResultField[]): Partial<LotteryResult> {
+  const picked: Partial<LotteryResult> = {};
+  fields.forEach(field => {
+    (picked as Record<string, unknown>)[field] = result[field];
+  });
+  return picked;
+}
+
+// Slices already filtered and sorted results into the paginated envelope.
+export function paginateResults(
+  results: LotteryResult[],
+  params: ResultsQueryParams,
+  offset: number
+): PaginatedResults<Partial<LotteryResult>> {
+  const end = params.limit ? offset + params.limit : results.length;
+  const page = results.slice(offset, end);
+  return {
+    items: params.fields ? page.map(r => pickFields(r, params.fields!)) : page,
+    nextCursor: end < results.length ? encodeCursor(end) : null,
+    total: results.length,
+  };
+}
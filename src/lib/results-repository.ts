@@ -0,0 +1,277 @@
+// src/lib/results-repository.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LotteryResult } from '@/types/lottery';
+import { compareDraws } from '@/config/draw-schedule';
+
+export interface ResultsQuery {
+  drawName?: string;
+  from?: string; // Inclusive, YYYY-MM-DD
+  to?: string; // Inclusive, YYYY-MM-DD
+  order?: 'asc' | 'desc'; // By date; defaults to newest first
+}
+
+export interface InsertResultsSummary {
+  inserted: LotteryResult[];
+  skipped: number; // Rows already present for the same (draw_name, date)
+}
+
+export interface ResultKey {
+  draw_name: string;
+  date: string;
+}
+
+// Thrown when a write would create a second row for the same (draw_name, date).
+export class ResultConflictError extends Error {
+  constructor(public readonly key: ResultKey) {
+    super(`Un résultat existe déjà pour ${key.draw_name} à la date ${key.date}.`);
+    this.name = 'ResultConflictError';
+  }
+}
+
+// Thrown when updating or deleting a row that is not stored.
+export class ResultNotFoundError extends Error {
+  constructor(public readonly key: ResultKey) {
+    super(`Aucun résultat trouvé pour ${key.draw_name} à la date ${key.date}.`);
+    this.name = 'ResultNotFoundError';
+  }
+}
+
+/**
+ * Server-side storage for lottery results, keyed by (draw_name, date).
+ * The scraper only inserts new rows; the admin panel can also edit and delete them.
+ * API routes and pages read from it.
+ */
+export interface ResultsRepository {
+  list(query?: ResultsQuery): Promise<LotteryResult[]>;
+  get(drawName: string, date: string): Promise<LotteryResult | undefined>;
+  insert(result: LotteryResult): Promise<LotteryResult>; // Throws ResultConflictError
+  insertMany(results: LotteryResult[]): Promise<InsertResultsSummary>;
+  // Throws ResultNotFoundError, or ResultConflictError when the new (draw_name, date) is taken
+  update(key: ResultKey, changes: Partial<LotteryResult>): Promise<LotteryResult>;
+  // Reads the row of `key` and stores what `change` makes of it (null deletes it) in one step, so no
+  // other write lands in between; `change` throws to abort. Throws ResultConflictError like `update`.
+  replace<T extends LotteryResult | null>(key: ResultKey, change: (current: LotteryResult | undefined) => T): Promise<{ before: LotteryResult | null; after: T }>;
+  delete(key: ResultKey): Promise<LotteryResult>; // Throws ResultNotFoundError
+  deleteByDrawName(drawName: string): Promise<LotteryResult[]>; // Resolves to the deleted rows
+  latestDate(drawName?: string): Promise<string | undefined>;
+  count(drawName?: string): Promise<number>;
+}
+
+interface ResultsStoreFile {
+  version: 1;
+  results: LotteryResult[];
+}
+
+export function resultKey(drawName: string, date: string): string {
+  return `${drawName}|${date}`;
+}
+
+// Newest first: by date descending, then the latest slot of the day first (18H15 before 10H)
+export function compareResults(a: LotteryResult, b: LotteryResult): number {
+  return compareDraws(b, a);
+}
+
+function toStoredResult(result: LotteryResult): LotteryResult {
+  // clientId is an admin-panel concern and is never persisted
+  return {
+    draw_name: result.draw_name,
+    date: result.date,
+    gagnants: [...result.gagnants],
+    machine: Array.isArray(result.machine) ? [...result.machine] : [],
+  };
+}
+
+/**
+ * JSON-file backed repository. The whole file is loaded once and kept in memory;
+ * every write rewrites the file atomically (temp file + rename) and writes are serialized.
+ */
+export class FileResultsRepository implements ResultsRepository {
+  private rows: Map<string, LotteryResult> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private async load(): Promise<Map<string, LotteryResult>> {
+    if (this.rows) return this.rows;
+    const rows = new Map<string, LotteryResult>();
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(content) as ResultsStoreFile;
+      (parsed.results || []).forEach(r => rows.set(resultKey(r.draw_name, r.date), toStoredResult(r)));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Impossible de lire le stockage des résultats (${this.filePath}): ${error.message}`);
+      }
+    }
+    this.rows = rows;
+    return rows;
+  }
+
+  private async persist(rows: Map<string, LotteryResult>): Promise<void> {
+    const data: ResultsStoreFile = {
+      version: 1,
+      results: Array.from(rows.values()).sort(compareResults),
+    };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  // Runs a mutation after any pending one, then persists the result.
+  protected mutate<T>(fn: (rows: Map<string, LotteryResult>) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const rows = await this.load();
+      const outcome = fn(rows);
+      await this.persist(rows);
+      return outcome;
+    });
+    this.writeQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  async list(query: ResultsQuery = {}): Promise<LotteryResult[]> {
+    const rows = await this.load();
+    const results = Array.from(rows.values()).filter(r =>
+      (!query.drawName || r.draw_name === query.drawName) &&
+      (!query.from || r.date >= query.from) &&
+      (!query.to || r.date <= query.to)
+    );
+    return results.map(toStoredResult).sort(query.order === 'asc' ? compareDraws : compareResults);
+  }
+
+  async get(drawName: string, date: string): Promise<LotteryResult | undefined> {
+    const rows = await this.load();
+    const row = rows.get(resultKey(drawName, date));
+    return row ? toStoredResult(row) : undefined;
+  }
+
+  insertMany(results: LotteryResult[]): Promise<InsertResultsSummary> {
+    return this.mutate(rows => {
+      const inserted: LotteryResult[] = [];
+      let skipped = 0;
+      results.forEach(result => {
+        const key = resultKey(result.draw_name, result.date);
+        if (rows.has(key)) {
+          skipped++;
+          return;
+        }
+        const stored = toStoredResult(result);
+        rows.set(key, stored);
+        inserted.push(toStoredResult(stored));
+      });
+      return { inserted, skipped };
+    });
+  }
+
+  insert(result: LotteryResult): Promise<LotteryResult> {
+    return this.mutate(rows => {
+      const key = resultKey(result.draw_name, result.date);
+      if (rows.has(key)) {
+        throw new ResultConflictError(result);
+      }
+      const stored = toStoredResult(result);
+      rows.set(key, stored);
+      return toStoredResult(stored);
+    });
+  }
+
+  update(key: ResultKey, changes: Partial<LotteryResult>): Promise<LotteryResult> {
+    return this.mutate(rows => {
+      const currentKey = resultKey(key.draw_name, key.date);
+      const current = rows.get(currentKey);
+      if (!current) {
+        throw new ResultNotFoundError(key);
+      }
+      const updated = toStoredResult({ ...current, ...changes });
+      const updatedKey = resultKey(updated.draw_name, updated.date);
+      if (updatedKey !== currentKey) {
+        if (rows.has(updatedKey)) {
+          throw new ResultConflictError(updated);
+        }
+        rows.delete(currentKey);
+      }
+      rows.set(updatedKey, updated);
+      return toStoredResult(updated);
+    });
+  }
+
+  replace<T extends LotteryResult | null>(key: ResultKey, change: (current: LotteryResult | undefined) => T): Promise<{ before: LotteryResult | null; after: T }> {
+    return this.mutate(rows => {
+      const currentKey = resultKey(key.draw_name, key.date);
+      const current = rows.get(currentKey);
+      const before = current ? toStoredResult(current) : null;
+      const next = change(current ? toStoredResult(current) : undefined);
+      if (next === null) {
+        rows.delete(currentKey);
+        return { before, after: next };
+      }
+      const replacement = toStoredResult(next);
+      const replacementKey = resultKey(replacement.draw_name, replacement.date);
+      if (replacementKey !== currentKey && rows.has(replacementKey)) {
+        throw new ResultConflictError(replacement);
+      }
+      rows.delete(currentKey);
+      rows.set(replacementKey, replacement);
+      return { before, after: toStoredResult(replacement) as T };
+    });
+  }
+
+  delete(key: ResultKey): Promise<LotteryResult> {
+    return this.mutate(rows => {
+      const storedKey = resultKey(key.draw_name, key.date);
+      const current = rows.get(storedKey);
+      if (!current) {
+        throw new ResultNotFoundError(key);
+      }
+      rows.delete(storedKey);
+      return toStoredResult(current);
+    });
+  }
+
+  deleteByDrawName(drawName: string): Promise<LotteryResult[]> {
+    return this.mutate(rows => {
+      const deleted: LotteryResult[] = [];
+      Array.from(rows.entries()).forEach(([key, row]) => {
+        if (row.draw_name === drawName) {
+          rows.delete(key);
+          deleted.push(toStoredResult(row));
+        }
+      });
+      return deleted.sort(compareResults);
+    });
+  }
+
+  async latestDate(drawName?: string): Promise<string | undefined> {
+    const rows = await this.load();
+    let latest: string | undefined = undefined;
+    rows.forEach(r => {
+      if (drawName && r.draw_name !== drawName) return;
+      if (latest === undefined || r.date > latest) latest = r.date;
+    });
+    return latest;
+  }
+
+  async count(drawName?: string): Promise<number> {
+    const rows = await this.load();
+    if (!drawName) return rows.size;
+    let total = 0;
+    rows.forEach(r => {
+      if (r.draw_name === drawName) total++;
+    });
+    return total;
+  }
+}
+
+const DEFAULT_STORE_PATH = path.join(process.cwd(), 'data', 'results.json');
+
+let repository: ResultsRepository | null = null;
+
+// Shared repository instance for route handlers and server actions.
+export function getResultsRepository(): ResultsRepository {
+  if (!repository) {
+    repository = new FileResultsRepository(process.env.RESULTS_STORE_PATH || DEFAULT_STORE_PATH);
+  }
+  return repository;
+}
@@ -0,0 +1,122 @@
+// src/lib/results-scraper.ts
+import { getGameFormat, resolveDrawName } from '@/config/draw-schedule';
+import { gameFormatIssues, normalizeMachineNumbers } from '@/lib/game-format';
+import { createDrawDateInferrer } from '@/lib/draw-date-inference';
+import type { ResultSource } from '@/lib/sources/result-source';
+import type { LotteryResult } from '@/types/lottery';
+
+const MAX_PAGES = 20;
+
+export interface ScrapeOptions {
+  // Stop paginating after the first page containing a draw older than this date (YYYY-MM-DD).
+  stopBeforeDate?: string;
+  // Published names mapped to a category on top of the configured aliases (see resolveDrawName)
+  drawNameAliases?: Record<string, string>;
+}
+
+/** A draw published under a name no category matches, with its numbers as parsed. */
+export interface UnknownDraw {
+  rawName: string;
+  date: string; // YYYY-MM-DD
+  gagnants: number[];
+  machine: number[];
+}
+
+export interface ScrapeReport {
+  results: LotteryResult[];
+  pagesFetched: number;
+  rejected: number; // Draws dropped because of an invalid date or invalid numbers
+  unknownDraws: UnknownDraw[]; // Draws under an unknown name, left for the caller to quarantine
+  dateWarnings: string[]; // Dates whose weekday disagrees with the inferred year
+}
+
+/**
+ * Walks the pages of a result source and returns every valid draw found.
+ * Pages are ordered newest first, so with `stopBeforeDate` the walk ends as soon as it
+ * reaches draws that are already stored.
+ * Throws on network errors (including timeouts); callers decide how to surface them.
+ */
+export async function scrapeResults(source: ResultSource, options: ScrapeOptions = {}): Promise<ScrapeReport> {
+  const results: LotteryResult[] = [];
+  let pagesFetched = 0;
+  let rejected = 0;
+  const unknownDraws: UnknownDraw[] = [];
+  const dateWarnings: string[] = [];
+  // Pages are walked newest first, which is the order the year inference expects
+  const inferDrawDate = createDrawDateInferrer(source.referenceDate || new Date());
+
+  for (let page = 1; ; page++) {
+    if (page > MAX_PAGES) {
+      console.warn(`Reached page limit (${MAX_PAGES}). Stopping pagination.`);
+      break;
+    }
+
+    const sourcePage = await source.fetchPage(page);
+    if (!sourcePage) break;
+    pagesFetched++;
+
+    let reachedKnownDraws = false;
+    for (const day of sourcePage.days) {
+      const dateStr = day.date;
+      const inferredDate = inferDrawDate(dateStr);
+      if (!inferredDate) {
+        console.warn(`Invalid date format: ${dateStr}`);
+        rejected += day.draws.length;
+        continue;
+      }
+      const drawDate = inferredDate.date;
+      if (inferredDate.weekdayMismatch) {
+        const warning = `Weekday mismatch: "${dateStr}" resolved to ${drawDate} (${inferredDate.computedWeekday})`;
+        console.warn(warning);
+        dateWarnings.push(warning);
+      }
+
+      // The newest stored day is scraped again: later draws of that day may have been published since
+      if (options.stopBeforeDate && drawDate < options.stopBeforeDate) {
+        reachedKnownDraws = true;
+      }
+
+      for (const draw of day.draws) {
+        if (draw.winningNumbers && draw.winningNumbers.startsWith('.')) {
+          continue; // Draw not played yet
+        }
+        const drawName = resolveDrawName(draw.drawName, options.drawNameAliases);
+        if (!drawName) {
+          console.warn(`Unknown draw name "${draw.drawName}" on date ${drawDate}`);
+          unknownDraws.push({
+            rawName: draw.drawName,
+            date: drawDate,
+            gagnants: ((draw.winningNumbers || '').match(/\d+/g) || []).map(Number),
+            machine: ((draw.machineNumbers || '').match(/\d+/g) || []).map(Number),
+          });
+          continue;
+        }
+
+        const format = getGameFormat(drawName);
+        const winningNumbers = ((draw.winningNumbers || '').match(/\d+/g) || []).map(Number).slice(0, format.numbersDrawn);
+        // Handle potentially missing machineNumbers field or empty string; all zeros means none were drawn
+        const machineNumbers = normalizeMachineNumbers(
+          ((draw.machineNumbers || '').match(/\d+/g) || []).map(Number).slice(0, format.machineNumbers),
+          format
+        );
+
+        // Ensure winning numbers are valid, machine numbers are either empty or valid for the draw's game format
+        if (gameFormatIssues({ draw_name: drawName, gagnants: winningNumbers, machine: machineNumbers }).length === 0) {
+          results.push({
+            draw_name: drawName,
+            date: drawDate,
+            gagnants: winningNumbers,
+            machine: machineNumbers,
+          });
+        } else {
+          console.warn(`Incomplete or invalid data for draw ${drawName} on date ${drawDate}: Winning: ${winningNumbers.join(',')}, Machine: ${machineNumbers.join(',')}`);
+          rejected++;
+        }
+      }
+    }
+
+    if (reachedKnownDraws || !sourcePage.hasMore) break;
+  }
+
+  return { results, pagesFetched, rejected, unknownDraws, dateWarnings };
+}
@@ -0,0 +1,77 @@
+// src/lib/results-sync.ts
+import { appendAuditEntries, newAuditBatchId } from '@/lib/audit-log';
+import { quarantineDraws, readLearnedAliases } from '@/lib/draw-quarantine';
+import { scrapeResults } from '@/lib/results-scraper';
+import { scorePredictions } from '@/lib/prediction-ledger';
+import type { ResultsRepository } from '@/lib/results-repository';
+import { writeSyncCheckpoint, type SyncCheckpoint, type SyncMode } from '@/lib/sync-checkpoint';
+import { getConfiguredResultSource } from '@/lib/sources/configured-source';
+import type { ResultSource } from '@/lib/sources/result-source';
+
+/**
+ * Scrapes a result source (lotobonheur.ci unless configured otherwise) and writes the draws
+ * that are not stored yet.
+ * Existing rows are never overwritten by the scraper.
+ *
+ * In incremental mode (the default) pagination stops once it reaches draws older than the
+ * newest stored one; with an empty store it behaves like a full sync.
+ * Every run, successful or not, is recorded as the sync checkpoint, and each inserted draw
+ * gets an audit log entry attributed to "system". Ledger predictions targeting an inserted
+ * draw are scored. Draws published under an unknown name are quarantined for an admin to map
+ * to a category; names already mapped resolve directly.
+ */
+export async function syncResults(
+  repository: ResultsRepository,
+  mode: SyncMode = 'incremental',
+  source: ResultSource = getConfiguredResultSource()
+): Promise<SyncCheckpoint> {
+  const stopDate = mode === 'incremental' ? await repository.latestDate() : undefined;
+  const checkpoint: SyncCheckpoint = {
+    lastRunAt: new Date().toISOString(),
+    mode,
+    source: source.name,
+    stopDate,
+    pagesFetched: 0,
+    rowsFetched: 0,
+    rowsInserted: 0,
+    rowsRejected: 0,
+    rowsQuarantined: 0,
+    dateWarnings: [],
+  };
+
+  try {
+    const report = await scrapeResults(source, { stopBeforeDate: stopDate, drawNameAliases: await readLearnedAliases() });
+    const { inserted } = await repository.insertMany(report.results);
+    const batchId = newAuditBatchId();
+    await appendAuditEntries(inserted.map(result => ({
+      actor: 'system',
+      action: 'create' as const,
+      source: 'scraper-sync' as const,
+      before: null,
+      after: result,
+      batchId,
+    })));
+    await scorePredictions(inserted);
+    await quarantineDraws(report.unknownDraws.map(draw => ({ ...draw, source: source.name })));
+    checkpoint.pagesFetched = report.pagesFetched;
+    checkpoint.rowsFetched = report.results.length;
+    checkpoint.rowsInserted = inserted.length;
+    checkpoint.rowsRejected = report.rejected;
+    checkpoint.rowsQuarantined = report.unknownDraws.length;
+    checkpoint.dateWarnings = report.dateWarnings;
+  } catch (error: any) {
+    checkpoint.error = error.name === 'TimeoutError' ? 'Connection timed out.' : (error.message || 'Unexpected error.');
+    throw error;
+  } finally {
+    // Recording the run must not hide how it ended: a failure here is only logged
+    try {
+      checkpoint.lastRunAt = new Date().toISOString();
+      checkpoint.newestDrawDate = await repository.latestDate();
+      await writeSyncCheckpoint(checkpoint);
+    } catch (error) {
+      console.error('Failed to write the sync checkpoint:', error);
+    }
+  }
+
+  return checkpoint;
+}
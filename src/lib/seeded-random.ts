@@ -0,0 +1,26 @@
+// src/lib/seeded-random.ts
+
+// Returns a float in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+export const MAX_SEED = 0xffffffff;
+
+/** A fresh 32-bit seed, for runs that were not given one. */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * Mulberry32: a small, fast 32-bit generator. Not suitable for cryptography, but the same seed
+ * always yields the same sequence, which is all a replayable prediction needs.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,17 @@
+// src/lib/sources/configured-source.ts
+import path from 'path';
+import type { ResultSource } from './result-source';
+import { createLotoBonheurSource } from './lotobonheur-source';
+import { createFixtureSource } from './fixture-source';
+
+/**
+ * Source used by the sync job. `RESULTS_SOURCE=fixture` reads recorded pages from
+ * `RESULTS_FIXTURE_DIR` (default: fixtures/lotobonheur) for offline development;
+ * anything else scrapes lotobonheur.ci.
+ */
+export function getConfiguredResultSource(): ResultSource {
+  if (process.env.RESULTS_SOURCE === 'fixture') {
+    return createFixtureSource(process.env.RESULTS_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'lotobonheur'));
+  }
+  return createLotoBonheurSource();
+}
@@ -0,0 +1,45 @@
+// src/lib/sources/fixture-source.ts
+import { promises as fs, readFileSync } from 'fs';
+import path from 'path';
+import { parseISO } from 'date-fns';
+import type { ResultSource, SourcePage } from './result-source';
+import { toSourcePage, type ApiResponse } from './lotobonheur-source';
+
+/**
+ * Offline adapter reading recorded lotobonheur.ci pages from `<directory>/page-<n>.json`,
+ * i.e. the raw bodies of `GET https://lotobonheur.ci/api/results?page=<n>`.
+ * A missing file ends the walk, so a directory with page-1..page-3 behaves like a 3-page API.
+ * `recordedAt` (or `recordedAt` in `<directory>/meta.json`) anchors the year inference.
+ */
+export function createFixtureSource(directory: string, recordedAt?: Date): ResultSource {
+  if (!recordedAt) {
+    try {
+      const meta = JSON.parse(readFileSync(path.join(directory, 'meta.json'), 'utf-8')) as { recordedAt?: string };
+      if (meta.recordedAt) recordedAt = parseISO(meta.recordedAt);
+    } catch (e) { /* No meta.json: dates are inferred relative to today */ }
+  }
+
+  return {
+    name: `fixture:${directory}`,
+    referenceDate: recordedAt,
+    async fetchPage(page: number): Promise<SourcePage | null> {
+      const filePath = path.join(directory, `page-${page}.json`);
+      let content: string;
+      try {
+        content = await fs.readFile(filePath, 'utf-8');
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+      const resultsData = JSON.parse(content) as ApiResponse;
+      if (!resultsData.success) {
+        console.warn(`Fixture page ${filePath} is marked unsuccessful.`);
+        return null;
+      }
+      const sourcePage = toSourcePage(resultsData);
+      // Recorded sets rarely keep every page: only claim more pages if the next file exists
+      const nextExists = await fs.access(path.join(directory, `page-${page + 1}.json`)).then(() => true, () => false);
+      return { ...sourcePage, hasMore: sourcePage.hasMore && nextExists };
+    },
+  };
+}
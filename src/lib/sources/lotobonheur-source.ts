@@ -0,0 +1,88 @@
+// src/lib/sources/lotobonheur-source.ts
+import type { ResultSource, SourcePage } from './result-source';
+
+export const LOTOBONHEUR_API_URL = 'https://lotobonheur.ci/api/results';
+
+interface ApiDraw {
+  drawName: string;
+  winningNumbers: string;
+  machineNumbers?: string; // Make machineNumbers optional at API response level
+}
+
+interface ApiDailyResult {
+  date: string; // e.g., "dimanche 04/05"
+  drawResults: {
+    standardDraws: ApiDraw[];
+  };
+}
+
+interface ApiWeekResult {
+  drawResultsDaily: ApiDailyResult[];
+}
+
+export interface ApiResponse {
+  success: boolean;
+  drawsResultsWeekly: ApiWeekResult[];
+  hasMore?: boolean;
+}
+
+// Maps one page of the lotobonheur.ci API (as served or as recorded on disk) to a SourcePage.
+export function toSourcePage(resultsData: ApiResponse): SourcePage {
+  const days = (resultsData.drawsResultsWeekly || []).flatMap(week =>
+    (week.drawResultsDaily || []).map(dailyResult => ({
+      date: dailyResult.date,
+      draws: dailyResult.drawResults?.standardDraws || [],
+    }))
+  );
+  return { days, hasMore: resultsData.hasMore || false };
+}
+
+export interface LotoBonheurSourceOptions {
+  baseUrl?: string;
+  fetchImpl?: typeof fetch; // Injected by the mock HTTP source of `npm run check:offline`
+  timeoutMs?: number;
+}
+
+/**
+ * Live adapter for https://lotobonheur.ci/api/results.
+ * HTTP errors and unsuccessful responses end the walk (null); network errors are thrown.
+ */
+export function createLotoBonheurSource(options: LotoBonheurSourceOptions = {}): ResultSource {
+  const baseUrl = options.baseUrl || LOTOBONHEUR_API_URL;
+  const fetchImpl = options.fetchImpl || fetch;
+  const timeoutMs = options.timeoutMs ?? 15000;
+
+  return {
+    name: baseUrl,
+    async fetchPage(page: number): Promise<SourcePage | null> {
+      const url = `${baseUrl}?page=${page}`;
+      const response = await fetchImpl(url, {
+        method: 'GET',
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+          'Accept': 'application/json',
+          'Referer': 'https://lotobonheur.ci/resultats',
+        },
+        signal: AbortSignal.timeout(timeoutMs), // Standard fetch timeout using AbortSignal
+      });
+
+      if (!response.ok) {
+        console.warn(`API request failed for page ${page} with status ${response.status}`);
+        try {
+            const errorBody = await response.json();
+            console.error('API error body:', errorBody);
+        } catch (e) {
+            console.error('Could not parse error body from API');
+        }
+        return null;
+      }
+
+      const resultsData = await response.json() as ApiResponse;
+      if (!resultsData.success) {
+        console.warn(`API returned unsuccessful response for page ${page}:`, resultsData);
+        return null;
+      }
+      return toSourcePage(resultsData);
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// src/lib/sources/mock-http-source.ts
+import type { ResultSource } from './result-source';
+import { createLotoBonheurSource, LOTOBONHEUR_API_URL, type ApiResponse } from './lotobonheur-source';
+
+export interface MockHttpPage {
+  status?: number; // Defaults to 200
+  body: ApiResponse | unknown;
+}
+
+/**
+ * lotobonheur.ci adapter wired to an in-memory fetch, for `npm run check:offline`: the real HTTP code path
+ * (status handling, JSON parsing, `success` flag) runs against canned responses.
+ * Pages that are not listed answer 404. Every requested URL is recorded in `requests`.
+ * `referenceDate` anchors the year inference, like the recording date of a fixture directory.
+ */
+export function createMockHttpSource(pages: Record<number, MockHttpPage>, referenceDate?: Date): ResultSource & { requests: string[] } {
+  const requests: string[] = [];
+
+  const fetchImpl = (async (input: RequestInfo | URL) => {
+    const url = new URL(input.toString());
+    requests.push(url.toString());
+    const page = parseInt(url.searchParams.get('page') || '1', 10);
+    const mockPage = pages[page];
+    if (!mockPage) {
+      return new Response(JSON.stringify({ message: 'Not Found' }), { status: 404, headers: { 'Content-Type': 'application/json' } });
+    }
+    return new Response(JSON.stringify(mockPage.body), { status: mockPage.status ?? 200, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+
+  const source = createLotoBonheurSource({ baseUrl: LOTOBONHEUR_API_URL, fetchImpl });
+  return { name: `mock:${LOTOBONHEUR_API_URL}`, referenceDate, fetchPage: source.fetchPage, requests };
+}
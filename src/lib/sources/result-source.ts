@@ -0,0 +1,29 @@
+// src/lib/sources/result-source.ts
+
+// A draw as published by a source, before any validation or normalization.
+export interface SourceDraw {
+  drawName: string;
+  winningNumbers: string; // e.g. "12 - 45 - 3 - 78 - 90"; a leading "." marks a draw not played yet
+  machineNumbers?: string;
+}
+
+export interface SourceDay {
+  date: string; // "dimanche 04/05" (year inferred from page order), "04/05/2025" or "2025-05-04"
+  draws: SourceDraw[];
+}
+
+export interface SourcePage {
+  days: SourceDay[]; // Newest first
+  hasMore: boolean;
+}
+
+/**
+ * Where scraped results come from. Pages are numbered from 1 and ordered newest first;
+ * `fetchPage` resolves to null when the source has nothing (more) to give for that page.
+ */
+export interface ResultSource {
+  readonly name: string;
+  // When the pages were captured; years of "dd/MM" dates are inferred from it (defaults to now)
+  readonly referenceDate?: Date;
+  fetchPage(page: number): Promise<SourcePage | null>;
+}
@@ -0,0 +1,268 @@
+// src/lib/spreadsheet-results.ts
+import ExcelJS from 'exceljs';
+import { format as formatDateFns, parseISO } from 'date-fns';
+import type { LotteryResult } from '@/types/lottery';
+import { getGameFormats } from '@/config/draw-schedule';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export type CsvDelimiter = ';' | ',' | '\t';
+
+// French spreadsheets use dd/MM/yyyy; ISO is offered for tools that expect it
+export type SpreadsheetDateFormat = 'dd/MM/yyyy' | 'yyyy-MM-dd';
+
+/**
+ * Which column holds each field. `gagnants` and `machine` list either one column holding all
+ * the numbers ("12-34-56-78-90") or one column per number.
+ */
+export interface ColumnMapping {
+  draw_name: string;
+  date: string;
+  gagnants: string[];
+  machine: string[]; // Empty when the file has no machine numbers
+}
+
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: { line: number; cells: Record<string, unknown> }[]; // `line` is the row number shown by spreadsheet tools
+}
+
+// A mapped row ready for schema validation, or the cells that could not be read as numbers.
+export type MappedSpreadsheetRow =
+  | { line: number; item: { draw_name: unknown; date: unknown; gagnants: number[]; machine: number[] } }
+  | { line: number; errors: string[]; raw: Record<string, unknown> };
+
+function normalizeHeader(header: string): string {
+  return header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// --- CSV ---
+
+export function parseCsv(content: string, delimiter: CsvDelimiter): string[][] {
+  const text = content.replace(/^\uFEFF/, ''); // Excel writes a BOM in UTF-8 CSV files
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function toCsvField(value: string, delimiter: CsvDelimiter): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// --- Tables ---
+
+function toTable(records: unknown[][]): SpreadsheetTable {
+  const nonEmpty = records
+    .map((cells, index) => ({ line: index + 1, cells }))
+    .filter(({ cells }) => cells.some(cell => cell !== undefined && cell !== null && String(cell).trim() !== ''));
+  if (nonEmpty.length === 0) return { headers: [], rows: [] };
+
+  const headers = nonEmpty[0].cells.map((cell, i) => String(cell ?? '').trim() || `Colonne ${i + 1}`);
+  const rows = nonEmpty.slice(1).map(({ line, cells }) => {
+    const byHeader: Record<string, unknown> = {};
+    headers.forEach((header, i) => { byHeader[header] = cells[i]; });
+    return { line, cells: byHeader };
+  });
+  return { headers, rows };
+}
+
+export function readCsvTable(content: string, delimiter: CsvDelimiter): SpreadsheetTable {
+  return toTable(parseCsv(content, delimiter));
+}
+
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (value instanceof Date) {
+    // Excel dates have no time zone; exceljs exposes them as UTC midnight
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === 'object') {
+    if ('result' in value) return cellValue(value.result as ExcelJS.CellValue); // Formula
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return value.text; // Hyperlink
+    return undefined;
+  }
+  return value;
+}
+
+// Reads the first worksheet of an .xlsx file
+export async function readXlsxTable(buffer: ArrayBuffer): Promise<SpreadsheetTable> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return { headers: [], rows: [] };
+
+  const records: unknown[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    // row.values is 1-based
+    records[rowNumber - 1] = (row.values as ExcelJS.CellValue[]).slice(1).map(cellValue);
+  });
+  return toTable(Array.from(records, cells => cells || []));
+}
+
+// --- Column mapping ---
+
+/** Guesses the mapping from header names, e.g. "Tirage", "Date", "Gagnant 1".."Gagnant 5" or "Gagnants". */
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const find = (names: string[]) => headers.find(h => names.includes(normalizeHeader(h))) || '';
+  const numbered = (pattern: RegExp) => {
+    const columns: string[] = [];
+    headers.forEach(header => {
+      const match = normalizeHeader(header).match(pattern);
+      if (match) columns[Number(match[1]) - 1] = header;
+    });
+    // Numbered from 1 without gaps; a lone "N1" is more likely something else
+    return columns.length > 1 && columns.filter(Boolean).length === columns.length ? columns : [];
+  };
+  const single = (names: string[]) => {
+    const header = find(names);
+    return header ? [header] : [];
+  };
+
+  const gagnants = numbered(/^(?:gagnants?|numerosgagnants?|g|n)(\d{1,2})$/);
+  const machine = numbered(/^(?:machines?|numerosmachines?|m)(\d{1,2})$/);
+  return {
+    draw_name: find(['drawname', 'tirage', 'nomdutirage', 'nom', 'categorie']),
+    date: find(['date', 'datedutirage']),
+    gagnants: gagnants.length > 0 ? gagnants : single(['gagnants', 'gagnant', 'numerosgagnants']),
+    machine: machine.length > 0 ? machine : single(['machine', 'machines', 'numerosmachine']),
+  };
+}
+
+// Accepts numbers stored as text with French decimals ("12,0")
+function parseNumberCell(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isInteger(value) ? value : null;
+  const text = String(value ?? '').trim().replace(',', '.');
+  if (!/^\d+(\.0+)?$/.test(text)) return null;
+  return Number(text);
+}
+
+function readNumbers(cells: Record<string, unknown>, columns: string[], label: string, errors: string[]): number[] {
+  if (columns.length === 0) return [];
+  if (columns.length === 1) {
+    const text = String(cells[columns[0]] ?? '').trim();
+    if (!text) return [];
+    const parts = text.split(/[\s,;\-\/|]+/).filter(Boolean);
+    const numbers = parts.map(parseNumberCell);
+    if (numbers.some(n => n === null)) {
+      errors.push(`${label}: "${text}" ne contient pas uniquement des nombres entiers.`);
+    }
+    return numbers.filter((n): n is number => n !== null);
+  }
+
+  // Trailing empty columns belong to games drawing more numbers than this row's
+  const isEmpty = (value: unknown) => value === undefined || String(value).trim() === '';
+  const values = columns.map(column => cells[column]);
+  while (values.length > 0 && isEmpty(values[values.length - 1])) values.pop();
+  return values.map((value, i) => {
+    const number = parseNumberCell(value);
+    if (number === null) {
+      errors.push(`${label} (colonne "${columns[i]}"): "${value ?? ''}" n'est pas un nombre entier.`);
+    }
+    return number ?? 0;
+  });
+}
+
+export function mapSpreadsheetRows(table: SpreadsheetTable, mapping: ColumnMapping): MappedSpreadsheetRow[] {
+  return table.rows.map(({ line, cells }) => {
+    const errors: string[] = [];
+    if (!mapping.draw_name || !mapping.date || mapping.gagnants.length === 0) {
+      errors.push('Correspondance des colonnes incomplète: tirage, date et numéros gagnants sont requis.');
+    }
+    const gagnants = readNumbers(cells, mapping.gagnants, 'Gagnants', errors);
+    const machine = readNumbers(cells, mapping.machine, 'Machine', errors);
+    if (errors.length > 0) {
+      return { line, errors, raw: cells };
+    }
+    const date = cells[mapping.date];
+    return {
+      line,
+      item: {
+        draw_name: typeof cells[mapping.draw_name] === 'string' ? (cells[mapping.draw_name] as string).trim() : cells[mapping.draw_name],
+        date: typeof date === 'string' ? date.trim() : date === undefined ? date : String(date),
+        gagnants,
+        machine,
+      },
+    };
+  });
+}
+
+// --- Export ---
+
+// Enough columns for the scheduled game drawing the most numbers; shorter rows leave the last ones empty
+const EXPORT_WINNING_COLUMNS = Math.max(...getGameFormats().map(({ format }) => format.numbersDrawn));
+const EXPORT_MACHINE_COLUMNS = Math.max(...getGameFormats().map(({ format }) => format.machineNumbers));
+
+const EXPORT_HEADERS = [
+  'Tirage',
+  'Date',
+  ...Array.from({ length: EXPORT_WINNING_COLUMNS }, (_, i) => `Gagnant ${i + 1}`),
+  ...Array.from({ length: EXPORT_MACHINE_COLUMNS }, (_, i) => `Machine ${i + 1}`),
+];
+
+function exportNumbers(numbers: number[] | undefined, columns: number): (number | '')[] {
+  return Array.from({ length: columns }, (_, i) => numbers?.[i] ?? '');
+}
+
+export function resultsToCsv(results: LotteryResult[], delimiter: CsvDelimiter, dateFormat: SpreadsheetDateFormat): string {
+  const lines = [
+    EXPORT_HEADERS,
+    ...results.map(r => [
+      r.draw_name,
+      formatDateFns(parseISO(r.date), dateFormat),
+      ...exportNumbers(r.gagnants, EXPORT_WINNING_COLUMNS).map(String),
+      ...exportNumbers(r.machine, EXPORT_MACHINE_COLUMNS).map(String),
+    ]),
+  ].map(fields => fields.map(field => toCsvField(field, delimiter)).join(delimiter));
+  // The BOM lets Excel detect UTF-8 (accented draw names)
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+export async function resultsToXlsx(results: LotteryResult[], dateFormat: SpreadsheetDateFormat): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const worksheet = workbook.addWorksheet('Résultats');
+  worksheet.addRow(EXPORT_HEADERS).font = { bold: true };
+  results.forEach(r => {
+    const [year, month, day] = r.date.split('-').map(Number);
+    worksheet.addRow([r.draw_name, new Date(Date.UTC(year, month - 1, day)), ...exportNumbers(r.gagnants, EXPORT_WINNING_COLUMNS), ...exportNumbers(r.machine, EXPORT_MACHINE_COLUMNS)]);
+  });
+  worksheet.getColumn(1).width = 20;
+  worksheet.getColumn(2).width = 12;
+  worksheet.getColumn(2).numFmt = dateFormat === 'dd/MM/yyyy' ? 'dd/mm/yyyy' : 'yyyy-mm-dd';
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
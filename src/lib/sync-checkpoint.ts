@@ -0,0 +1,45 @@
+// src/lib/sync-checkpoint.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type SyncMode = 'full' | 'incremental';
+
+export interface SyncCheckpoint {
+  lastRunAt: string; // ISO timestamp of the end of the run
+  mode: SyncMode;
+  source: string; // Name of the ResultSource that was scraped
+  stopDate?: string; // Newest stored draw date when the run started (incremental mode only)
+  pagesFetched: number;
+  rowsFetched: number;
+  rowsInserted: number;
+  rowsRejected: number;
+  rowsQuarantined?: number; // Draws under an unknown name, left for an admin to map (absent in older checkpoints)
+  dateWarnings: string[]; // Weekday/date mismatches flagged by the year inference
+  newestDrawDate?: string; // Newest draw date in the store after the run
+  error?: string;
+}
+
+const DEFAULT_CHECKPOINT_PATH = path.join(process.cwd(), 'data', 'sync-checkpoint.json');
+
+function checkpointPath(): string {
+  return process.env.SYNC_CHECKPOINT_PATH || DEFAULT_CHECKPOINT_PATH;
+}
+
+export async function readSyncCheckpoint(): Promise<SyncCheckpoint | null> {
+  try {
+    const content = await fs.readFile(checkpointPath(), 'utf-8');
+    return JSON.parse(content) as SyncCheckpoint;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Replaced atomically (temp file + rename): a concurrent read never sees a half-written checkpoint
+export async function writeSyncCheckpoint(checkpoint: SyncCheckpoint): Promise<void> {
+  const filePath = checkpointPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(checkpoint, null, 2), 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
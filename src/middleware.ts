@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getAuthSecret, verifySessionToken, SESSION_COOKIE_NAME } from '@/lib/auth/session';
+
+// Any valid session (viewer and above) may open /admin; finer checks happen in the server actions.
+export async function middleware(request: NextRequest) {
+  const secret = getAuthSecret();
+  const session = secret ? await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value, secret) : null;
+  if (session) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', request.nextUrl.pathname);
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete(SESSION_COOKIE_NAME); // Drop expired or tampered tokens
+  return response;
+}
+
+export const config = {
+  matcher: ['/admin', '/admin/:path*'],
+};
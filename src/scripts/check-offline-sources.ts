@@ -0,0 +1,155 @@
+// Offline check of the sync and image review pipelines: `npm run check:offline`
+// The sync runs against the mock HTTP source serving the recorded lotobonheur.ci pages, and the
+// image review against the recorded extractor. Every store is written to a temporary directory.
+// The year inference of the scraped "mardi 06/05" dates is checked around a year boundary too, and
+// predictions on the synced draws must come out identical for the same seed.
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseISO } from 'date-fns';
+import { analyzeLotteryImageWith } from '@/ai/flows/image-analysis-flow';
+import { createRecordedImageExtractor, imageFingerprint } from '@/ai/image-extraction/recorded-image-extractor';
+import type { RawImageExtraction } from '@/ai/image-extraction/image-extractor';
+import type { LotteryResult } from '@/types/lottery';
+import { createDrawDateInferrer } from '@/lib/draw-date-inference';
+import { shiftDrawDate } from '@/lib/draw-time';
+import { computeLotteryPrediction } from '@/lib/lottery-prediction';
+import { generateRandomUniqueNumbers } from '@/lib/prediction-methods';
+import { trainPredictionModel } from '@/lib/prediction-model';
+import { FileResultsRepository } from '@/lib/results-repository';
+import { createSeededRandom } from '@/lib/seeded-random';
+import { syncResults } from '@/lib/results-sync';
+import { createMockHttpSource, type MockHttpPage } from '@/lib/sources/mock-http-source';
+
+const FIXTURE_DIR = path.join(process.cwd(), 'fixtures', 'lotobonheur');
+
+// Recording date of the fixture pages, for the year inference of their "mardi 06/05" dates
+async function readFixtureRecordedAt(): Promise<Date> {
+  const meta = JSON.parse(await fs.readFile(path.join(FIXTURE_DIR, 'meta.json'), 'utf-8')) as { recordedAt: string };
+  return parseISO(meta.recordedAt);
+}
+
+async function readFixturePages(): Promise<Record<number, MockHttpPage>> {
+  const pages: Record<number, MockHttpPage> = {};
+  for (let page = 1; ; page++) {
+    try {
+      pages[page] = { body: JSON.parse(await fs.readFile(path.join(FIXTURE_DIR, `page-${page}.json`), 'utf-8')) };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return pages;
+      throw error;
+    }
+  }
+}
+
+function checkDateInference() {
+  // Scraped early in January: the page walks back into December of the previous year
+  const inferJanuary = createDrawDateInferrer(new Date(2027, 0, 2));
+  assert.equal(inferJanuary('samedi 02/01')?.date, '2027-01-02');
+  assert.equal(inferJanuary('vendredi 01/01')?.date, '2027-01-01');
+  const december = inferJanuary('mercredi 30/12');
+  assert.equal(december?.date, '2026-12-30');
+  assert.equal(december?.weekdayMismatch, false);
+
+  // The nearest year would be in the future: the draw is placed in the past year instead
+  assert.equal(createDrawDateInferrer(new Date(2027, 0, 2))('30/06')?.date, '2026-06-30');
+
+  // A weekday that does not match the inferred date is reported, not used to move the date
+  const mismatch = createDrawDateInferrer(new Date(2027, 0, 2))('lundi 30/12');
+  assert.equal(mismatch?.date, '2026-12-30');
+  assert.equal(mismatch?.weekdayMismatch, true);
+  assert.equal(mismatch?.computedWeekday, 'mercredi');
+  console.log('Date inference: year boundary and weekday checks passed.');
+}
+
+async function checkSync(directory: string) {
+  const pages = await readFixturePages();
+  const recordedAt = await readFixtureRecordedAt();
+  const repository = new FileResultsRepository(path.join(directory, 'results.json'));
+
+  const source = createMockHttpSource(pages, recordedAt);
+  const full = await syncResults(repository, 'full', source);
+  assert.equal(full.error, undefined, `Full sync failed: ${full.error}`);
+  assert.ok(full.rowsInserted > 0, 'The full sync stored no draw.');
+  assert.equal(await repository.count(), full.rowsInserted);
+  assert.ok(source.requests.length >= Object.keys(pages).length, 'Not every recorded page was requested.');
+
+  // Everything is known already: a second run must not store anything
+  const incremental = await syncResults(repository, 'incremental', createMockHttpSource(pages, recordedAt));
+  assert.equal(incremental.rowsInserted, 0, 'The incremental sync stored known draws again.');
+  console.log(`Sync: ${full.rowsInserted} draw(s) from ${full.pagesFetched} page(s), ${full.rowsRejected} rejected, ${full.rowsQuarantined} quarantined.`);
+}
+
+// Weekly Reveil draws with pseudo-random numbers, enough for every method and the model to run
+function syntheticHistory(draws: number): LotteryResult[] {
+  const random = createSeededRandom(7);
+  return Array.from({ length: draws }, (_, i) => ({
+    draw_name: 'Reveil',
+    date: shiftDrawDate('2024-01-01', 7 * i),
+    gagnants: generateRandomUniqueNumbers(5, 1, 90, [], random),
+    machine: generateRandomUniqueNumbers(5, 1, 90, [], random),
+  }));
+}
+
+function checkPredictionReplay() {
+  const results = syntheticHistory(60);
+  const drawName = 'Reveil';
+  const seed = 12345;
+
+  // A replay trains the model again: the same draws must give the same weights and the same picks
+  const trainModel = () => trainPredictionModel(drawName, results, { now: new Date(0) });
+  const first = computeLotteryPrediction({ results, drawName, seed }, trainModel());
+  const replayed = computeLotteryPrediction({ results, drawName, seed }, trainModel());
+  assert.deepEqual(replayed, first, 'The same seed and draws gave different predictions.');
+  assert.equal(first.seed, seed);
+  assert.notDeepEqual(computeLotteryPrediction({ results, drawName, seed: seed + 1 }, trainModel()).allPredictions, first.allPredictions);
+  console.log(`Prediction replay: seed ${seed} on ${results.length} draws reproduced.`);
+}
+
+async function checkImageReview(directory: string) {
+  const recordingsDir = path.join(directory, 'image-extraction');
+  const imageDataUri = `data:image/png;base64,${Buffer.from('offline check image').toString('base64')}`;
+  const recording: RawImageExtraction = {
+    draws: [
+      { draw_name: 'Reveil', date: '2025-05-05', winning_numbers: [1, 14, 33, 52, 70], machine_numbers: [8, 21, 40, 63, 89] },
+      { draw_name: 'Etoile', date: '2025-05-05', winning_numbers: [4, 4, 91], machine_numbers: [] },
+    ],
+    summary: 'Sortie enregistrée.',
+  };
+  await fs.mkdir(recordingsDir, { recursive: true });
+  await fs.writeFile(path.join(recordingsDir, `${imageFingerprint(imageDataUri)}.json`), JSON.stringify(recording), 'utf-8');
+
+  const extractor = createRecordedImageExtractor(recordingsDir);
+  const review = await analyzeLotteryImageWith(extractor, { imageDataUri });
+  assert.equal(review.draws.length, 2);
+  const [valid, invalid] = review.draws;
+  assert.deepEqual(valid.messages.filter(m => m.level === 'error'), [], 'A valid draw was flagged.');
+  assert.ok(invalid.messages.some(m => m.level === 'error'), 'An invalid draw was not flagged.');
+
+  // A picture without a recording is an error, never an empty extraction
+  const unknownImage = `data:image/png;base64,${Buffer.from('other image').toString('base64')}`;
+  await assert.rejects(analyzeLotteryImageWith(extractor, { imageDataUri: unknownImage }));
+  console.log(`Image review: ${review.draws.length} recorded draw(s) reviewed, ${invalid.messages.length} message(s) on the invalid one.`);
+}
+
+async function main() {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'lbi-offline-check-'));
+  process.env.AUDIT_LOG_PATH = path.join(directory, 'audit-log.json');
+  process.env.DRAW_QUARANTINE_PATH = path.join(directory, 'draw-quarantine.json');
+  process.env.PREDICTION_LEDGER_PATH = path.join(directory, 'prediction-ledger.json');
+  process.env.SYNC_CHECKPOINT_PATH = path.join(directory, 'sync-checkpoint.json');
+  try {
+    checkDateInference();
+    await checkSync(directory);
+    checkPredictionReplay();
+    await checkImageReview(directory);
+    console.log('Offline checks passed.');
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error('Offline check failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,34 @@
+// Creates or updates an admin-area account: `npm run admin:user -- <username> <viewer|editor|admin>`
+// The password is read from ADMIN_PASSWORD, or prompted for when it is not set.
+import { createInterface } from 'readline/promises';
+import { upsertAdminUser } from '@/lib/auth/users';
+import { isRole, ROLES } from '@/lib/auth/session';
+
+async function main() {
+  const [username, role] = process.argv.slice(2);
+  if (!username || !isRole(role)) {
+    console.error(`Usage: npm run admin:user -- <username> <${ROLES.join('|')}>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    const prompt = createInterface({ input: process.stdin, output: process.stdout });
+    password = await prompt.question(`Password for ${username}: `);
+    prompt.close();
+  }
+  if (!password || password.length < 8) {
+    console.error('The password must be at least 8 characters long.');
+    process.exitCode = 1;
+    return;
+  }
+
+  await upsertAdminUser(username, password, role);
+  console.log(`User "${username}" saved with role "${role}".`);
+}
+
+main().catch(error => {
+  console.error('Failed to save user:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,14 @@
+// Command-line entry point for scheduled syncs (e.g. cron): `npm run sync:results [-- --full]`
+import { getResultsRepository } from '@/lib/results-repository';
+import { syncResults } from '@/lib/results-sync';
+
+const mode = process.argv.includes('--full') ? 'full' : 'incremental';
+
+syncResults(getResultsRepository(), mode)
+  .then(checkpoint => {
+    console.log(JSON.stringify(checkpoint, null, 2));
+  })
+  .catch(error => {
+    console.error('Sync failed:', error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,30 @@
+// Command-line entry point to retrain the prediction models: `npm run train:models [-- --draw <slug>]`
+import { getDrawNameBySlug, getUniqueDrawNames } from '@/config/draw-schedule';
+import { retrainPredictionModel } from '@/lib/prediction-model-store';
+
+async function main() {
+  const slugIndex = process.argv.indexOf('--draw');
+  let drawNames = getUniqueDrawNames();
+  if (slugIndex !== -1) {
+    const drawName = getDrawNameBySlug(process.argv[slugIndex + 1] || '');
+    if (!drawName) throw new Error(`Unknown draw slug: ${process.argv[slugIndex + 1]}`);
+    drawNames = [drawName];
+  }
+
+  for (const drawName of drawNames) {
+    const startedAt = Date.now();
+    const model = await retrainPredictionModel(drawName);
+    const { evaluation } = model;
+    console.log(
+      `${drawName}: ${model.trainingDraws} draws, ${((Date.now() - startedAt) / 1000).toFixed(1)}s. ` +
+      (evaluation.heldOutDraws > 0
+        ? `Held-out ${evaluation.heldOutDraws} draws: ${evaluation.meanHits.toFixed(3)} hits vs ${evaluation.baselineMeanHits.toFixed(3)} at random (z=${evaluation.zScore.toFixed(2)}, ${evaluation.verdict}).`
+        : 'Not enough draws to evaluate.')
+    );
+  }
+}
+
+main().catch(error => {
+  console.error('Training failed:', error);
+  process.exitCode = 1;
+});
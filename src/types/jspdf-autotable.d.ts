@@ -4,5 +4,6 @@ import type { jsPDF } from 'jspdf';
 declare module 'jspdf' {
   interface jsPDF {
     autoTable: (options: any) => jsPDF;
+    lastAutoTable?: { finalY: number }; // Set by jspdf-autotable after each table
   }
 }
@@ -6,6 +6,13 @@ export interface LotteryResult {
   machine: number[]; // Still an array, but logic will allow it to be empty
 }
 
+// Envelope returned by GET /api/results
+export interface PaginatedResults<T = LotteryResult> {
+  items: T[];
+  nextCursor: string | null; // Pass back as `cursor` to get the next page; null on the last page
+  total: number; // Number of results matching the filters, across all pages
+}
+
 // Utility type for admin page state if needed, though clientId can be on LotteryResult directly
 export type LotteryResultWithId = LotteryResult & { clientId: string };
 